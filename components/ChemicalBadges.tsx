@@ -0,0 +1,47 @@
+import React from 'react';
+import { Item, User } from '../types';
+import { GHS_PICTOGRAMS, getDaysUntilExpiry, getExpiryStatus, needsHazardWarning } from '../services/chemicalService';
+
+export const HazardPictograms: React.FC<{ item: Item }> = ({ item }) => {
+    if (!item.chemical?.hazards.length) return null;
+    return (
+        <span className="inline-flex flex-wrap gap-1">
+            {item.chemical.hazards.map(hazard => (
+                <span key={hazard} title={GHS_PICTOGRAMS[hazard].label} className="px-1.5 py-0.5 text-[10px] font-bold rounded border border-red-500 text-red-300 bg-red-950/60 print-text-black">
+                    {GHS_PICTOGRAMS[hazard].code}
+                </span>
+            ))}
+        </span>
+    );
+};
+
+export const ExpiryBadge: React.FC<{ item: Item }> = ({ item }) => {
+    const expiryDate = item.chemical?.expiryDate;
+    const status = getExpiryStatus(item);
+    if (!expiryDate || status === 'ok') return null;
+    const days = getDaysUntilExpiry(expiryDate);
+    return status === 'expired' ? (
+        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-900 text-red-300 print-text-black">Expired</span>
+    ) : (
+        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-900 text-yellow-300 print-text-black">
+            {days === 0 ? 'Expires today' : `Expires in ${days} ${days === 1 ? 'day' : 'days'}`}
+        </span>
+    );
+};
+
+// Shown on borrow forms when the request is for a Grade 11 student and includes hazardous chemicals
+export const HazardWarning: React.FC<{ items: (Item | undefined)[]; borrower: Pick<User, 'gradeLevel'> | null | undefined }> = ({ items, borrower }) => {
+    const hazardous = items.filter((item): item is Item => needsHazardWarning(item, borrower));
+    if (hazardous.length === 0) return null;
+    return (
+        <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-lg">
+            <strong>Hazardous {hazardous.length === 1 ? 'chemical' : 'chemicals'} for a Grade 11 student.</strong>
+            <ul className="mt-1 list-disc list-inside">
+                {hazardous.map(item => (
+                    <li key={item.id}>{item.name}: {item.chemical!.hazards.map(h => GHS_PICTOGRAMS[h].label).join(', ')}</li>
+                ))}
+            </ul>
+            <p className="mt-1">Use only under teacher supervision, following the safety data sheet.</p>
+        </div>
+    );
+};
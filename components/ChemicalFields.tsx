@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ChemicalDetails, GhsPictogram } from '../types';
+import { GHS_PICTOGRAMS, GHS_PICTOGRAM_KEYS, STORAGE_CLASSES, isValidCasNumber } from '../services/chemicalService';
+
+interface ChemicalFieldsProps {
+    value: ChemicalDetails | undefined;
+    onChange: (value: ChemicalDetails | undefined) => void;
+    // Only offered once the item exists; the file is stored against its id
+    onUploadSafetyDataSheet?: (file: File) => Promise<void>;
+}
+
+const inputClasses = 'w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5';
+
+export const ChemicalFields: React.FC<ChemicalFieldsProps> = ({ value, onChange, onUploadSafetyDataSheet }) => {
+    const [isUploading, setIsUploading] = useState(false);
+    const [uploadError, setUploadError] = useState('');
+
+    const update = (changes: Partial<ChemicalDetails>) => value && onChange({ ...value, ...changes });
+
+    const toggleHazard = (hazard: GhsPictogram) => value && update({
+        hazards: value.hazards.includes(hazard) ? value.hazards.filter(h => h !== hazard) : [...value.hazards, hazard],
+    });
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !onUploadSafetyDataSheet) return;
+        setUploadError('');
+        setIsUploading(true);
+        try {
+            await onUploadSafetyDataSheet(file);
+        } catch (err: any) {
+            setUploadError(`Upload failed: ${err.message}`);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const casNumber = value?.casNumber?.trim() ?? '';
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={!!value}
+                    onChange={(e) => onChange(e.target.checked ? { hazards: [] } : undefined)}
+                    className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500"
+                />
+                This is a chemical
+            </label>
+            {value && (
+                <div className="space-y-3 bg-slate-900/40 border border-slate-700 rounded-lg p-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="casNumber" className="block mb-2 text-sm font-medium text-slate-300">CAS Number</label>
+                            <input type="text" id="casNumber" value={value.casNumber ?? ''} onChange={(e) => update({ casNumber: e.target.value })} placeholder="e.g. 7647-01-0" className={inputClasses} />
+                            {casNumber && !isValidCasNumber(casNumber) && <p className="mt-1 text-xs text-yellow-400">This does not look like a valid CAS number.</p>}
+                        </div>
+                        <div>
+                            <label htmlFor="storageClass" className="block mb-2 text-sm font-medium text-slate-300">Storage Class</label>
+                            <select id="storageClass" value={value.storageClass ?? ''} onChange={(e) => update({ storageClass: e.target.value || undefined })} className={inputClasses}>
+                                <option value="">Not set</option>
+                                {STORAGE_CLASSES.map(storageClass => <option key={storageClass} value={storageClass}>{storageClass}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="lotNumber" className="block mb-2 text-sm font-medium text-slate-300">Lot Number</label>
+                            <input type="text" id="lotNumber" value={value.lotNumber ?? ''} onChange={(e) => update({ lotNumber: e.target.value })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="expiryDate" className="block mb-2 text-sm font-medium text-slate-300">Expiry Date</label>
+                            <input type="date" id="expiryDate" value={value.expiryDate ?? ''} onChange={(e) => update({ expiryDate: e.target.value || undefined })} className={inputClasses} />
+                        </div>
+                    </div>
+                    <fieldset>
+                        <legend className="mb-2 text-sm font-medium text-slate-300">GHS Hazard Pictograms</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                            {GHS_PICTOGRAM_KEYS.map(hazard => (
+                                <label key={hazard} className="flex items-center gap-2 text-sm text-slate-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={value.hazards.includes(hazard)}
+                                        onChange={() => toggleHazard(hazard)}
+                                        className="w-4 h-4 text-red-600 bg-slate-700 border-slate-600 rounded focus:ring-red-500"
+                                    />
+                                    <span><span className="font-mono text-xs text-slate-400">{GHS_PICTOGRAMS[hazard].code}</span> {GHS_PICTOGRAMS[hazard].label}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <div>
+                        <p className="mb-2 text-sm font-medium text-slate-300">Safety Data Sheet</p>
+                        {value.safetyDataSheet && (
+                            <p className="mb-2 text-sm">
+                                <a href={value.safetyDataSheet.url} target="_blank" rel="noopener noreferrer" className="text-emerald-400 hover:text-emerald-300 underline">{value.safetyDataSheet.fileName}</a>
+                                <span className="text-xs text-slate-400"> · uploaded {new Date(value.safetyDataSheet.uploadedAt).toLocaleDateString()}</span>
+                            </p>
+                        )}
+                        {onUploadSafetyDataSheet ? (
+                            <>
+                                <input type="file" accept="application/pdf" onChange={handleFileChange} disabled={isUploading} aria-label="Upload safety data sheet" className="block w-full text-sm text-slate-300 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-600 file:text-white hover:file:bg-slate-500" />
+                                {isUploading && <p className="mt-1 text-xs text-slate-400">Uploading…</p>}
+                                {uploadError && <p className="mt-1 text-xs text-red-400">{uploadError}</p>}
+                            </>
+                        ) : (
+                            <p className="text-xs text-slate-400">Upload the safety data sheet from Edit Item once the item is created.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { useInventory } from '../context/InventoryContext';
+import { IconDownload } from './icons';
+import { formatQuantity, getUsageBySection, isConsumable } from '../services/consumableService';
+import { convertToCSV, downloadCSV } from '../services/csvService';
+
+const PERIODS = [
+    { value: '30', label: 'Last 30 days' },
+    { value: '90', label: 'Last 90 days' },
+    { value: '365', label: 'Last 12 months' },
+    { value: 'all', label: 'All time' },
+];
+
+export const ConsumableUsageReport: React.FC = () => {
+    const { state } = useInventory();
+    const consumables = useMemo(
+        () => state.items.filter(isConsumable).sort((a, b) => a.name.localeCompare(b.name)),
+        [state.items]
+    );
+    const [itemId, setItemId] = useState('');
+    const [period, setPeriod] = useState('90');
+
+    const item = consumables.find(i => i.id === itemId) ?? consumables[0];
+
+    const usage = useMemo(() => {
+        if (!item) return [];
+        const since = period === 'all' ? undefined : new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000);
+        return getUsageBySection(item.id, state.logs, since);
+    }, [item, period, state.logs]);
+
+    const totalUsed = usage.reduce((sum, row) => sum + row.quantity, 0);
+
+    const handleExport = () => {
+        if (!item) return;
+        const rows = usage.map(row => ({
+            item: item.name,
+            section: row.section,
+            quantity: row.quantity,
+            unit: item.unit ?? 'pcs',
+            issuances: row.issuances,
+            lastIssuedAt: row.lastIssuedAt,
+        }));
+        downloadCSV(convertToCSV(rows), `olilab_usage_${item.name.replace(/\s+/g, '_').toLowerCase()}.csv`);
+    };
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-lg border border-slate-700">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+                <h2 className="text-xl font-semibold text-white">Consumable Usage by Section</h2>
+                <button onClick={handleExport} disabled={usage.length === 0} className="flex items-center justify-center px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed button-print-hide">
+                    <IconDownload /><span>Export</span>
+                </button>
+            </div>
+            {consumables.length === 0 ? (
+                <p className="text-slate-400">No items are marked as consumable yet.</p>
+            ) : (
+                <>
+                    <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                        <select value={item?.id ?? ''} onChange={(e) => setItemId(e.target.value)} aria-label="Item" className="flex-1 bg-slate-700 border border-slate-600 rounded-lg p-2.5">
+                            {consumables.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                        </select>
+                        <select value={period} onChange={(e) => setPeriod(e.target.value)} aria-label="Period" className="bg-slate-700 border border-slate-600 rounded-lg p-2.5">
+                            {PERIODS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                        </select>
+                    </div>
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-slate-400 uppercase bg-slate-700/50 print-text-black">
+                            <tr>
+                                <th scope="col" className="px-4 py-3">Section</th>
+                                <th scope="col" className="px-4 py-3">Used</th>
+                                <th scope="col" className="px-4 py-3">Issues</th>
+                                <th scope="col" className="px-4 py-3">Last Issued</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {usage.map(row => (
+                                <tr key={row.section} className="border-b border-slate-700 print-text-black">
+                                    <td className="px-4 py-3 font-medium text-white print-text-black">{row.section}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">{formatQuantity(row.quantity, item)}</td>
+                                    <td className="px-4 py-3">{row.issuances}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">{new Date(row.lastIssuedAt).toLocaleDateString()}</td>
+                                </tr>
+                            ))}
+                            {usage.length === 0 && (
+                                <tr>
+                                    <td colSpan={4} className="text-center py-6 text-slate-400">Nothing issued in this period.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                        {usage.length > 0 && (
+                            <tfoot>
+                                <tr className="font-semibold text-white print-text-black">
+                                    <td className="px-4 py-3">Total</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">{formatQuantity(totalUsed, item)}</td>
+                                    <td className="px-4 py-3">{usage.reduce((sum, row) => sum + row.issuances, 0)}</td>
+                                    <td className="px-4 py-3" />
+                                </tr>
+                            </tfoot>
+                        )}
+                    </table>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Item, LogEntry } from '../types';
+import { getOverdueInfo, isActiveLoan } from '../services/loanService';
+
+interface DueDateBadgeProps {
+    log: LogEntry;
+    item?: Item;
+}
+
+export const DueDateBadge: React.FC<DueDateBadgeProps> = ({ log, item }) => {
+    if (!isActiveLoan(log)) {
+        return <span className="text-slate-500">—</span>;
+    }
+
+    const { dueDate, isOverdue, daysOverdue } = getOverdueInfo(log, item);
+
+    return (
+        <div className="flex items-center gap-2 whitespace-nowrap">
+            <span className={isOverdue ? 'text-red-400 font-semibold print-text-black' : ''}>{dueDate.toLocaleDateString()}</span>
+            {isOverdue && (
+                <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-900 text-red-300 print-text-black">
+                    {daysOverdue} {daysOverdue === 1 ? 'day' : 'days'} overdue
+                </span>
+            )}
+        </div>
+    );
+};
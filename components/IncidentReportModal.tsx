@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { LogEntry } from '../types';
+import { Modal } from './Modal';
+import { IconX } from './icons';
+import { useInventory } from '../context/InventoryContext';
+import { useAuth } from '../context/AuthContext';
+
+const MAX_PHOTOS = 4;
+
+// Photos are stored inline on the incident, so they are read as data URLs
+const readAsDataUrl = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+interface IncidentReportModalProps {
+    log: LogEntry | null;
+    itemName?: string;
+    userName?: string;
+    onClose: () => void;
+}
+
+export const IncidentReportModal: React.FC<IncidentReportModalProps> = ({ log, itemName, userName, onClose }) => {
+    const { reportIncident } = useInventory();
+    const { currentUser } = useAuth();
+    const [description, setDescription] = useState('');
+    const [replacementCost, setReplacementCost] = useState(0);
+    const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (log) {
+            setDescription('');
+            setReplacementCost(0);
+            setPhotoUrls([]);
+            setError('');
+        }
+    }, [log]);
+
+    const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+        e.target.value = '';
+        if (files.length === 0) return;
+        try {
+            const urls = await Promise.all(files.map(readAsDataUrl));
+            setPhotoUrls(prev => [...prev, ...urls].slice(0, MAX_PHOTOS));
+        } catch {
+            setError('One of the photos could not be read.');
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!log || !currentUser || !description.trim()) return;
+        setError('');
+        try {
+            await reportIncident({
+                logId: log.id,
+                userId: log.userId,
+                itemId: log.itemId,
+                description: description.trim(),
+                photoUrls,
+                replacementCost,
+            });
+            onClose();
+        } catch (err: any) {
+            setError(`Failed to report incident: ${err.message}`);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!log} onClose={onClose} title="Report Damage or Loss">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p>Record an incident for <strong className="text-white">{itemName}</strong>, borrowed by <strong className="text-white">{userName}</strong>.</p>
+                <div>
+                    <label htmlFor="incidentDescription" className="block mb-2 text-sm font-medium text-slate-300">What happened?</label>
+                    <textarea id="incidentDescription" value={description} onChange={e => setDescription(e.target.value)} required rows={3} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                </div>
+                <div>
+                    <label htmlFor="replacementCost" className="block mb-2 text-sm font-medium text-slate-300">Replacement Cost</label>
+                    <input type="number" id="replacementCost" min="0" step="0.01" value={replacementCost} onChange={e => setReplacementCost(Math.max(parseFloat(e.target.value) || 0, 0))} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                </div>
+                <div>
+                    <label htmlFor="incidentPhotos" className="block mb-2 text-sm font-medium text-slate-300">Photos (up to {MAX_PHOTOS})</label>
+                    <input type="file" id="incidentPhotos" accept="image/*" multiple onChange={handlePhotoChange} disabled={photoUrls.length >= MAX_PHOTOS} className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-600 file:text-white hover:file:bg-slate-500" />
+                    {photoUrls.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {photoUrls.map((url, index) => (
+                                <div key={index} className="relative">
+                                    <img src={url} alt={`Incident photo ${index + 1}`} className="h-16 w-16 object-cover rounded-md border border-slate-600" />
+                                    <button type="button" onClick={() => setPhotoUrls(prev => prev.filter((_, i) => i !== index))} aria-label="Remove photo" className="absolute -top-2 -right-2 bg-slate-800 rounded-full text-slate-400 hover:text-white">
+                                        <IconX />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <div className="flex justify-end gap-3 pt-4">
+                    <button type="button" onClick={onClose} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                    <button type="submit" disabled={!description.trim()} className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Report Incident</button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
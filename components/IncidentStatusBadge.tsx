@@ -0,0 +1,13 @@
+import React from 'react';
+import { IncidentStatus } from '../types';
+
+const statusMap: Record<IncidentStatus, { text: string; classes: string }> = {
+    [IncidentStatus.PENDING]: { text: 'Pending', classes: 'bg-yellow-900 text-yellow-300' },
+    [IncidentStatus.PAID]: { text: 'Paid', classes: 'bg-green-900 text-green-300' },
+    [IncidentStatus.WAIVED]: { text: 'Waived', classes: 'bg-slate-700 text-slate-300' },
+};
+
+export const IncidentStatusBadge: React.FC<{ status: IncidentStatus }> = ({ status }) => {
+    const { text, classes } = statusMap[status];
+    return <span className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${classes}`}>{text}</span>;
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Item, ItemLocation } from '../types';
+import { Modal } from './Modal';
+import { IconTrash } from './icons';
+import { useInventory } from '../context/InventoryContext';
+import { LOCATION_LEVEL_LABELS, fitLocationsToTotal, flattenLocationTree, formatLocationPath, validateItemLocations } from '../services/locationService';
+import { formatQuantity } from '../services/consumableService';
+
+interface ItemLocationsModalProps {
+    item: Item | null;
+    onClose: () => void;
+}
+
+export const ItemLocationsModal: React.FC<ItemLocationsModalProps> = ({ item, onClose }) => {
+    const { state, setItemLocations } = useInventory();
+    const [rows, setRows] = useState<ItemLocation[]>([]);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (item) {
+            // Never start from more than the total, e.g. with data cached from before a decrease
+            setRows(fitLocationsToTotal(item.locations ?? [], item.totalQuantity).map(l => ({ ...l })));
+            setError('');
+        }
+    }, [item]);
+
+    const options = useMemo(() => flattenLocationTree(state.locations), [state.locations]);
+
+    const placed = rows.reduce((sum, row) => sum + (row.quantity || 0), 0);
+
+    const updateRow = (index: number, changes: Partial<ItemLocation>) =>
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!item) return;
+        const validationError = validateItemLocations(item, rows);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setError('');
+        setIsSaving(true);
+        try {
+            await setItemLocations(item.id, rows);
+            onClose();
+        } catch (err: any) {
+            setError(`Failed to save locations: ${err.message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!item} onClose={onClose} title={`Locations: ${item?.name ?? ''}`}>
+            {item && (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {options.length === 0 ? (
+                        <p className="text-sm text-slate-400">No storage locations have been set up yet. Add them from the Locations page.</p>
+                    ) : (
+                        <>
+                            <div className="space-y-2 max-h-72 overflow-y-auto">
+                                {rows.map((row, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <select
+                                            value={row.locationId}
+                                            onChange={(e) => updateRow(index, { locationId: e.target.value })}
+                                            aria-label="Location"
+                                            className="flex-grow min-w-0 bg-slate-700 border border-slate-600 rounded-lg p-2"
+                                        >
+                                            <option value="">Choose a location…</option>
+                                            {options.map(location => (
+                                                <option key={location.id} value={location.id}>
+                                                    {formatLocationPath(location.id, state.locations)} ({LOCATION_LEVEL_LABELS[location.level]})
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={row.quantity}
+                                            onChange={(e) => updateRow(index, { quantity: parseInt(e.target.value, 10) || 0 })}
+                                            aria-label="Quantity"
+                                            className="w-24 bg-slate-700 border border-slate-600 rounded-lg p-2"
+                                        />
+                                        <button type="button" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} title="Remove location" className="p-1 text-slate-400 hover:text-red-400"><IconTrash /></button>
+                                    </div>
+                                ))}
+                                {rows.length === 0 && <p className="text-sm text-slate-400">This item has not been placed anywhere.</p>}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setRows(prev => [...prev, { locationId: '', quantity: Math.max(item.totalQuantity - placed, 1) }])}
+                                className="text-sm font-medium text-emerald-400 hover:text-emerald-300"
+                            >
+                                + Add location
+                            </button>
+                        </>
+                    )}
+                    <p className={`text-xs ${placed > item.totalQuantity ? 'text-red-400' : 'text-slate-400'}`}>
+                        {formatQuantity(placed, item)} of {formatQuantity(item.totalQuantity, item)} placed
+                        {placed < item.totalQuantity && `; ${formatQuantity(item.totalQuantity - placed, item)} unplaced`}
+                    </p>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button type="button" onClick={onClose} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                        <button type="submit" disabled={isSaving || options.length === 0} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Save Locations</button>
+                    </div>
+                </form>
+            )}
+        </Modal>
+    );
+};
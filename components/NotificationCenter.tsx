@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { IconBell } from './icons';
+import { useInventory } from '../context/InventoryContext';
+import { Notification } from '../types';
+import { getNotificationCategory, getNotificationLink, NotificationCategory, NOTIFICATION_CATEGORY_LABELS } from '../services/notificationService';
+
+export const NotificationCenter: React.FC<{ isCollapsed: boolean }> = ({ isCollapsed }) => {
+    const { state, markNotificationsAsRead, markNotificationsAsUnread, markAllNotificationsAsRead } = useInventory();
+    const router = useRouter();
+    const [isOpen, setIsOpen] = useState(false);
+    const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+    const [category, setCategory] = useState<NotificationCategory | 'all'>('all');
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const unreadCount = useMemo(() => state.notifications.filter(n => !n.read).length, [state.notifications]);
+
+    const visibleNotifications = useMemo(() => {
+        return state.notifications
+            .filter(n => !showUnreadOnly || !n.read)
+            .filter(n => category === 'all' || getNotificationCategory(n) === category)
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }, [state.notifications, showUnreadOnly, category]);
+
+    // Close the panel when clicking anywhere outside it
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const openNotification = (notification: Notification) => {
+        if (!notification.read) {
+            markNotificationsAsRead([notification.id]);
+        }
+        setIsOpen(false);
+        router.push(getNotificationLink(notification));
+    };
+
+    const toggleRead = (notification: Notification) => {
+        if (notification.read) {
+            markNotificationsAsUnread([notification.id]);
+        } else {
+            markNotificationsAsRead([notification.id]);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                title={isCollapsed ? 'Notifications' : undefined}
+                className={`relative flex w-full items-center py-3 text-sm font-medium rounded-lg transition-all duration-200 ease-in-out ${isOpen ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-700 hover:text-white'} ${isCollapsed ? 'justify-center px-3' : 'px-4'}`}
+            >
+                <IconBell />
+                {!isCollapsed && <span className="ml-3 flex-grow text-left">Notifications</span>}
+                {!isCollapsed && unreadCount > 0 && (
+                    <span className="bg-red-500 text-white text-xs font-semibold h-5 w-5 flex items-center justify-center rounded-full">
+                        {unreadCount > 9 ? '9+' : unreadCount}
+                    </span>
+                )}
+                {isCollapsed && unreadCount > 0 && (
+                    <span className="absolute top-1 right-1 bg-red-500 text-white text-xs font-semibold h-4 w-4 flex items-center justify-center rounded-full text-[9px] border-2 border-slate-800">
+                        {unreadCount > 9 ? '!' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-full bottom-0 ml-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 flex flex-col max-h-[32rem]">
+                    <div className="flex items-center justify-between p-3 border-b border-slate-700">
+                        <h2 className="font-semibold text-white">Notifications</h2>
+                        <button
+                            onClick={() => markAllNotificationsAsRead()}
+                            disabled={unreadCount === 0}
+                            className="text-xs font-medium text-emerald-400 hover:text-emerald-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                        >
+                            Mark all read
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-2 p-3 border-b border-slate-700">
+                        <div className="flex rounded-lg bg-slate-700 p-0.5 text-xs">
+                            <button onClick={() => setShowUnreadOnly(false)} className={`px-2 py-1 rounded-md ${!showUnreadOnly ? 'bg-emerald-600 text-white' : 'text-slate-300'}`}>All</button>
+                            <button onClick={() => setShowUnreadOnly(true)} className={`px-2 py-1 rounded-md ${showUnreadOnly ? 'bg-emerald-600 text-white' : 'text-slate-300'}`}>Unread</button>
+                        </div>
+                        <select
+                            value={category}
+                            onChange={e => setCategory(e.target.value as NotificationCategory | 'all')}
+                            aria-label="Filter by category"
+                            className="flex-grow bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-slate-200"
+                        >
+                            <option value="all">All categories</option>
+                            {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map(key => (
+                                <option key={key} value={key}>{NOTIFICATION_CATEGORY_LABELS[key]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <ul className="overflow-y-auto divide-y divide-slate-700">
+                        {visibleNotifications.map(notification => (
+                            <li key={notification.id} className={`flex gap-2 p-3 hover:bg-slate-700/50 ${notification.read ? '' : 'bg-slate-700/30'}`}>
+                                <button onClick={() => openNotification(notification)} className="flex-grow text-left">
+                                    <p className={`text-sm ${notification.read ? 'text-slate-400' : 'text-white font-medium'}`}>{notification.message}</p>
+                                    <p className="text-xs text-slate-500 mt-1">{new Date(notification.timestamp).toLocaleString()}</p>
+                                </button>
+                                <button
+                                    onClick={() => toggleRead(notification)}
+                                    title={notification.read ? 'Mark as unread' : 'Mark as read'}
+                                    aria-label={notification.read ? 'Mark as unread' : 'Mark as read'}
+                                    className="self-start mt-1.5 p-1"
+                                >
+                                    <span className={`block h-2 w-2 rounded-full ${notification.read ? 'border border-slate-500' : 'bg-emerald-400'}`} />
+                                </button>
+                            </li>
+                        ))}
+                        {visibleNotifications.length === 0 && (
+                            <li className="text-center py-8 text-sm text-slate-400">
+                                {showUnreadOnly ? "You're all caught up." : 'No notifications yet.'}
+                            </li>
+                        )}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Modal } from './Modal';
+import { useInventory } from '../context/InventoryContext';
+
+export const OutboxModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { outbox, retryOutboxEntry, discardOutboxEntry } = useInventory();
+
+    const handleRetry = async (entryId: string) => {
+        try {
+            await retryOutboxEntry(entryId);
+        } catch (error: any) {
+            alert(error.message);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Waiting to Sync">
+            <p className="text-sm text-slate-400 mb-4">
+                These changes were made while the server could not be reached. They are sent in order as soon as the connection is back.
+            </p>
+            <ul className="space-y-3 max-h-96 overflow-y-auto">
+                {outbox.map(entry => (
+                    <li key={entry.id} className={`p-3 rounded-lg border ${entry.conflict ? 'bg-red-900/30 border-red-700' : 'bg-slate-700/50 border-slate-600'}`}>
+                        <div className="flex justify-between items-start gap-3">
+                            <div>
+                                <p className="font-medium text-white">{entry.description}</p>
+                                <p className="text-xs text-slate-400">Queued {new Date(entry.queuedAt).toLocaleString()}</p>
+                            </div>
+                            {!entry.conflict && <span className="text-xs text-yellow-400 whitespace-nowrap">Waiting</span>}
+                        </div>
+                        {entry.conflict && (
+                            <>
+                                <p className="text-sm text-red-300 mt-2">{entry.conflict}</p>
+                                <div className="flex justify-end gap-2 mt-3">
+                                    <button onClick={() => discardOutboxEntry(entry.id)} className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded-md text-sm">Discard</button>
+                                    <button onClick={() => handleRetry(entry.id)} className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 rounded-md text-sm font-semibold">Send Anyway</button>
+                                </div>
+                            </>
+                        )}
+                    </li>
+                ))}
+                {outbox.length === 0 && <li className="text-center py-6 text-slate-400">Everything has been synced.</li>}
+            </ul>
+        </Modal>
+    );
+};
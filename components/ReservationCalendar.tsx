@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Reservation, ReservationStatus } from '../types';
+import { useInventory } from '../context/InventoryContext';
+import { useAuth } from '../context/AuthContext';
+import { IconChevronLeft, IconChevronRight } from './icons';
+import { can } from '../services/permissionService';
+
+const DAYS_IN_WEEK = 7;
+
+const startOfWeek = (date: Date): Date => {
+    const start = new Date(date);
+    start.setDate(date.getDate() - date.getDay());
+    start.setHours(0, 0, 0, 0);
+    return start;
+};
+
+const isSameDay = (a: Date, b: Date): boolean =>
+    a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+const formatTime = (iso: string): string =>
+    new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const statusClasses: Record<ReservationStatus, string> = {
+    [ReservationStatus.RESERVED]: 'bg-blue-900/60 border-blue-700 text-blue-200',
+    [ReservationStatus.FULFILLED]: 'bg-green-900/60 border-green-700 text-green-200',
+    [ReservationStatus.CANCELLED]: 'bg-slate-700/60 border-slate-600 text-slate-400 line-through',
+};
+
+export const ReservationCalendar: React.FC = () => {
+    const { state, cancelReservation, fulfillReservation } = useInventory();
+    const { currentUser } = useAuth();
+    const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+
+    const days = useMemo(() => Array.from({ length: DAYS_IN_WEEK }, (_, i) => {
+        const day = new Date(weekStart);
+        day.setDate(weekStart.getDate() + i);
+        return day;
+    }), [weekStart]);
+
+    const reservationsByDay = useMemo(() => {
+        return days.map(day => state.reservations
+            .filter(r => isSameDay(new Date(r.startTime), day))
+            .map(r => ({
+                ...r,
+                itemName: state.items.find(i => i.id === r.itemId)?.name || 'Unknown Item',
+                userName: state.userDirectory.find(u => u.id === r.userId)?.fullName || 'Unknown User',
+            }))
+            .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+        );
+    }, [days, state.reservations, state.items, state.userDirectory]);
+
+    const changeWeek = (offset: number) => {
+        setWeekStart(prev => {
+            const next = new Date(prev);
+            next.setDate(prev.getDate() + offset * DAYS_IN_WEEK);
+            return next;
+        });
+    };
+
+    const handleAction = async (action: () => Promise<void>) => {
+        try {
+            await action();
+        } catch (error: any) {
+            alert(error.message);
+        }
+    };
+
+    const canCancel = (reservation: Reservation) =>
+        reservation.status === ReservationStatus.RESERVED && (can(currentUser, 'reservations.manage') || reservation.userId === currentUser?.id);
+
+    const today = new Date();
+    const weekEnd = days[DAYS_IN_WEEK - 1];
+
+    return (
+        <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg p-4 print-bg-white">
+            <div className="flex items-center justify-between mb-4">
+                <button onClick={() => changeWeek(-1)} title="Previous week" className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors button-print-hide">
+                    <IconChevronLeft />
+                </button>
+                <h2 className="text-lg font-semibold text-white print-text-black">
+                    {weekStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} – {weekEnd.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
+                </h2>
+                <button onClick={() => changeWeek(1)} title="Next week" className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors button-print-hide">
+                    <IconChevronRight />
+                </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+                {days.map((day, index) => (
+                    <div key={day.toISOString()} className={`min-h-[10rem] rounded-lg border p-2 ${isSameDay(day, today) ? 'border-emerald-500' : 'border-slate-700'}`}>
+                        <p className="text-xs font-semibold text-slate-400 uppercase mb-2 print-text-black">
+                            {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+                        </p>
+                        <div className="space-y-2">
+                            {reservationsByDay[index].map(r => (
+                                <div key={r.id} className={`text-xs p-2 rounded-md border ${statusClasses[r.status]}`}>
+                                    <p className="font-semibold">{r.quantity}x {r.itemName}</p>
+                                    <p>{formatTime(r.startTime)} – {formatTime(r.endTime)}</p>
+                                    <p className="truncate" title={r.purpose}>{r.userName}</p>
+                                    {r.status === ReservationStatus.RESERVED && (
+                                        <div className="flex gap-2 mt-1 button-print-hide">
+                                            {can(currentUser, 'reservations.manage') && (
+                                                <button onClick={() => handleAction(() => fulfillReservation(r))} className="font-medium text-emerald-400 hover:text-emerald-300">Picked Up</button>
+                                            )}
+                                            {canCancel(r) && (
+                                                <button onClick={() => handleAction(() => cancelReservation(r.id))} className="font-medium text-red-400 hover:text-red-300">Cancel</button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                            {reservationsByDay[index].length === 0 && <p className="text-xs text-slate-600">No reservations</p>}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,11 +1,17 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { IconLayoutDashboard, IconFlaskConical, IconBookText, IconUsers, IconOliveBranch, IconFileSpreadsheet, IconLogOut, IconSearch, IconUserCircle, IconLightbulb, IconChevronLeft, IconChevronRight, IconCloud, IconCloudOff, IconLoader } from './icons';
+import { IconLayoutDashboard, IconFlaskConical, IconBookText, IconUsers, IconOliveBranch, IconFileSpreadsheet, IconLogOut, IconSearch, IconUserCircle, IconLightbulb, IconChevronLeft, IconChevronRight, IconCloud, IconCloudOff, IconLoader, IconAlertTriangle, IconHistory, IconMapPin, IconClipboardCheck, IconShoppingCart } from './icons';
 import { useAuth } from '../context/AuthContext';
 import { useInventory } from '../context/InventoryContext';
 import { SuggestionStatus, UserStatus } from '../types';
+import { isUnresolvedIncident } from '../services/incidentService';
+import { canReceive } from '../services/purchaseService';
+import { isArchived } from '../services/archiveService';
 import { useSettings } from '../context/SettingsContext';
+import { OutboxModal } from './OutboxModal';
+import { NotificationCenter } from './NotificationCenter';
+import { can, Permission } from '../services/permissionService';
 
 interface SidebarProps {
     isCollapsed: boolean;
@@ -31,40 +37,61 @@ const formatTimeAgo = (date: Date | null): string => {
 };
 
 const SyncStatusIndicator: React.FC<{ isCollapsed: boolean }> = ({ isCollapsed }) => {
-    const { syncStatus, lastSynced } = useInventory();
+    const { syncStatus, lastSynced, connectionStatus, outbox } = useInventory();
+    const [isOutboxOpen, setOutboxOpen] = useState(false);
+    const conflictCount = outbox.filter(entry => entry.conflict).length;
 
+    // Saving and failed saves take precedence; otherwise show whether live updates are flowing.
     const statusContent = useMemo(() => {
-        switch (syncStatus) {
-            case 'syncing':
-                return { icon: <IconLoader className="h-4 w-4" />, text: "Syncing...", color: "text-slate-400", title: "Saving your changes..." };
-            case 'synced':
-                return { icon: <IconCloud />, text: `Synced ${formatTimeAgo(lastSynced)}`, color: "text-green-400", title: `Last sync: ${lastSynced?.toLocaleString()}` };
-            case 'error':
-                return { icon: <IconCloudOff />, text: "Sync failed", color: "text-red-400", title: "Could not save changes. Please check your connection." };
+        if (syncStatus === 'syncing') {
+            return { icon: <IconLoader className="h-4 w-4" />, text: "Syncing...", color: "text-slate-400", title: "Saving your changes..." };
+        }
+        if (syncStatus === 'offline' && connectionStatus !== 'live') {
+            return { icon: <IconCloudOff />, text: "Working offline", color: "text-yellow-400", title: `The server cannot be reached. Showing data from ${lastSynced?.toLocaleString() ?? 'earlier'}.` };
+        }
+        if (syncStatus === 'error') {
+            return { icon: <IconCloudOff />, text: "Sync failed", color: "text-red-400", title: "Could not save changes. Please check your connection." };
+        }
+        switch (connectionStatus) {
+            case 'live':
+                return { icon: <IconCloud />, text: `Live · synced ${formatTimeAgo(lastSynced)}`, color: "text-green-400", title: `Receiving live updates. Last sync: ${lastSynced?.toLocaleString()}` };
+            case 'connecting':
+                return { icon: <IconLoader className="h-4 w-4" />, text: "Connecting...", color: "text-slate-400", title: "Connecting to live updates..." };
+            case 'reconnecting':
+                return { icon: <IconLoader className="h-4 w-4" />, text: "Reconnecting...", color: "text-yellow-400", title: `Live updates were interrupted. Showing data from ${lastSynced?.toLocaleString() ?? 'earlier'}.` };
+            case 'offline':
+                return { icon: <IconCloudOff />, text: "Offline", color: "text-red-400", title: "No network connection. Changes from others will appear once you are back online." };
             default:
                 return { icon: null, text: "", color: "" };
         }
-    }, [syncStatus, lastSynced]);
+    }, [syncStatus, connectionStatus, lastSynced]);
 
     return (
-        <div 
-            title={statusContent.title}
-            className={`flex items-center gap-2 text-xs py-2 mt-2 transition-all duration-200 ${statusContent.color} ${isCollapsed ? 'justify-center' : 'px-4'}`}
-        >
-            {statusContent.icon}
-            {!isCollapsed && <span>{statusContent.text}</span>}
-        </div>
+        <>
+            <div 
+                title={statusContent.title}
+                className={`flex items-center gap-2 text-xs py-2 mt-2 transition-all duration-200 ${statusContent.color} ${isCollapsed ? 'justify-center' : 'px-4'}`}
+            >
+                {statusContent.icon}
+                {!isCollapsed && <span>{statusContent.text}</span>}
+            </div>
+            {outbox.length > 0 && (
+                <button
+                    onClick={() => setOutboxOpen(true)}
+                    title={`${outbox.length} queued ${outbox.length === 1 ? 'change' : 'changes'}`}
+                    className={`flex w-full items-center gap-2 text-xs py-1 font-medium hover:underline ${conflictCount > 0 ? 'text-red-400' : 'text-yellow-400'} ${isCollapsed ? 'justify-center' : 'px-4'}`}
+                >
+                    <span className="h-4 min-w-[1rem] px-1 flex items-center justify-center rounded-full bg-current">
+                        <span className="text-[10px] text-slate-900">{outbox.length}</span>
+                    </span>
+                    {!isCollapsed && <span>{conflictCount > 0 ? `${conflictCount} need${conflictCount === 1 ? 's' : ''} attention` : 'Waiting to sync'}</span>}
+                </button>
+            )}
+            <OutboxModal isOpen={isOutboxOpen} onClose={() => setOutboxOpen(false)} />
+        </>
     );
 };
 
-const memberNavItems = [
-  { href: '/dashboard', text: 'Dashboard', icon: <IconLayoutDashboard /> },
-  { href: '/inventory', text: 'Inventory', icon: <IconFlaskConical /> },
-  { href: '/search', text: 'Scan & Find', icon: <IconSearch /> },
-  { href: '/my-borrows', text: 'My Borrows', icon: <IconBookText /> },
-  { href: '/suggestions', text: 'Suggestions', icon: <IconLightbulb /> },
-];
-
 const NavItem: React.FC<{ href: string; text: string; icon: React.ReactNode; badge?: number; isCollapsed: boolean }> = ({ href, text, icon, badge, isCollapsed }) => {
     const router = useRouter();
     const isActive = router.pathname === href;
@@ -98,17 +125,20 @@ const NavItem: React.FC<{ href: string; text: string; icon: React.ReactNode; bad
 
 export const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle }) => {
     const { currentUser, logout } = useAuth();
-    const { state } = useInventory();
+    const { state, outbox } = useInventory();
     const { settings } = useSettings();
     const router = useRouter();
 
     const handleLogout = () => {
+        if (outbox.length > 0 && !confirm(`${outbox.length} ${outbox.length === 1 ? 'change has' : 'changes have'} not been synced yet. They will be sent the next time you sign in on this device. Log out anyway?`)) {
+            return;
+        }
         logout();
         router.replace('/login');
     };
 
     const pendingUsersCount = useMemo(() => {
-        return state.users.filter(u => u.status === UserStatus.PENDING).length;
+        return state.users.filter(u => u.status === UserStatus.PENDING && !isArchived(u)).length;
     }, [state.users]);
     
     const pendingSuggestionsCount = useMemo(() => {
@@ -121,18 +151,36 @@ export const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle }) => {
         return returnRequests + borrowRequests;
     }, [state.notifications]);
 
-
-    const adminNavItems = useMemo(() => [
-      { href: '/dashboard', text: 'Dashboard', icon: <IconLayoutDashboard /> },
-      { href: '/inventory', text: 'Inventory', icon: <IconFlaskConical /> },
-      { href: '/search', text: 'Scan & Find', icon: <IconSearch /> },
-      { href: '/log', text: 'Borrow Log', icon: <IconBookText />, badge: borrowLogBadgeCount },
-      { href: '/users', text: 'Users', icon: <IconUsers />, badge: pendingUsersCount },
-      { href: '/reports', text: 'Data & Reports', icon: <IconFileSpreadsheet /> },
-      { href: '/suggestions', text: 'Suggestions', icon: <IconLightbulb />, badge: pendingSuggestionsCount },
-    ], [pendingUsersCount, pendingSuggestionsCount, borrowLogBadgeCount]);
-
-    const navItems = currentUser?.isAdmin ? adminNavItems : memberNavItems;
+    const pendingIncidentsCount = useMemo(() => {
+        return state.incidents.filter(isUnresolvedIncident).length;
+    }, [state.incidents]);
+
+    // Deliveries still expected
+    const openPurchaseCount = useMemo(() => {
+        return state.purchaseRequests.filter(canReceive).length;
+    }, [state.purchaseRequests]);
+
+    // Items without a permission are shown to every signed-in user
+    const navItems = useMemo(() => {
+        const items: { href: string; text: string; icon: React.ReactNode; badge?: number; permission?: Permission }[] = [
+            { href: '/dashboard', text: 'Dashboard', icon: <IconLayoutDashboard /> },
+            { href: '/inventory', text: 'Inventory', icon: <IconFlaskConical /> },
+            { href: '/search', text: 'Scan & Find', icon: <IconSearch /> },
+            { href: '/locations', text: 'Locations', icon: <IconMapPin />, permission: 'items.manage' },
+            { href: '/stocktake', text: 'Stocktake', icon: <IconClipboardCheck />, permission: 'stocktake.run' },
+            { href: '/my-borrows', text: 'My Borrows', icon: <IconBookText />, permission: 'loans.borrow' },
+            { href: '/log', text: 'Borrow Log', icon: <IconBookText />, badge: borrowLogBadgeCount, permission: 'loans.view' },
+            { href: '/incidents', text: 'Incidents', icon: <IconAlertTriangle />, badge: pendingIncidentsCount, permission: 'incidents.resolve' },
+            { href: '/users', text: 'Users', icon: <IconUsers />, badge: pendingUsersCount, permission: 'users.manage' },
+            { href: '/reports', text: 'Data & Reports', icon: <IconFileSpreadsheet />, permission: 'reports.view' },
+            { href: '/audit', text: 'Audit Log', icon: <IconHistory />, permission: 'audit.view' },
+            { href: '/purchasing', text: 'Purchasing', icon: <IconShoppingCart />, badge: openPurchaseCount, permission: 'purchases.manage' },
+            { href: '/suggestions', text: 'Suggestions', icon: <IconLightbulb />, badge: can(currentUser, 'suggestions.manage') ? pendingSuggestionsCount : undefined },
+        ];
+        return items
+            .filter(item => !item.permission || can(currentUser, item.permission))
+            .map(({ permission, ...item }) => item);
+    }, [currentUser, pendingUsersCount, pendingSuggestionsCount, borrowLogBadgeCount, pendingIncidentsCount, openPurchaseCount]);
 
   return (
     <div className={`h-screen bg-slate-800 flex flex-col border-r border-slate-700 fixed top-0 left-0 sidebar-print-hide transition-all duration-300 ${isCollapsed ? 'w-20 p-2' : 'w-64 p-4'}`}>
@@ -158,6 +206,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle }) => {
                 <p className="text-xs text-slate-400">{currentUser.role}</p>
             </div>
         )}
+        <NotificationCenter isCollapsed={isCollapsed} />
         <NavItem href="/profile" text="My Profile" icon={<IconUserCircle />} isCollapsed={isCollapsed}/>
         <button
             onClick={handleLogout}
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Item, StockAdjustmentType } from '../types';
+import { Modal } from './Modal';
+import { useInventory } from '../context/InventoryContext';
+import {
+    MANUAL_ADJUSTMENT_TYPES,
+    STOCK_ADJUSTMENT_TYPES,
+    formatQuantityChange,
+    getAdjustmentDirection,
+    getItemAdjustments,
+    getStockHistory,
+    validateStockAdjustment,
+} from '../services/stockService';
+import { getPlacedQuantity } from '../services/locationService';
+
+interface StockLedgerModalProps {
+    item: Item | null;
+    onClose: () => void;
+}
+
+const emptyForm = { type: StockAdjustmentType.PURCHASE, quantity: 1, removesStock: false, reason: '' };
+
+export const StockLedgerModal: React.FC<StockLedgerModalProps> = ({ item, onClose }) => {
+    const { state, adjustStock } = useInventory();
+    const [form, setForm] = useState(emptyForm);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (item) {
+            setForm(emptyForm);
+            setError('');
+        }
+    }, [item]);
+
+    // Follow the item in state so the totals update once an adjustment is saved
+    const currentItem = useMemo(() => item && (state.items.find(i => i.id === item.id) ?? item), [item, state.items]);
+
+    const adjustments = useMemo(
+        () => (item ? getItemAdjustments(item.id, state.stockAdjustments).reverse() : []),
+        [item, state.stockAdjustments]
+    );
+
+    const chartData = useMemo(
+        () => (item ? getStockHistory(item.id, state.stockAdjustments) : []).map(point => ({
+            date: new Date(point.timestamp).toLocaleDateString(),
+            Total: point.total,
+        })),
+        [item, state.stockAdjustments]
+    );
+
+    const userName = (userId: string) => state.userDirectory.find(u => u.id === userId)?.fullName || 'Unknown User';
+
+    const direction = getAdjustmentDirection(form.type);
+    const removesStock = direction === 'out' || (direction === 'either' && form.removesStock);
+    const quantityChange = removesStock ? -form.quantity : form.quantity;
+    // How much a decrease takes off the item's storage locations once its unplaced stock is used up
+    const placementTrim = currentItem ? Math.max(getPlacedQuantity(currentItem) - (currentItem.totalQuantity + quantityChange), 0) : 0;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!currentItem) return;
+        const validationError = validateStockAdjustment(currentItem, form.type, quantityChange, form.reason);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setError('');
+        setIsSaving(true);
+        try {
+            await adjustStock({ itemId: currentItem.id, type: form.type, quantityChange, reason: form.reason.trim() });
+            setForm(emptyForm);
+        } catch (err: any) {
+            setError(`Failed to adjust stock: ${err.message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!item} onClose={onClose} title={`Stock: ${item?.name ?? ''}`}>
+            {currentItem && (
+                <div className="space-y-5 max-h-[75vh] overflow-y-auto pr-1">
+                    <div className="flex gap-6 text-sm">
+                        <p className="text-slate-400">Total <strong className="block text-2xl text-white">{currentItem.totalQuantity}</strong></p>
+                        <p className="text-slate-400">On loan <strong className="block text-2xl text-white">{currentItem.totalQuantity - currentItem.availableQuantity}</strong></p>
+                        <p className="text-slate-400">Available <strong className="block text-2xl text-white">{currentItem.availableQuantity}</strong></p>
+                    </div>
+
+                    {chartData.length > 1 && (
+                        <div className="h-48">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+                                    <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} />
+                                    <YAxis stroke="#94a3b8" fontSize={12} allowDecimals={false} />
+                                    <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155' }} />
+                                    <Line type="stepAfter" dataKey="Total" stroke="#10b981" strokeWidth={2} dot={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+
+                    {currentItem.isSerialized ? (
+                        <p className="text-xs text-slate-400">Quantity follows the registered units. Add or retire units from the Units screen.</p>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-3 bg-slate-900/40 border border-slate-700 rounded-lg p-4">
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <select
+                                    value={form.type}
+                                    onChange={e => setForm({ ...form, type: e.target.value as StockAdjustmentType })}
+                                    aria-label="Adjustment type"
+                                    className="flex-1 bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+                                >
+                                    {MANUAL_ADJUSTMENT_TYPES.map(type => (
+                                        <option key={type} value={type}>{STOCK_ADJUSTMENT_TYPES[type].label}</option>
+                                    ))}
+                                </select>
+                                {direction === 'either' && (
+                                    <select
+                                        value={form.removesStock ? 'remove' : 'add'}
+                                        onChange={e => setForm({ ...form, removesStock: e.target.value === 'remove' })}
+                                        aria-label="Direction"
+                                        className="bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+                                    >
+                                        <option value="add">Add</option>
+                                        <option value="remove">Remove</option>
+                                    </select>
+                                )}
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={form.quantity}
+                                    onChange={e => setForm({ ...form, quantity: parseInt(e.target.value, 10) || 0 })}
+                                    aria-label="Quantity"
+                                    className="w-full sm:w-24 bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+                                    required
+                                />
+                            </div>
+                            <textarea
+                                value={form.reason}
+                                onChange={e => setForm({ ...form, reason: e.target.value })}
+                                placeholder="Reason, e.g. supplier invoice number or recount notes"
+                                rows={2}
+                                required
+                                className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+                            />
+                            {error && <p className="text-sm text-red-400">{error}</p>}
+                            {placementTrim > 0 && (
+                                <p className="text-xs text-amber-400">{placementTrim} will also come off the item's storage locations, starting with the last one listed.</p>
+                            )}
+                            <div className="flex items-center justify-between">
+                                <p className="text-xs text-slate-400">
+                                    New total: <strong className="text-slate-200">{currentItem.totalQuantity + quantityChange}</strong>
+                                </p>
+                                <button type="submit" disabled={isSaving} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed">
+                                    Record {formatQuantityChange(quantityChange)}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    <div>
+                        <h3 className="text-sm font-semibold text-slate-300 mb-2">History</h3>
+                        {adjustments.length === 0 ? (
+                            <p className="text-sm text-slate-400">No stock adjustments recorded.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {adjustments.map(adjustment => (
+                                    <li key={adjustment.id} className="flex items-start justify-between gap-3 text-sm bg-slate-700/50 border border-slate-600 rounded-lg p-3">
+                                        <div className="min-w-0">
+                                            <p className="text-white">
+                                                {STOCK_ADJUSTMENT_TYPES[adjustment.type]?.label ?? adjustment.type}
+                                                <span className="text-slate-400"> · {adjustment.reason}</span>
+                                            </p>
+                                            <p className="text-xs text-slate-400">{userName(adjustment.createdBy)} · {new Date(adjustment.timestamp).toLocaleString()}</p>
+                                        </div>
+                                        <span className={`font-mono ${adjustment.quantityChange < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                            {formatQuantityChange(adjustment.quantityChange)}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { User } from '../types';
 import { useInventory } from '../context/InventoryContext';
+import { withoutArchived } from '../services/archiveService';
 
 interface UserSearchInputProps {
     selectedUserId: string;
@@ -27,7 +28,7 @@ export const UserSearchInput: React.FC<UserSearchInputProps> = ({ selectedUserId
     const filteredUsers = useMemo(() => {
         if (!searchTerm.trim()) return [];
         const lowercasedFilter = searchTerm.toLowerCase();
-        return state.users.filter(user =>
+        return withoutArchived(state.users).filter(user =>
             user.fullName.toLowerCase().includes(lowercasedFilter) ||
             user.username.toLowerCase().includes(lowercasedFilter) ||
             (user.lrn && user.lrn.includes(lowercasedFilter))
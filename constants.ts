@@ -6,3 +6,37 @@ export const GRADE_LEVELS = {
 
 // Standardized item categories
 export const ITEM_CATEGORIES = ['Physics', 'Biology', 'Chemistry', 'Mathematics', 'Others'];
+
+// Chemicals show as expiring soon this many days before their expiry date
+export const EXPIRY_WARNING_DAYS = 30;
+
+// Default loan period (in days) for each item category, applied when a borrow request is approved
+export const DEFAULT_LOAN_PERIOD_DAYS: Record<string, number> = {
+    'Physics': 7,
+    'Biology': 3,
+    'Chemistry': 1,
+    'Mathematics': 14,
+    'Others': 7,
+};
+
+// Used for items whose category has no configured loan period
+export const FALLBACK_LOAN_PERIOD_DAYS = 7;
+
+// When loan reminders go out, in days relative to the due date: negative is before it, 0 is the
+// due date itself. Override with REMINDER_OFFSETS_DAYS, e.g. "-1,0,1,3".
+export const DEFAULT_REMINDER_OFFSETS_DAYS = [-1, 0, 1, 3];
+
+// Days overdue after which a loan is escalated to the admins and the borrower's section adviser.
+// Override with ESCALATION_AFTER_DAYS.
+export const DEFAULT_ESCALATION_AFTER_DAYS = 7;
+
+// Minimum length for new passwords, enforced at sign-up, change and reset
+export const MIN_PASSWORD_LENGTH = 6;
+
+// How long an emailed password reset link stays valid
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 30;
+
+// Forgot-password requests allowed per identifier and per client address within the window
+export const PASSWORD_RESET_LIMIT_PER_IDENTIFIER = 3;
+export const PASSWORD_RESET_LIMIT_PER_ADDRESS = 20;
+export const PASSWORD_RESET_LIMIT_WINDOW_MINUTES = 15;
@@ -1,53 +1,93 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { User, UserStatus } from '../types';
+import { NotificationPreferences, User, UserStatus } from '../types';
 import { useInventory } from './InventoryContext';
-import api from '../services/apiService';
-
-export type SecureUser = Omit<User, 'password'>;
+import api, { NetworkError } from '../services/apiService';
+import { loadSession, saveSession, clearSession, subscribeToSession } from '../services/sessionService';
+import { loadCachedUser, saveCachedUser } from '../services/offlineService';
 
 interface AuthContextType {
-  currentUser: SecureUser | null;
+  currentUser: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (identifier: string, password: string) => Promise<boolean>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  updateNotificationPreferences: (preferences: NotificationPreferences) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const SESSION_STORAGE_KEY = 'oliLabSessionUser';
+// Refresh the access token this long before it expires so requests never race the expiry.
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [currentUser, setCurrentUser] = useState<SecureUser | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const { state: inventoryState, isLoading: isInventoryLoading } = useInventory();
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<string | null>(null);
+  const { state: inventoryState, isLoading: isInventoryLoading, updateNotificationPreferences: saveNotificationPreferences } = useInventory();
 
-  // Effect 1: Runs once on client mount to get user from session storage immediately.
-  // This makes the initial auth check independent of the main data loading.
+  // Effect 1: Runs once on client mount. A stored token is only a claim; the server
+  // decides who it belongs to and whether that account may still sign in.
   useEffect(() => {
-    try {
-        const serializedUser = sessionStorage.getItem(SESSION_STORAGE_KEY);
-        if (serializedUser) {
-            const user = JSON.parse(serializedUser) as SecureUser;
-            // A basic check to ensure the user object from session is valid.
-            // A more thorough validation against fresh data happens in the second effect.
-            if (user && user.status === UserStatus.APPROVED) {
-                 setCurrentUser(user);
-            } else {
-                 // Clear invalid session data
-                 sessionStorage.removeItem(SESSION_STORAGE_KEY);
-            }
-        }
-    } catch (error) {
-        console.error("Failed to load user from session storage:", error);
-        sessionStorage.removeItem(SESSION_STORAGE_KEY);
-    } finally {
-        // The initial, synchronous check is done. The UI can now proceed.
+    const tokens = loadSession();
+    if (!tokens) {
         setIsLoading(false);
+        return;
     }
+    setSessionExpiresAt(tokens.expiresAt);
+    api.getCurrentUser()
+        .then(user => {
+            if (user.status === UserStatus.APPROVED) {
+                setCurrentUser(user);
+            } else {
+                clearSession();
+            }
+        })
+        .catch(error => {
+            console.error("Failed to verify session:", error);
+            // Offline: keep working as the user the server last confirmed.
+            const cachedUser = error instanceof NetworkError ? loadCachedUser() : null;
+            if (cachedUser) {
+                setCurrentUser(cachedUser);
+            } else {
+                clearSession();
+            }
+        })
+        .finally(() => setIsLoading(false));
   }, []); // Empty dependency array ensures this runs only once on the client.
 
-  // Effect 2: Syncs session with fresh user data from the server when it arrives.
+  // Track refreshed tokens, and sign out everywhere as soon as the session ends
+  // (expired refresh token, logout, or a rejected refresh).
+  useEffect(() => {
+    return subscribeToSession(tokens => {
+        setSessionExpiresAt(tokens?.expiresAt ?? null);
+        if (!tokens) {
+            setCurrentUser(null);
+        }
+    });
+  }, []);
+
+  // Effect 2: Proactively refreshes the access token shortly before it expires.
+  useEffect(() => {
+    if (!currentUser || !sessionExpiresAt) return;
+    const delay = Math.max(new Date(sessionExpiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+        const tokens = loadSession();
+        if (!tokens) return;
+        api.refreshSession(tokens.refreshToken).catch(error => {
+            console.error("Failed to refresh session:", error);
+            // Offline, the next request retries the refresh once it can reach the server.
+            if (!(error instanceof NetworkError)) clearSession();
+        });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [currentUser, sessionExpiresAt]);
+
+  useEffect(() => {
+    if (currentUser) saveCachedUser(currentUser);
+  }, [currentUser]);
+
+  // Effect 3: Syncs session with fresh user data from the server when it arrives.
   // This handles cases like an admin disabling an account while the user is logged in.
   useEffect(() => {
       // Only run this check if the initial data has loaded and we have a logged-in user.
@@ -58,29 +98,40 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
               logout();
           } else {
               // User data might have been updated by an admin, so we refresh it in the session.
-              const { password, ...secureUser } = freshUser;
-              setCurrentUser(secureUser);
-              sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(secureUser));
+              if (JSON.stringify(freshUser) !== JSON.stringify(currentUser)) {
+                  setCurrentUser(freshUser);
+              }
           }
       }
   }, [inventoryState.users, isInventoryLoading, currentUser]);
 
 
   const login = async (identifier: string, password: string): Promise<boolean> => {
-    try {
-        const user = await api.login({ identifier, password });
-        setCurrentUser(user);
-        // Store the entire secure user object in the session
-        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(user));
-        return true;
-    } catch (error) {
-        throw error;
-    }
+    const { user, tokens } = await api.login({ identifier, password });
+    saveSession(tokens);
+    setCurrentUser(user);
+    return true;
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const tokens = await api.changePassword({ currentPassword, newPassword });
+    saveSession(tokens);
+  };
+
+  // Members have no users list to pick up the change from, so the session is updated directly
+  const updateNotificationPreferences = async (preferences: NotificationPreferences) => {
+    if (!currentUser) return;
+    setCurrentUser(await saveNotificationPreferences(currentUser.id, preferences));
   };
 
   const logout = () => {
+    const tokens = loadSession();
     setCurrentUser(null);
-    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    clearSession();
+    // Revoke the refresh token so a copied session cannot be revived.
+    if (tokens) {
+        api.logout(tokens.refreshToken).catch(error => console.error("Failed to revoke session:", error));
+    }
   };
   
   const value = {
@@ -88,7 +139,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       isAuthenticated: !!currentUser,
       isLoading,
       login,
-      logout
+      logout,
+      changePassword,
+      updateNotificationPreferences,
   }
 
   return (
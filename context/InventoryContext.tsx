@@ -1,60 +1,192 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { Item, User, LogEntry, Notification, Suggestion, Comment, LogStatus, UserStatus, SuggestionType, State } from '../types';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo, useRef } from 'react';
+import { AssetUnitStatus, BorrowingPolicy, ChangeEvent, Item, ItemLocation, StorageLocation, Stocktake, PurchaseRequest, CategoryBudget, User, NewUserRegistration, NotificationPreferences, UserSummary, LogEntry, Notification, Suggestion, Comment, Reservation, ReturnedQuantity, StockAdjustmentType, AssetUnit, ItemCondition, Incident, IncidentStatus, LogStatus, UserStatus, SuggestionType, State } from '../types';
 import { IconLoader } from '../components/icons';
-import api from '../services/apiService';
-import { sendNewUserAdminNotification, sendAccountApprovedNotification, sendAccountDeniedNotification } from '../services/emailService';
+import api, { NetworkError } from '../services/apiService';
+import { requestEmail, requestNewRegistrationEmail } from '../services/emailRequestService';
 import { ConnectionError } from '../components/ConnectionError';
+import { calculateDueDate } from '../services/loanService';
+import { isConsumable } from '../services/consumableService';
+import { findReservationConflict } from '../services/reservationService';
+import { getUnresolvedIncidents } from '../services/incidentService';
+import { useToast } from './ToastContext';
+import { getSessionUserId, loadSession, subscribeToSession } from '../services/sessionService';
+import { applyChangeEvent, connectToChangeStream, ConnectionStatus } from '../services/realtimeService';
+import { clearCachedState, createIdempotencyKey, enqueueMutation, findOutboxConflict, loadCachedState, loadOutbox, OutboxEntry, QueuedMutation, removeOutboxEntry, saveCachedState, subscribeToOutbox, updateOutboxEntry, withOutboxLock } from '../services/offlineService';
 
-type SyncStatus = 'synced' | 'syncing' | 'error';
+// 'offline' means the last request could not reach the server; queued actions are waiting in the outbox.
+type SyncStatus = 'synced' | 'syncing' | 'error' | 'offline';
+
+// The condition a specific serialized unit was returned in
+type UnitCondition = { assetUnitId: string; condition: ItemCondition };
 
 interface InventoryContextType {
   state: State;
   isLoading: boolean;
   syncStatus: SyncStatus;
   lastSynced: Date | null;
+  connectionStatus: ConnectionStatus;
+  outbox: OutboxEntry[];
+  borrowingPolicy: BorrowingPolicy;
+  updateBorrowingPolicy: (policy: BorrowingPolicy) => Promise<void>;
+  retryOutboxEntry: (entryId: string) => Promise<void>;
+  discardOutboxEntry: (entryId: string) => void;
   addItem: (itemData: Omit<Item, 'id' | 'availableQuantity'>) => Promise<void>;
   editItem: (itemData: Item) => Promise<void>;
-  deleteItem: (itemId: string) => Promise<void>;
+  uploadSafetyDataSheet: (itemId: string, file: File) => Promise<Item>;
+  setItemLocations: (itemId: string, locations: ItemLocation[]) => Promise<void>;
+  addLocation: (locationData: Omit<StorageLocation, 'id'>) => Promise<void>;
+  editLocation: (location: StorageLocation) => Promise<void>;
+  deleteLocation: (locationId: string) => Promise<void>;
+  completeStocktake: (stocktakeId: string, postItemIds: string[]) => Promise<Stocktake>;
+  adjustStock: (payload: { itemId: string; type: StockAdjustmentType; quantityChange: number; reason: string }) => Promise<void>;
+  archiveItem: (itemId: string) => Promise<void>;
+  restoreItem: (itemId: string) => Promise<void>;
+  addAssetUnit: (unitData: Omit<AssetUnit, 'id' | 'status'>) => Promise<void>;
+  updateAssetUnit: (unit: AssetUnit) => Promise<void>;
   requestBorrowItem: (payload: { userId: string; itemId: string; quantity: number }) => Promise<void>;
-  approveBorrowRequest: (logId: string) => Promise<void>;
-  denyBorrowRequest: (payload: { logId: string; reason: string }) => Promise<void>;
-  returnItem: (payload: { borrowLog: LogEntry; adminNotes: string }) => Promise<void>;
+  requestBorrowBatch: (payload: { userId: string; lines: { itemId: string; quantity: number }[] }) => Promise<void>;
+  // These four resolve to false when the server refused; the change is rolled back and a toast says why
+  approveBorrowRequest: (logId: string, assetUnitIds?: string[]) => Promise<boolean>;
+  denyBorrowRequest: (payload: { logId: string; reason: string }) => Promise<boolean>;
+  approveBorrowBatch: (requestId: string) => Promise<boolean>;
+  denyBorrowBatch: (payload: { requestId: string; reason: string }) => Promise<boolean>;
+  returnItem: (payload: { borrowLog: LogEntry; conditions: ReturnedQuantity[]; unitConditions?: UnitCondition[]; adminNotes: string }) => Promise<void>;
+  returnItems: (payload: { lines: { borrowLog: LogEntry; conditions: ReturnedQuantity[]; unitConditions?: UnitCondition[] }[]; adminNotes: string }) => Promise<void>;
   requestItemReturn: (log: LogEntry) => Promise<void>;
-  createUser: (userData: Omit<User, 'id' | 'status'>) => Promise<string>;
+  createReservation: (payload: { userId: string; itemId: string; quantity: number; startTime: string; endTime: string; purpose?: string }) => Promise<void>;
+  cancelReservation: (reservationId: string) => Promise<void>;
+  fulfillReservation: (reservation: Reservation) => Promise<void>;
+  reportIncident: (incidentData: Omit<Incident, 'id' | 'status' | 'timestamp' | 'resolvedAt' | 'resolutionNotes' | 'reportedBy'>) => Promise<void>;
+  resolveIncident: (payload: { incidentId: string; status: IncidentStatus.PAID | IncidentStatus.WAIVED; resolutionNotes: string }) => Promise<void>;
+  createUser: (userData: NewUserRegistration) => Promise<string>;
   editUser: (userData: User) => Promise<void>;
-  deleteUser: (userId: string) => Promise<void>;
+  updateNotificationPreferences: (userId: string, preferences: NotificationPreferences) => Promise<User>;
+  archiveUser: (userId: string) => Promise<void>;
+  restoreUser: (userId: string) => Promise<void>;
   approveUser: (userId: string) => Promise<void>;
   denyUser: (userId: string) => Promise<void>;
   markNotificationsAsRead: (notificationIds: string[]) => Promise<void>;
+  markNotificationsAsUnread: (notificationIds: string[]) => Promise<void>;
+  markAllNotificationsAsRead: () => Promise<void>;
   addSuggestion: (suggestionData: Omit<Suggestion, 'id' | 'status' | 'timestamp' | 'category'>) => Promise<void>;
-  approveItemSuggestion: (payload: { suggestionId: string; category: string; totalQuantity: number }) => Promise<void>;
+  approveItemSuggestion: (payload: { suggestionId: string; category: string; quantity: number; vendor: string; estimatedUnitCost: number }) => Promise<void>;
   approveFeatureSuggestion: (suggestionId: string) => Promise<void>;
-  denySuggestion: (payload: { suggestionId: string; reason: string; adminId: string }) => Promise<void>;
+  denySuggestion: (payload: { suggestionId: string; reason: string }) => Promise<void>;
   importItems: (items: Omit<Item, 'id' | 'availableQuantity'>[]) => Promise<void>;
-  addComment: (payload: { suggestionId: string; userId: string; text: string }) => Promise<void>;
+  addComment: (payload: { suggestionId: string; text: string }) => Promise<void>;
+  editPurchaseRequest: (purchaseRequest: PurchaseRequest) => Promise<void>;
+  orderPurchaseRequest: (purchaseRequestId: string, orderReference: string) => Promise<void>;
+  receivePurchaseRequest: (purchaseRequestId: string, quantity: number) => Promise<void>;
+  cancelPurchaseRequest: (purchaseRequestId: string) => Promise<void>;
+  setCategoryBudget: (budget: Omit<CategoryBudget, 'id'>) => Promise<void>;
 }
 
 const InventoryContext = createContext<InventoryContextType | undefined>(undefined);
 
-const initialEmptyState: State = { items: [], users: [], logs: [], notifications: [], suggestions: [], comments: [] };
+const defaultBorrowingPolicy: BorrowingPolicy = { blockBorrowingWithUnresolvedIncidents: false };
+
+const initialEmptyState: State = { items: [], users: [], userDirectory: [], logs: [], notifications: [], suggestions: [], comments: [], reservations: [], stockAdjustments: [], assetUnits: [], incidents: [], locations: [], purchaseRequests: [], budgets: [] };
+
+// Replaces every entry that appears in the update list, leaving the rest untouched.
+const mergeById = <T extends { id: string }>(current: T[], updates: T[]): T[] =>
+  current.map(entry => updates.find(u => u.id === entry.id) ?? entry);
+
+const toUserSummary = ({ id, fullName, role, isAdmin, archivedAt }: User): UserSummary => ({ id, fullName, role, isAdmin, archivedAt });
+
+// A change shown before the server confirms it. Patches are re-applied on top of every
+// confirmed state, so they must leave records the server has already updated alone.
+interface OptimisticPatch {
+  id: number;
+  apply: (state: State) => State;
+}
+
+// Marks pending borrow requests as on loan and takes their quantity out of stock.
+// Consumables are issued and leave stock for good; everything else goes out on loan until its due date.
+// assetUnitIds names the units handed out on a serialized log, keyed by log id
+const approvePendingLogs = (state: State, logIds: string[], dueDates: Record<string, string>, assetUnitIds: Record<string, string[]> = {}): State => {
+  const approving = state.logs.filter(l => logIds.includes(l.id) && l.status === LogStatus.PENDING);
+  if (approving.length === 0) return state;
+  const consumableIds = new Set(state.items.filter(isConsumable).map(i => i.id));
+  const handedOut = new Set(approving.flatMap(l => assetUnitIds[l.id] ?? []));
+  return {
+    ...state,
+    logs: state.logs.map(l => {
+        if (!approving.includes(l)) return l;
+        return consumableIds.has(l.itemId)
+            ? { ...l, status: LogStatus.ISSUED }
+            : { ...l, status: LogStatus.APPROVED, dueDate: dueDates[l.id], ...(assetUnitIds[l.id] && { assetUnitIds: assetUnitIds[l.id] }) };
+    }),
+    assetUnits: state.assetUnits.map(u => handedOut.has(u.id) ? { ...u, status: AssetUnitStatus.ON_LOAN } : u),
+    items: state.items.map(i => {
+        const taken = approving.filter(l => l.itemId === i.id).reduce((sum, l) => sum + l.quantity, 0);
+        if (taken === 0) return i;
+        return {
+            ...i,
+            availableQuantity: Math.max(i.availableQuantity - taken, 0),
+            ...(consumableIds.has(i.id) && { totalQuantity: Math.max(i.totalQuantity - taken, 0) }),
+        };
+    }),
+  };
+};
+
+const setNotificationsRead = (state: State, isTarget: (notification: Notification) => boolean, read: boolean): State => ({
+  ...state,
+  notifications: state.notifications.map(n => isTarget(n) && n.read !== read ? { ...n, read } : n),
+});
+
+const denyPendingLogs = (state: State, logIds: (log: LogEntry) => boolean, reason: string): State => ({
+  ...state,
+  logs: state.logs.map(l => logIds(l) && l.status === LogStatus.PENDING ? { ...l, status: LogStatus.DENIED, adminNotes: reason } : l),
+});
 
 export const InventoryProvider = ({ children }: { children: ReactNode }) => {
+  // The state as last confirmed by the server. Consumers see it with pending optimistic patches applied.
   const [state, setState] = useState<State>(initialEmptyState);
+  const [optimisticPatches, setOptimisticPatches] = useState<OptimisticPatch[]>([]);
+  const nextPatchIdRef = useRef(0);
+  const { showToast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
   const [lastSynced, setLastSynced] = useState<Date | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('offline');
+  const [hasSession, setHasSession] = useState(() => !!loadSession());
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [borrowingPolicy, setBorrowingPolicy] = useState<BorrowingPolicy>(defaultBorrowingPolicy);
+  // Where the change stream picks up once the data is loaded. seq is null when the data did not come
+  // from the server, so the stream fetches a fresh snapshot as soon as it connects.
+  const [streamFrom, setStreamFrom] = useState<{ seq: number | null } | null>(null);
 
-  const loadData = useCallback(async () => {
-      setIsLoading(true);
+  // Lab data is only served to signed-in users, so there is nothing to load without a session.
+  const loadData = useCallback(async (showLoader = true) => {
+      setStreamFrom(null);
+      if (!loadSession()) {
+          setState(initialEmptyState);
+          setIsLoading(false);
+          return;
+      }
+      if (showLoader) setIsLoading(true);
       setConnectionError(null);
       try {
-          const initialState = await api.getInitialData();
-          setState(initialState);
+          const { state: initialState, seq } = await api.getInitialData();
+          // Fill in collections an older backend may not return yet.
+          setState({ ...initialEmptyState, ...initialState });
           setLastSynced(new Date());
           setSyncStatus('synced');
+          setStreamFrom({ seq });
       } catch (error: any) {
           console.error("Failed to load initial state:", error);
+          // An expired session ends in a sign-out, not a connection problem.
+          if (!loadSession()) return;
+          setStreamFrom({ seq: null });
+          // Offline: carry on with what this tab last saw until the connection is back.
+          const cached = error instanceof NetworkError ? loadCachedState() : null;
+          if (cached) {
+              setState({ ...initialEmptyState, ...cached.state });
+              setLastSynced(cached.savedAt);
+              setSyncStatus('offline');
+              return;
+          }
           setConnectionError(error.message || 'An unknown error occurred.');
           setSyncStatus('error');
       } finally {
@@ -65,21 +197,266 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     loadData();
   }, [loadData]);
+
+  useEffect(() => {
+    if (!hasSession) {
+        setBorrowingPolicy(defaultBorrowingPolicy);
+        return;
+    }
+    api.getBorrowingPolicy()
+        .then(setBorrowingPolicy)
+        .catch(error => console.error('Failed to load the borrowing policy:', error));
+  }, [hasSession]);
+
+  // Reload in the background when the user signs in or out. Token refreshes keep the data as is.
+  const hasSessionRef = useRef(!!loadSession());
+  useEffect(() => {
+    return subscribeToSession(tokens => {
+        if (!!tokens !== hasSessionRef.current) {
+            hasSessionRef.current = !!tokens;
+            setHasSession(!!tokens);
+            if (!tokens) clearCachedState();
+            loadData(false);
+        }
+    });
+  }, [loadData]);
+
+  // Changes that arrive while a resync is fetching are held back and applied on top of the snapshot.
+  // A resync requested while one is fetching runs again afterwards, as the snapshot may predate the gap.
+  const pendingChangesRef = useRef<ChangeEvent[] | null>(null);
+  const resyncAgainRef = useRef(false);
+  // Replaying the outbox checks for conflicts against the latest state, not the last render's.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const replayOutboxRef = useRef<() => Promise<void>>(async () => {});
+
+  const resync = useCallback(async () => {
+      if (pendingChangesRef.current) {
+          resyncAgainRef.current = true;
+          return;
+      }
+      do {
+          resyncAgainRef.current = false;
+          pendingChangesRef.current = [];
+          try {
+              const { state: snapshot } = await api.getInitialData();
+              const missed = pendingChangesRef.current ?? [];
+              const nextState = missed.reduce(applyChangeEvent, { ...initialEmptyState, ...snapshot });
+              stateRef.current = nextState;
+              setState(nextState);
+              setConnectionError(null);
+              setLastSynced(new Date());
+          } catch (error) {
+              console.error("Failed to resync:", error);
+          } finally {
+              pendingChangesRef.current = null;
+          }
+      } while (resyncAgainRef.current);
+      replayOutboxRef.current();
+  }, []);
+
+  // Stream changes made by other users and other tabs into state for as long as there is a session,
+  // starting after the loaded data so it is not downloaded a second time.
+  useEffect(() => {
+    if (!hasSession || !streamFrom) return;
+    return connectToChangeStream({
+        onChange: (event) => {
+            if (pendingChangesRef.current) {
+                pendingChangesRef.current.push(event);
+            } else {
+                setState(prev => applyChangeEvent(prev, event));
+                setLastSynced(new Date());
+            }
+        },
+        onResync: resync,
+        onStatusChange: setConnectionStatus,
+    }, streamFrom.seq);
+  }, [hasSession, streamFrom, resync]);
+
+  // Resumed connections skip the resync, so replay from here too. A replay started
+  // while a resync is fetching is skipped; the resync replays when it is done.
+  useEffect(() => {
+    if (connectionStatus === 'live') replayOutboxRef.current();
+  }, [connectionStatus]);
+
+  // Cache what this tab last saw so a reload while offline still has data to show.
+  useEffect(() => {
+    if (!hasSession || isLoading) return;
+    const timer = setTimeout(() => saveCachedState(state), 1000);
+    return () => clearTimeout(timer);
+  }, [state, hasSession, isLoading]);
+
+  // Other tabs of the same user share the outbox through localStorage.
+  useEffect(() => {
+    const refresh = () => setOutbox(loadOutbox(getSessionUserId()));
+    refresh();
+    const unsubscribe = subscribeToOutbox(refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+        unsubscribe();
+        window.removeEventListener('storage', refresh);
+    };
+  }, [hasSession]);
   
-  const handleApiCall = async <T,>(apiCall: () => Promise<T>, updateState: (result: T) => void) => {
+  const visibleState = useMemo(
+    () => optimisticPatches.reduce((current, patch) => patch.apply(current), state),
+    [state, optimisticPatches]
+  );
+
+  /**
+   * Runs an API call and applies its result to state. With `optimistic`, the expected
+   * change is shown straight away; if the call fails it is rolled back and the failure is
+   * reported in a toast instead of being thrown, as the user has already moved on.
+   * Resolves to whether the call succeeded, so a form can stay open when it did not.
+   */
+  const handleApiCall = async <T,>(
+    apiCall: () => Promise<T>,
+    updateState: (result: T) => void,
+    options: { optimistic?: (prev: State) => State; failureMessage?: string } = {}
+  ): Promise<boolean> => {
+    const patch = options.optimistic ? { id: nextPatchIdRef.current++, apply: options.optimistic } : null;
+    if (patch) {
+        setOptimisticPatches(prev => [...prev, patch]);
+    }
+    const removePatch = () => {
+        if (patch) setOptimisticPatches(prev => prev.filter(p => p.id !== patch.id));
+    };
+
     setSyncStatus('syncing');
     try {
         const result = await apiCall();
         updateState(result);
+        removePatch();
         setSyncStatus('synced');
         setLastSynced(new Date());
-    } catch (error) {
+        return true;
+    } catch (error: any) {
         console.error("API call failed:", error);
-        setSyncStatus('error');
-        throw error;
+        removePatch();
+        setSyncStatus(error instanceof NetworkError ? 'offline' : 'error');
+        if (!patch) throw error;
+        showToast(`${options.failureMessage ?? 'Your change could not be saved'}: ${error.message}`, 'error');
+        return false;
+    }
+  };
+
+  // The actions that can wait for the connection to come back. They run straight away
+  // when online, or later from the outbox.
+  const runMutation = async (mutation: QueuedMutation, idempotencyKey: string): Promise<boolean> => {
+    switch (mutation.type) {
+        case 'requestBorrowItem':
+            return handleApiCall(
+                () => api.requestBorrowItem(mutation.payload, idempotencyKey),
+                ({ newLog }) => {
+                    setState(prev => ({ ...prev, logs: [newLog, ...prev.logs] }));
+                }
+            );
+        case 'requestBorrowBatch':
+            return handleApiCall(
+                () => api.requestBorrowBatch(mutation.payload, idempotencyKey),
+                ({ newLogs }) => {
+                    setState(prev => ({ ...prev, logs: [...newLogs, ...prev.logs] }));
+                }
+            );
+        case 'returnItem':
+            return handleApiCall(
+                () => api.returnItem(mutation.payload, idempotencyKey),
+                ({ returnLog, updatedBorrowLog, updatedItem, newAdjustments, updatedUnits }) => {
+                    setState(prev => ({
+                        ...prev,
+                        logs: [returnLog, ...prev.logs.map(l => l.id === updatedBorrowLog.id ? updatedBorrowLog : l)],
+                        items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+                        stockAdjustments: [...newAdjustments, ...prev.stockAdjustments],
+                        assetUnits: mergeById(prev.assetUnits, updatedUnits ?? []),
+                    }));
+                }
+            );
+        case 'returnItems':
+            return handleApiCall(
+                () => api.returnItems(mutation.payload, idempotencyKey),
+                ({ returnLogs, updatedBorrowLogs, updatedItems, newAdjustments, updatedUnits }) => {
+                    setState(prev => ({
+                        ...prev,
+                        logs: [...returnLogs, ...mergeById(prev.logs, updatedBorrowLogs)],
+                        items: mergeById(prev.items, updatedItems),
+                        stockAdjustments: [...newAdjustments, ...prev.stockAdjustments],
+                        assetUnits: mergeById(prev.assetUnits, updatedUnits ?? []),
+                    }));
+                }
+            );
+        case 'requestItemReturn':
+            return handleApiCall(
+                () => api.requestItemReturn(mutation.payload.logId, idempotencyKey),
+                ({ updatedLog }) => {
+                    setState(prev => ({ ...prev, logs: prev.logs.map(l => l.id === updatedLog.id ? updatedLog : l) }));
+                }
+            );
+        case 'addComment':
+            return handleApiCall(
+                () => api.addComment(mutation.payload, idempotencyKey),
+                (newComment) => setState(prev => ({ ...prev, comments: [newComment, ...prev.comments] }))
+            );
     }
   };
 
+  // Queued behind any earlier entries so actions reach the server in the order they were made.
+  const runOrQueue = async (mutation: QueuedMutation, description: string) => {
+    const ownerId = getSessionUserId();
+    if (ownerId && (!navigator.onLine || loadOutbox(ownerId).some(entry => !entry.conflict))) {
+        enqueueMutation(ownerId, mutation, description);
+        if (navigator.onLine) {
+            replayOutboxRef.current();
+        } else {
+            setSyncStatus('offline');
+        }
+        return;
+    }
+    const idempotencyKey = createIdempotencyKey();
+    try {
+        await runMutation(mutation, idempotencyKey);
+    } catch (error) {
+        if (!ownerId || !(error instanceof NetworkError)) throw error;
+        enqueueMutation(ownerId, mutation, description, idempotencyKey);
+    }
+  };
+
+  // Replays queued actions oldest first and stops at the first network failure. Anything the
+  // fresh state or the server rules out is held back as a conflict for the user to resolve.
+  const replayOutbox = async () => {
+    const ownerId = getSessionUserId();
+    if (!ownerId || pendingChangesRef.current) return;
+    await withOutboxLock(async () => {
+        for (const entry of loadOutbox(ownerId)) {
+            if (entry.conflict) continue;
+            const conflict = entry.force ? null : findOutboxConflict(entry.mutation, stateRef.current);
+            if (conflict) {
+                updateOutboxEntry(entry.id, { conflict });
+                continue;
+            }
+            try {
+                await runMutation(entry.mutation, entry.idempotencyKey);
+                removeOutboxEntry(entry.id);
+            } catch (error: any) {
+                if (error instanceof NetworkError) break;
+                updateOutboxEntry(entry.id, { conflict: error.message || 'The server rejected this change.', force: false });
+            }
+        }
+    });
+  };
+  replayOutboxRef.current = replayOutbox;
+
+  // Sends a conflicting entry as it is and lets the server decide.
+  const retryOutboxEntry: InventoryContextType['retryOutboxEntry'] = async (entryId) => {
+    updateOutboxEntry(entryId, { conflict: undefined, force: true });
+    await replayOutbox();
+  };
+
+  const discardOutboxEntry: InventoryContextType['discardOutboxEntry'] = (entryId) => {
+    removeOutboxEntry(entryId);
+  };
+
+  const itemNameFor = (itemId: string) => state.items.find(i => i.id === itemId)?.name ?? 'Unknown Item';
+
   const addItem: InventoryContextType['addItem'] = async (itemData) => {
     await handleApiCall(
         () => api.addItem(itemData),
@@ -94,30 +471,112 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
     );
   };
 
-  const deleteItem: InventoryContextType['deleteItem'] = async (itemId) => {
+  const adjustStock: InventoryContextType['adjustStock'] = async (payload) => {
+    await handleApiCall(
+        () => api.adjustStock(payload),
+        ({ newAdjustment, updatedItem }) => setState(prev => ({
+            ...prev,
+            stockAdjustments: [newAdjustment, ...prev.stockAdjustments],
+            items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+        }))
+    );
+  };
+
+  const replaceItem = (updatedItem: Item) =>
+      setState(prev => ({ ...prev, items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i) }));
+
+  const uploadSafetyDataSheet: InventoryContextType['uploadSafetyDataSheet'] = async (itemId, file) => {
+      let updatedItem: Item | null = null;
+      await handleApiCall(
+          () => api.uploadSafetyDataSheet(itemId, file),
+          (item) => {
+              updatedItem = item;
+              replaceItem(item);
+          }
+      );
+      return updatedItem!;
+  };
+
+  const setItemLocations: InventoryContextType['setItemLocations'] = async (itemId, locations) => {
+      await handleApiCall(() => api.setItemLocations(itemId, locations), replaceItem);
+  };
+
+  const addLocation: InventoryContextType['addLocation'] = async (locationData) => {
+      await handleApiCall(
+          () => api.addLocation(locationData),
+          (newLocation) => setState(prev => ({ ...prev, locations: [...prev.locations, newLocation] }))
+      );
+  };
+
+  const editLocation: InventoryContextType['editLocation'] = async (location) => {
+      await handleApiCall(
+          () => api.editLocation(location),
+          (updatedLocation) => setState(prev => ({ ...prev, locations: prev.locations.map(l => l.id === updatedLocation.id ? updatedLocation : l) }))
+      );
+  };
+
+  const deleteLocation: InventoryContextType['deleteLocation'] = async (locationId) => {
+      await handleApiCall(
+          () => api.deleteLocation(locationId),
+          () => setState(prev => ({ ...prev, locations: prev.locations.filter(l => l.id !== locationId) }))
+      );
+  };
+
+  // Stocktakes themselves are not part of State; only the adjustments they post are
+  const completeStocktake: InventoryContextType['completeStocktake'] = async (stocktakeId, postItemIds) => {
+      let completed: Stocktake | null = null;
       await handleApiCall(
-          () => api.deleteItem(itemId),
-          // FIX: The API returns an object {id: string}, so access the .id property for comparison.
-          (deletedItemId) => setState(prev => ({ ...prev, items: prev.items.filter(i => i.id !== deletedItemId.id) }))
+          () => api.completeStocktake(stocktakeId, postItemIds),
+          ({ stocktake, newAdjustments, updatedItems }) => {
+              completed = stocktake;
+              setState(prev => ({
+                  ...prev,
+                  items: mergeById(prev.items, updatedItems),
+                  stockAdjustments: [...newAdjustments, ...prev.stockAdjustments],
+              }));
+          }
       );
+      return completed!;
+  };
+
+  const archiveItem: InventoryContextType['archiveItem'] = async (itemId) => {
+      await handleApiCall(() => api.archiveItem(itemId), replaceItem);
+  };
+
+  const restoreItem: InventoryContextType['restoreItem'] = async (itemId) => {
+      await handleApiCall(() => api.restoreItem(itemId), replaceItem);
   };
   
+  const addAssetUnit: InventoryContextType['addAssetUnit'] = async (unitData) => {
+    await handleApiCall(
+        () => api.addAssetUnit(unitData),
+        ({ newUnit, updatedItem }) => setState(prev => ({
+            ...prev,
+            assetUnits: [...prev.assetUnits, newUnit],
+            items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+        }))
+    );
+  };
+
+  const updateAssetUnit: InventoryContextType['updateAssetUnit'] = async (unit) => {
+    await handleApiCall(
+        () => api.updateAssetUnit(unit),
+        ({ updatedUnit, updatedItem }) => setState(prev => ({
+            ...prev,
+            assetUnits: prev.assetUnits.map(u => u.id === updatedUnit.id ? updatedUnit : u),
+            items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+        }))
+    );
+  };
+
   const createUser: InventoryContextType['createUser'] = async (userData) => {
     let newUserId = '';
     await handleApiCall(
         () => api.createUser(userData),
-        ({ newUser, newNotification }) => {
+        ({ newUser }) => {
             newUserId = newUser.id;
-            setState(prev => {
-                const updatedUsers = [...prev.users, newUser];
-                const admins = updatedUsers.filter(u => u.isAdmin);
-                sendNewUserAdminNotification(newUser, admins);
-                return {
-                    ...prev,
-                    users: updatedUsers,
-                    notifications: [newNotification, ...prev.notifications]
-                };
-            });
+            setState(prev => ({ ...prev, users: [...prev.users, newUser] }));
+            requestNewRegistrationEmail(newUser.id);
         }
     );
     return newUserId;
@@ -126,24 +585,61 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
   const editUser: InventoryContextType['editUser'] = async (userData) => {
     await handleApiCall(
         () => api.editUser(userData),
-        (updatedUser) => setState(prev => ({ ...prev, users: prev.users.map(u => u.id === updatedUser.id ? updatedUser : u) }))
+        (updatedUser) => {
+            setState(prev => ({
+                ...prev,
+                users: prev.users.map(u => u.id === updatedUser.id ? updatedUser : u),
+                userDirectory: prev.userDirectory.map(u => u.id === updatedUser.id ? toUserSummary(updatedUser) : u),
+            }));
+            requestEmail('profile_updated', updatedUser.id);
+        }
     );
   };
 
-  const deleteUser: InventoryContextType['deleteUser'] = async (userId) => {
-      await handleApiCall(
-          () => api.deleteUser(userId),
-          // FIX: The API returns an object {id: string}, so access the .id property for comparison.
-          (deletedUserId) => setState(prev => ({ ...prev, users: prev.users.filter(u => u.id !== deletedUserId.id) }))
-      );
+  const updateNotificationPreferences: InventoryContextType['updateNotificationPreferences'] = async (userId, preferences) => {
+    let updatedUser: User | null = null;
+    await handleApiCall(
+        () => api.updateNotificationPreferences(userId, preferences),
+        (user) => {
+            updatedUser = user;
+            setState(prev => ({ ...prev, users: prev.users.map(u => u.id === user.id ? user : u) }));
+        }
+    );
+    return updatedUser!;
+  };
+
+  const replaceUser = (updatedUser: User) =>
+      setState(prev => ({
+          ...prev,
+          users: prev.users.map(u => u.id === updatedUser.id ? updatedUser : u),
+          userDirectory: prev.userDirectory.map(u => u.id === updatedUser.id ? toUserSummary(updatedUser) : u),
+      }));
+
+  const archiveUser: InventoryContextType['archiveUser'] = async (userId) => {
+      await handleApiCall(() => api.archiveUser(userId), replaceUser);
+  };
+
+  const restoreUser: InventoryContextType['restoreUser'] = async (userId) => {
+      await handleApiCall(() => api.restoreUser(userId), replaceUser);
   };
   
   const approveUser: InventoryContextType['approveUser'] = async (userId) => {
     await handleApiCall(
         () => api.approveUser(userId),
         (approvedUser) => {
-            setState(prev => ({ ...prev, users: prev.users.map(u => u.id === approvedUser.id ? approvedUser : u) }));
-            sendAccountApprovedNotification(approvedUser);
+            setState(prev => ({
+                ...prev,
+                users: prev.users.map(u => u.id === approvedUser.id ? approvedUser : u),
+                userDirectory: [...prev.userDirectory.filter(u => u.id !== approvedUser.id), toUserSummary(approvedUser)],
+            }));
+            requestEmail('account_approved', approvedUser.id);
+        },
+        {
+            optimistic: prev => ({
+                ...prev,
+                users: prev.users.map(u => u.id === userId && u.status === UserStatus.PENDING ? { ...u, status: UserStatus.APPROVED } : u),
+            }),
+            failureMessage: 'Could not approve the account',
         }
     );
   };
@@ -153,82 +649,219 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
         () => api.denyUser(userId),
         (deniedUser) => {
             setState(prev => ({ ...prev, users: prev.users.map(u => u.id === deniedUser.id ? deniedUser : u) }));
-            sendAccountDeniedNotification(deniedUser);
+            requestEmail('account_denied', deniedUser.id);
+        },
+        {
+            optimistic: prev => ({
+                ...prev,
+                users: prev.users.map(u => u.id === userId && u.status === UserStatus.PENDING ? { ...u, status: UserStatus.DENIED } : u),
+            }),
+            failureMessage: 'Could not deny the account',
         }
     );
   };
 
+  // Optionally keeps borrowers with unpaid damage or loss from taking out more equipment.
+  // The server enforces the policy; this only spares the round trip when the outcome is known.
+  const assertCanBorrow = (userId: string) => {
+    if (borrowingPolicy.blockBorrowingWithUnresolvedIncidents && getUnresolvedIncidents(userId, state.incidents).length > 0) {
+        throw new Error('This user has unresolved damage or loss incidents. They must be paid or waived before borrowing again.');
+    }
+  };
+
   const requestBorrowItem: InventoryContextType['requestBorrowItem'] = async (payload) => {
-    await handleApiCall(
-        () => api.requestBorrowItem(payload),
-        ({ newLog, newNotification }) => {
-            setState(prev => ({
-                ...prev,
-                logs: [newLog, ...prev.logs],
-                notifications: [newNotification, ...prev.notifications]
-            }));
-        }
-    );
+    assertCanBorrow(payload.userId);
+    await runOrQueue({ type: 'requestBorrowItem', payload }, `Borrow ${payload.quantity}x ${itemNameFor(payload.itemId)}`);
   };
 
-  const approveBorrowRequest: InventoryContextType['approveBorrowRequest'] = async (logId) => {
-    await handleApiCall(
-        () => api.approveBorrowRequest(logId),
-        ({ updatedLog, updatedItem }) => {
+  const requestBorrowBatch: InventoryContextType['requestBorrowBatch'] = async (payload) => {
+    assertCanBorrow(payload.userId);
+    await runOrQueue({ type: 'requestBorrowBatch', payload }, `Borrow ${payload.lines.length} items`);
+  };
+
+  const approveBorrowRequest: InventoryContextType['approveBorrowRequest'] = async (logId, assetUnitIds) => {
+    const log = state.logs.find(l => l.id === logId);
+    if (log) assertCanBorrow(log.userId);
+    const item = state.items.find(i => i.id === log?.itemId);
+    const dueDate = isConsumable(item) ? undefined : calculateDueDate(item);
+    return handleApiCall(
+        () => api.approveBorrowRequest({ logId, dueDate, assetUnitIds }),
+        ({ updatedLog, updatedItem, updatedUnits, newAdjustment }) => {
             setState(prev => ({
                 ...prev,
                 logs: prev.logs.map(l => l.id === updatedLog.id ? updatedLog : l),
                 items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+                assetUnits: mergeById(prev.assetUnits, updatedUnits ?? []),
+                stockAdjustments: newAdjustment ? [newAdjustment, ...prev.stockAdjustments] : prev.stockAdjustments,
             }));
+        },
+        {
+            optimistic: prev => approvePendingLogs(prev, [logId], dueDate ? { [logId]: dueDate } : {}, assetUnitIds ? { [logId]: assetUnitIds } : {}),
+            failureMessage: `Could not approve the request for ${item?.name ?? 'this item'}`,
         }
     );
   };
 
   const denyBorrowRequest: InventoryContextType['denyBorrowRequest'] = async (payload) => {
-    await handleApiCall(
+    return handleApiCall(
         () => api.denyBorrowRequest(payload),
-        (updatedLog) => setState(prev => ({ ...prev, logs: prev.logs.map(l => l.id === updatedLog.id ? updatedLog : l) }))
+        (updatedLog) => setState(prev => ({ ...prev, logs: prev.logs.map(l => l.id === updatedLog.id ? updatedLog : l) })),
+        {
+            optimistic: prev => denyPendingLogs(prev, l => l.id === payload.logId, payload.reason),
+            failureMessage: 'Could not deny the request',
+        }
     );
   };
 
-  const returnItem: InventoryContextType['returnItem'] = async (payload) => {
-    await handleApiCall(
-        () => api.returnItem(payload),
-        ({ returnLog, updatedBorrowLog, updatedItem }) => {
+  const approveBorrowBatch: InventoryContextType['approveBorrowBatch'] = async (requestId) => {
+    const dueDates: Record<string, string> = {};
+    const pendingLogs = state.logs.filter(l => l.requestId === requestId && l.status === LogStatus.PENDING);
+    if (pendingLogs.length > 0) assertCanBorrow(pendingLogs[0].userId);
+    pendingLogs.forEach(l => {
+        const item = state.items.find(i => i.id === l.itemId);
+        if (!isConsumable(item)) {
+            dueDates[l.id] = calculateDueDate(item);
+        }
+    });
+    return handleApiCall(
+        () => api.approveBorrowBatch({ requestId, dueDates }),
+        ({ updatedLogs, updatedItems, newAdjustments }) => {
             setState(prev => ({
                 ...prev,
-                logs: [returnLog, ...prev.logs.map(l => l.id === updatedBorrowLog.id ? updatedBorrowLog : l)],
-                items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+                logs: mergeById(prev.logs, updatedLogs),
+                items: mergeById(prev.items, updatedItems),
+                stockAdjustments: [...(newAdjustments ?? []), ...prev.stockAdjustments],
             }));
+        },
+        {
+            optimistic: prev => approvePendingLogs(prev, pendingLogs.map(l => l.id), dueDates),
+            failureMessage: 'Could not approve the request',
+        }
+    );
+  };
+
+  const denyBorrowBatch: InventoryContextType['denyBorrowBatch'] = async (payload) => {
+    return handleApiCall(
+        () => api.denyBorrowBatch(payload),
+        (updatedLogs) => setState(prev => ({ ...prev, logs: mergeById(prev.logs, updatedLogs) })),
+        {
+            optimistic: prev => denyPendingLogs(prev, l => l.requestId === payload.requestId, payload.reason),
+            failureMessage: 'Could not deny the request',
         }
     );
   };
 
+  const returnItem: InventoryContextType['returnItem'] = async ({ borrowLog, conditions, unitConditions, adminNotes }) => {
+    await runOrQueue(
+        { type: 'returnItem', payload: { borrowLogId: borrowLog.id, conditions, unitConditions, adminNotes } },
+        `Return ${itemNameFor(borrowLog.itemId)}`
+    );
+  };
+
+  const returnItems: InventoryContextType['returnItems'] = async ({ lines, adminNotes }) => {
+    await runOrQueue(
+        {
+            type: 'returnItems',
+            payload: {
+                lines: lines.map(({ borrowLog, conditions, unitConditions }) => ({ borrowLogId: borrowLog.id, conditions, unitConditions })),
+                adminNotes,
+            },
+        },
+        `Return ${lines.length} loans`
+    );
+  };
+
   const requestItemReturn: InventoryContextType['requestItemReturn'] = async (log) => {
-      await handleApiCall(
-          () => api.requestItemReturn(log.id),
-          ({ updatedLog, newNotification }) => {
-              setState(prev => ({
-                  ...prev,
-                  logs: prev.logs.map(l => l.id === updatedLog.id ? updatedLog : l),
-                  notifications: [newNotification, ...prev.notifications],
-              }));
-          }
-      );
+      await runOrQueue({ type: 'requestItemReturn', payload: { logId: log.id } }, `Request return of ${itemNameFor(log.itemId)}`);
   };
   
-  const markNotificationsAsRead: InventoryContextType['markNotificationsAsRead'] = async (notificationIds) => {
+  const createReservation: InventoryContextType['createReservation'] = async (payload) => {
+    const item = state.items.find(i => i.id === payload.itemId);
+    if (!item) {
+        throw new Error('The selected item no longer exists.');
+    }
+    const conflict = findReservationConflict({ ...payload, item }, state.reservations, state.logs);
+    if (conflict) {
+        throw new Error(conflict);
+    }
     await handleApiCall(
-        () => api.markNotificationsAsRead(notificationIds),
-        (readIds) => {
+        () => api.createReservation(payload),
+        ({ newReservation }) => {
+            setState(prev => ({ ...prev, reservations: [newReservation, ...prev.reservations] }));
+        }
+    );
+  };
+
+  const reportIncident: InventoryContextType['reportIncident'] = async (incidentData) => {
+    await handleApiCall(
+        () => api.reportIncident(incidentData),
+        (newIncident) => setState(prev => ({ ...prev, incidents: [newIncident, ...prev.incidents] }))
+    );
+  };
+
+  const resolveIncident: InventoryContextType['resolveIncident'] = async (payload) => {
+    await handleApiCall(
+        () => api.resolveIncident(payload),
+        (updatedIncident) => setState(prev => ({ ...prev, incidents: prev.incidents.map(i => i.id === updatedIncident.id ? updatedIncident : i) }))
+    );
+  };
+
+  const cancelReservation: InventoryContextType['cancelReservation'] = async (reservationId) => {
+    await handleApiCall(
+        () => api.cancelReservation(reservationId),
+        (updatedReservation) => setState(prev => ({ ...prev, reservations: prev.reservations.map(r => r.id === updatedReservation.id ? updatedReservation : r) }))
+    );
+  };
+
+  // The reservation's end time becomes the due date of the resulting loan.
+  const fulfillReservation: InventoryContextType['fulfillReservation'] = async (reservation) => {
+    await handleApiCall(
+        () => api.fulfillReservation({ reservationId: reservation.id, dueDate: reservation.endTime }),
+        ({ updatedReservation, newLog, updatedItem, updatedUnits }) => {
             setState(prev => ({
                 ...prev,
-                notifications: prev.notifications.map(n => readIds.includes(n.id) ? { ...n, read: true } : n),
+                reservations: prev.reservations.map(r => r.id === updatedReservation.id ? updatedReservation : r),
+                logs: [newLog, ...prev.logs],
+                items: prev.items.map(i => i.id === updatedItem.id ? updatedItem : i),
+                assetUnits: mergeById(prev.assetUnits, updatedUnits ?? []),
             }));
         }
     );
   };
 
+  const markNotificationsAsRead: InventoryContextType['markNotificationsAsRead'] = async (notificationIds) => {
+    await handleApiCall(
+        () => api.markNotificationsAsRead(notificationIds),
+        (readIds) => setState(prev => setNotificationsRead(prev, n => readIds.includes(n.id), true)),
+        {
+            optimistic: prev => setNotificationsRead(prev, n => notificationIds.includes(n.id), true),
+            failureMessage: 'Could not mark notifications as read',
+        }
+    );
+  };
+
+  const markNotificationsAsUnread: InventoryContextType['markNotificationsAsUnread'] = async (notificationIds) => {
+    await handleApiCall(
+        () => api.markNotificationsAsUnread(notificationIds),
+        (unreadIds) => setState(prev => setNotificationsRead(prev, n => unreadIds.includes(n.id), false)),
+        {
+            optimistic: prev => setNotificationsRead(prev, n => notificationIds.includes(n.id), false),
+            failureMessage: 'Could not mark notifications as unread',
+        }
+    );
+  };
+
+  const markAllNotificationsAsRead: InventoryContextType['markAllNotificationsAsRead'] = async () => {
+    await handleApiCall(
+        () => api.markAllNotificationsAsRead(),
+        (readIds) => setState(prev => setNotificationsRead(prev, n => readIds.includes(n.id), true)),
+        {
+            optimistic: prev => setNotificationsRead(prev, () => true, true),
+            failureMessage: 'Could not mark notifications as read',
+        }
+    );
+  };
+
   const addSuggestion: InventoryContextType['addSuggestion'] = async (suggestionData) => {
     await handleApiCall(
         () => api.addSuggestion(suggestionData),
@@ -239,11 +872,11 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
   const approveItemSuggestion: InventoryContextType['approveItemSuggestion'] = async (payload) => {
     await handleApiCall(
         () => api.approveItemSuggestion(payload),
-        ({ updatedSuggestion, newItem }) => {
+        ({ updatedSuggestion, newPurchaseRequest }) => {
             setState(prev => ({
                 ...prev,
                 suggestions: prev.suggestions.map(s => s.id === updatedSuggestion.id ? updatedSuggestion : s),
-                items: [...prev.items, newItem],
+                purchaseRequests: [newPurchaseRequest, ...prev.purchaseRequests],
             }));
         }
     );
@@ -277,37 +910,108 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
    };
 
   const addComment: InventoryContextType['addComment'] = async (payload) => {
-    await handleApiCall(
-        () => api.addComment(payload),
-        (newComment) => setState(prev => ({ ...prev, comments: [newComment, ...prev.comments] }))
-    );
+    const suggestion = state.suggestions.find(s => s.id === payload.suggestionId);
+    await runOrQueue({ type: 'addComment', payload }, `Comment on "${suggestion?.title ?? 'a suggestion'}"`);
+  };
+
+  const replacePurchaseRequest = (updated: PurchaseRequest) =>
+      setState(prev => ({ ...prev, purchaseRequests: prev.purchaseRequests.map(p => p.id === updated.id ? updated : p) }));
+
+  const editPurchaseRequest: InventoryContextType['editPurchaseRequest'] = async (purchaseRequest) => {
+      await handleApiCall(() => api.editPurchaseRequest(purchaseRequest), replacePurchaseRequest);
+  };
+
+  const orderPurchaseRequest: InventoryContextType['orderPurchaseRequest'] = async (purchaseRequestId, orderReference) => {
+      await handleApiCall(() => api.orderPurchaseRequest(purchaseRequestId, orderReference), replacePurchaseRequest);
+  };
+
+  // The first delivery creates the item, so it may not be in state yet
+  const receivePurchaseRequest: InventoryContextType['receivePurchaseRequest'] = async (purchaseRequestId, quantity) => {
+      await handleApiCall(
+          () => api.receivePurchaseRequest(purchaseRequestId, quantity),
+          ({ purchaseRequest, newAdjustment, item }) => setState(prev => ({
+              ...prev,
+              purchaseRequests: prev.purchaseRequests.map(p => p.id === purchaseRequest.id ? purchaseRequest : p),
+              stockAdjustments: [newAdjustment, ...prev.stockAdjustments],
+              items: prev.items.some(i => i.id === item.id) ? prev.items.map(i => i.id === item.id ? item : i) : [...prev.items, item],
+          }))
+      );
+  };
+
+  const cancelPurchaseRequest: InventoryContextType['cancelPurchaseRequest'] = async (purchaseRequestId) => {
+      await handleApiCall(() => api.cancelPurchaseRequest(purchaseRequestId), replacePurchaseRequest);
+  };
+
+  const updateBorrowingPolicy: InventoryContextType['updateBorrowingPolicy'] = async (policy) => {
+      await handleApiCall(() => api.updateBorrowingPolicy(policy), setBorrowingPolicy);
+  };
+
+  const setCategoryBudget: InventoryContextType['setCategoryBudget'] = async (budget) => {
+      await handleApiCall(
+          () => api.setCategoryBudget(budget),
+          (saved) => setState(prev => ({ ...prev, budgets: [...prev.budgets.filter(b => b.category !== saved.category), saved] }))
+      );
   };
 
   const contextValue: InventoryContextType = {
-      state,
+      state: visibleState,
       isLoading,
       syncStatus,
       lastSynced,
+      connectionStatus,
+      outbox,
+      borrowingPolicy,
+      updateBorrowingPolicy,
+      retryOutboxEntry,
+      discardOutboxEntry,
       addItem,
+      uploadSafetyDataSheet,
+      setItemLocations,
+      addLocation,
+      editLocation,
+      deleteLocation,
+      completeStocktake,
       editItem,
-      deleteItem,
+      adjustStock,
+      archiveItem,
+      restoreItem,
+      addAssetUnit,
+      updateAssetUnit,
       requestBorrowItem,
+      requestBorrowBatch,
       approveBorrowRequest,
       denyBorrowRequest,
+      approveBorrowBatch,
+      denyBorrowBatch,
       returnItem,
+      returnItems,
       requestItemReturn,
+      createReservation,
+      cancelReservation,
+      fulfillReservation,
+      reportIncident,
+      resolveIncident,
       createUser,
       editUser,
-      deleteUser,
+      updateNotificationPreferences,
+      archiveUser,
+      restoreUser,
       approveUser,
       denyUser,
       markNotificationsAsRead,
+      markNotificationsAsUnread,
+      markAllNotificationsAsRead,
       addSuggestion,
       approveItemSuggestion,
       approveFeatureSuggestion,
       denySuggestion,
       importItems,
       addComment,
+      editPurchaseRequest,
+      orderPurchaseRequest,
+      receivePurchaseRequest,
+      cancelPurchaseRequest,
+      setCategoryBudget,
   };
 
   if (isLoading) {
@@ -319,7 +1023,7 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
   }
 
   if (connectionError) {
-      return <ConnectionError message={connectionError} onRetry={loadData} />;
+      return <ConnectionError message={connectionError} onRetry={() => loadData()} />;
   }
 
   return (
@@ -27,7 +27,8 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     const storedSettings = loadSettings();
     if (storedSettings) {
-      setSettings(storedSettings);
+      // Settings saved before a field existed fall back to its default
+      setSettings({ ...defaultSettings, ...storedSettings });
     }
   }, []);
 
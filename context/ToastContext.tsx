@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useState, ReactNode, useCallback, useRef } from 'react';
+import { IconX } from '../components/icons';
+
+type ToastType = 'success' | 'error' | 'info';
+
+interface Toast {
+  id: number;
+  message: string;
+  type: ToastType;
+}
+
+interface ToastContextType {
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+const TOAST_DURATION_MS = 5000;
+
+const toastClasses: Record<ToastType, string> = {
+  success: 'bg-green-900/90 border-green-700 text-green-200',
+  error: 'bg-red-900/90 border-red-700 text-red-200',
+  info: 'bg-slate-800/95 border-slate-600 text-slate-200',
+};
+
+export const ToastProvider = ({ children }: { children: ReactNode }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(0);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, type: ToastType = 'info') => {
+    const id = nextIdRef.current++;
+    setToasts(prev => [...prev, { id, message, type }]);
+    setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+  }, [dismissToast]);
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-full max-w-sm button-print-hide" aria-live="polite">
+        {toasts.map(toast => (
+          <div key={toast.id} role={toast.type === 'error' ? 'alert' : 'status'} className={`flex items-start gap-3 p-3 rounded-lg border shadow-lg text-sm animate-in fade-in-0 ${toastClasses[toast.type]}`}>
+            <p className="flex-grow">{toast.message}</p>
+            <button onClick={() => dismissToast(toast.id)} aria-label="Dismiss" className="opacity-70 hover:opacity-100 transition-opacity">
+              <IconX />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
@@ -1,6 +1,15 @@
+const { PHASE_DEVELOPMENT_SERVER, PHASE_PRODUCTION_SERVER } = require('next/constants');
+const { getAppUrl } = require('./services/appUrl');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
 };
 
-module.exports = nextConfig;
+// Links in emails are built from APP_URL (see services/appUrl.js), so the server does not start without it
+module.exports = (phase) => {
+  if (phase === PHASE_DEVELOPMENT_SERVER || phase === PHASE_PRODUCTION_SERVER) {
+    getAppUrl();
+  }
+  return nextConfig;
+};
@@ -6,6 +6,8 @@ import { Sidebar } from '../components/Sidebar';
 import { InventoryProvider } from '../context/InventoryContext';
 import { AuthProvider, useAuth } from '../context/AuthContext';
 import { SettingsProvider, useSettings } from '../context/SettingsContext';
+import { ToastProvider } from '../context/ToastContext';
+import { can, Permission } from '../services/permissionService';
 
 import '../styles/globals.css';
 
@@ -19,6 +21,19 @@ const DynamicTitle = () => {
     return null;
 };
 
+// Pages that need more than a signed-in user
+const pagePermissions: Record<string, Permission> = {
+    '/log': 'loans.view',
+    '/incidents': 'incidents.resolve',
+    '/users': 'users.manage',
+    '/reports': 'reports.view',
+    '/my-borrows': 'loans.borrow',
+    '/audit': 'audit.view',
+    '/locations': 'items.manage',
+    '/stocktake': 'stocktake.run',
+    '/purchasing': 'purchases.manage',
+};
+
 const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { isAuthenticated, currentUser, isLoading } = useAuth();
     const router = useRouter();
@@ -34,22 +49,22 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       return () => window.removeEventListener('resize', handleResize);
     }, []);
 
-    const publicPages = ['/login', '/signup'];
-    // FIX: Corrected path for reports page to include a leading slash for proper route matching.
-    const adminPages = ['/log', '/users', '/reports'];
+    const publicPages = ['/login', '/signup', '/forgot-password', '/reset-password'];
+    // currentUser is resolved from the access token by the server. This redirect is only a
+    // convenience; the API rejects requests the token's role is not permitted regardless.
+    const requiredPermission = Object.entries(pagePermissions).find(([page]) => router.pathname.startsWith(page))?.[1];
 
     const isPublicPage = publicPages.includes(router.pathname);
-    const isAdminPage = adminPages.some(p => router.pathname.startsWith(p));
 
     useEffect(() => {
         if (isLoading) return;
 
         if (!isAuthenticated && !isPublicPage) {
             router.replace('/login');
-        } else if (isAuthenticated && isAdminPage && !currentUser?.isAdmin) {
+        } else if (isAuthenticated && requiredPermission && !can(currentUser, requiredPermission)) {
             router.replace('/dashboard');
         }
-    }, [isAuthenticated, currentUser, isLoading, router, isPublicPage, isAdminPage]);
+    }, [isAuthenticated, currentUser, isLoading, router, isPublicPage, requiredPermission]);
 
     if (isPublicPage || (!isAuthenticated && !isLoading)) {
         return <>{children}</>;
@@ -72,16 +87,18 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
 function MyApp({ Component, pageProps }: AppProps) {
   return (
-    <SettingsProvider>
-      <InventoryProvider>
-        <AuthProvider>
-          <DynamicTitle />
-          <AppLayout>
-            <Component {...pageProps} />
-          </AppLayout>
-        </AuthProvider>
-      </InventoryProvider>
-    </SettingsProvider>
+    <ToastProvider>
+      <SettingsProvider>
+        <InventoryProvider>
+          <AuthProvider>
+            <DynamicTitle />
+            <AppLayout>
+              <Component {...pageProps} />
+            </AppLayout>
+          </AuthProvider>
+        </InventoryProvider>
+      </SettingsProvider>
+    </ToastProvider>
   );
 }
 
@@ -0,0 +1,27 @@
+import type { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../services/authTokenService';
+import { sendPasswordReset } from '../../../services/passwordResetService';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { userId } = req.body;
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ message: 'Missing required data: userId.' });
+  }
+
+  try {
+    const sent = await sendPasswordReset({ userId }, true);
+    if (!sent) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+    res.status(200).json({ message: 'A password reset link has been emailed to the user.' });
+  } catch (error: any) {
+    console.error("Error in /api/auth/force-reset:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withAuth(handler, { permission: 'users.manage' });
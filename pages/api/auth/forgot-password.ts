@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendPasswordReset } from '../../../services/passwordResetService';
+import { allowAttempt } from '../../../services/rateLimitService';
+import {
+  PASSWORD_RESET_LIMIT_PER_ADDRESS,
+  PASSWORD_RESET_LIMIT_PER_IDENTIFIER,
+  PASSWORD_RESET_LIMIT_WINDOW_MINUTES,
+} from '../../../constants';
+
+// The same answer is given whether or not the account exists, so this cannot be used to probe for accounts.
+const GENERIC_RESPONSE = 'If an account matches those details, a password reset link has been sent to its email address.';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { identifier } = req.body;
+  if (!identifier || typeof identifier !== 'string') {
+    return res.status(400).json({ message: 'Please enter your email, username, or LRN.' });
+  }
+
+  // Over the limit, nothing is sent but the answer is the same, so the limit does not reveal accounts either.
+  // The socket address is used rather than X-Forwarded-For, which the client can set.
+  const normalized = identifier.trim().toLowerCase();
+  const windowMs = PASSWORD_RESET_LIMIT_WINDOW_MINUTES * 60 * 1000;
+  const withinAddressLimit = allowAttempt(`forgot-password:address:${req.socket.remoteAddress}`, PASSWORD_RESET_LIMIT_PER_ADDRESS, windowMs);
+  const withinIdentifierLimit = allowAttempt(`forgot-password:identifier:${normalized}`, PASSWORD_RESET_LIMIT_PER_IDENTIFIER, windowMs);
+  if (!withinAddressLimit || !withinIdentifierLimit) {
+    return res.status(200).json({ message: GENERIC_RESPONSE });
+  }
+
+  try {
+    await sendPasswordReset({ identifier: identifier.trim() });
+    res.status(200).json({ message: GENERIC_RESPONSE });
+  } catch (error: any) {
+    console.error("Error in /api/auth/forgot-password:", error);
+    res.status(500).json({ message: 'Password reset is unavailable right now. Please try again later or ask an administrator.' });
+  }
+}
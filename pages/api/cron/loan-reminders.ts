@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withCronSecret } from '../../../services/authTokenService';
+import { fetchState } from '../../../services/serviceClient';
+import { runLoanReminders } from '../../../services/reminderService';
+import { getAppUrl } from '../../../services/appUrl';
+
+// Safe to call as often as you like; each reminder is only ever sent once. Hourly is plenty.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  try {
+    const result = await runLoanReminders(await fetchState(), getAppUrl());
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("Error in /api/cron/loan-reminders:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withCronSecret(handler);
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withCronSecret } from '../../../services/authTokenService';
+import { fetchState } from '../../../services/serviceClient';
+import { sendAdminDigests } from '../../../services/digestService';
+import { getAppUrl } from '../../../services/appUrl';
+
+// Schedule once a day with ?frequency=daily and once a week with ?frequency=weekly.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { frequency } = req.query;
+  if (frequency !== 'daily' && frequency !== 'weekly') {
+    return res.status(400).json({ message: 'frequency must be daily or weekly.' });
+  }
+
+  try {
+    const sent = await sendAdminDigests(await fetchState(), frequency, getAppUrl());
+    res.status(200).json({ sent });
+  } catch (error: any) {
+    console.error("Error in /api/email/digest:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withCronSecret(handler);
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAppUrl } from '../../../services/appUrl';
+import { fetchUser, fetchUsersByRole } from '../../../services/serviceClient';
+import { sendNewUserAdminNotification } from '../../../services/emailService';
+import { UserStatus } from '../../../types';
+import { withoutArchived } from '../../../services/archiveService';
+
+// Called right after sign-up, before the new user can log in, so it cannot require a session.
+// It only ever emails the admins about a pending account, and only once per account.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { userId } = req.body;
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ message: 'Missing required data: userId.' });
+  }
+
+  try {
+    const newUser = await fetchUser(userId);
+    if (!newUser || newUser.status !== UserStatus.PENDING) {
+      return res.status(404).json({ message: 'No pending registration was found.' });
+    }
+    const admins = withoutArchived(await fetchUsersByRole('Admin'));
+    await sendNewUserAdminNotification(newUser, admins, getAppUrl());
+    res.status(202).json({ message: 'The administrators have been notified.' });
+  } catch (error: any) {
+    console.error("Error in /api/email/new-registration:", error);
+    res.status(500).json({ message: 'Could not notify the administrators.' });
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withCronSecret } from '../../../services/authTokenService';
+import { processEmailOutbox } from '../../../services/emailOutboxService';
+
+// Retries queued emails on hosts that do not keep the server running between requests.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  try {
+    const result = await processEmailOutbox();
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error("Error in /api/email/process-outbox:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withCronSecret(handler);
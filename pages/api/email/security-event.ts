@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withServiceKey } from '../../../services/authTokenService';
+import { fetchUser } from '../../../services/serviceClient';
+import { sendLoginNotification, sendPasswordChangedNotification } from '../../../services/emailService';
+
+// Called by the backend when a user signs in or their password changes (including through a
+// reset link), so these emails go out whatever the browser does.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { event, userId } = req.body;
+  if (event !== 'login' && event !== 'password_changed') {
+    return res.status(400).json({ message: `Unknown security event: ${event}.` });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ message: 'Missing required data: userId.' });
+  }
+
+  try {
+    const user = await fetchUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+    if (event === 'login') {
+      await sendLoginNotification(user);
+    } else {
+      await sendPasswordChangedNotification(user);
+    }
+    res.status(202).json({ message: 'The email has been queued.' });
+  } catch (error: any) {
+    console.error("Error in /api/email/security-event:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withServiceKey(handler);
@@ -0,0 +1,72 @@
+import type { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../services/authTokenService';
+import { can } from '../../../services/permissionService';
+import { getAppUrl } from '../../../services/appUrl';
+import { fetchUser } from '../../../services/serviceClient';
+import {
+  sendAccountApprovedNotification,
+  sendAccountDeniedNotification,
+  sendProfileUpdateNotification,
+} from '../../../services/emailService';
+import { UserStatus } from '../../../types';
+
+// The browser only names what happened; recipients and contents are looked up here, so
+// this route cannot be used to send arbitrary mail. Security emails, which a browser could
+// simply not ask for, come from the backend through /api/email/security-event instead.
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { event, userId } = req.body;
+
+  try {
+    switch (event) {
+      case 'account_approved':
+      case 'account_denied': {
+        if (!can(req.auth, 'users.manage')) {
+          return res.status(403).json({ message: 'You do not have permission to perform this action.' });
+        }
+        if (!userId || typeof userId !== 'string') {
+          return res.status(400).json({ message: 'Missing required data: userId.' });
+        }
+        const user = await fetchUser(userId);
+        if (!user) {
+          return res.status(404).json({ message: 'User not found.' });
+        }
+        // Only confirm a decision that has actually been saved
+        const expectedStatus = event === 'account_approved' ? UserStatus.APPROVED : UserStatus.DENIED;
+        if (user.status !== expectedStatus) {
+          return res.status(409).json({ message: `This account is not ${expectedStatus.toLowerCase()}.` });
+        }
+        if (event === 'account_approved') {
+          await sendAccountApprovedNotification(user, getAppUrl());
+        } else {
+          await sendAccountDeniedNotification(user);
+        }
+        break;
+      }
+      case 'profile_updated': {
+        const targetId = typeof userId === 'string' ? userId : req.auth.sub;
+        const changedByAdmin = targetId !== req.auth.sub;
+        if (changedByAdmin && !can(req.auth, 'users.manage')) {
+          return res.status(403).json({ message: 'You do not have permission to perform this action.' });
+        }
+        const user = await fetchUser(targetId);
+        if (!user) {
+          return res.status(404).json({ message: 'User not found.' });
+        }
+        await sendProfileUpdateNotification(user, changedByAdmin);
+        break;
+      }
+      default:
+        return res.status(400).json({ message: `Unknown email event: ${event}.` });
+    }
+    res.status(202).json({ message: 'The email has been queued.' });
+  } catch (error: any) {
+    console.error("Error in /api/email/send:", error);
+    res.status(500).json({ message: error.message || 'An unknown error occurred.' });
+  }
+}
+
+export default withAuth(handler);
@@ -3,8 +3,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { generateInventoryReport } from '../../services/geminiService';
 import { InventoryReport } from '../../types';
+import { withAuth } from '../../services/authTokenService';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method Not Allowed' });
   }
@@ -23,4 +24,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     console.error("Error in /api/generate-report:", error);
     res.status(500).json({ message: error.message || 'An unknown error occurred.' });
   }
-}
\ No newline at end of file
+}
+
+// Reports expose every user's borrowing activity, so only roles with reports.view (Admins and Viewers) may generate them.
+export default withAuth(handler, { permission: 'reports.view' });
@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useInventory } from '../context/InventoryContext';
+import api from '../services/apiService';
+import { convertToCSV, downloadCSV } from '../services/csvService';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AUDIT_TARGET_LABELS, formatAuditValue, toAuditExportRow } from '../services/auditService';
+import { AuditAction, AuditEntry, AuditQuery, AuditTargetType } from '../types';
+import { IconChevronLeft, IconChevronRight, IconDownload, IconLoader } from '../components/icons';
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const emptyFilters = { actorId: '', action: '', targetType: '', from: '', to: '' };
+
+const inputClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5';
+
+const AuditLog: React.FC = () => {
+    const { state } = useInventory();
+    const [searchInput, setSearchInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [filters, setFilters] = useState(emptyFilters);
+    const [page, setPage] = useState(0);
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setSearch(searchInput.trim());
+            setPage(0);
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    const query = useMemo<Omit<AuditQuery, 'page' | 'pageSize'>>(() => ({
+        search: search || undefined,
+        actorId: filters.actorId || undefined,
+        actions: filters.action ? [filters.action as AuditAction] : undefined,
+        targetType: (filters.targetType || undefined) as AuditTargetType | undefined,
+        // Dates are picked in local time; the whole "to" day is included
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    }), [search, filters]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError('');
+        api.getAuditLog({ ...query, page, pageSize: PAGE_SIZE })
+            .then(result => {
+                if (cancelled) return;
+                setEntries(result.entries);
+                setTotal(result.total);
+            })
+            .catch((err: Error) => {
+                if (!cancelled) setError(err.message || 'Could not load the audit log.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [query, page]);
+
+    const actors = useMemo(
+        () => [...state.userDirectory].sort((a, b) => a.fullName.localeCompare(b.fullName)),
+        [state.userDirectory]
+    );
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setFilters(prev => ({ ...prev, [e.target.name]: e.target.value }));
+        setPage(0);
+    };
+
+    const handleClearFilters = () => {
+        setSearchInput('');
+        setFilters(emptyFilters);
+        setPage(0);
+    };
+
+    // Exports everything matching the current filters, not just the page on screen
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError('');
+        try {
+            const allEntries: AuditEntry[] = [];
+            for (let exportPage = 0; ; exportPage++) {
+                const result = await api.getAuditLog({ ...query, page: exportPage, pageSize: EXPORT_PAGE_SIZE });
+                allEntries.push(...result.entries);
+                if (result.entries.length < EXPORT_PAGE_SIZE || allEntries.length >= result.total) break;
+            }
+            if (allEntries.length === 0) {
+                setError('There are no entries to export.');
+                return;
+            }
+            downloadCSV(convertToCSV(allEntries.map(toAuditExportRow)), `olilab_audit_${new Date().toISOString().slice(0, 10)}.csv`);
+        } catch (err: any) {
+            setError(err.message || 'Could not export the audit log.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+    const hasFilters = !!searchInput || Object.values(filters).some(Boolean);
+
+    return (
+        <div className="p-4 md:p-8">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">Audit Log</h1>
+                    <p className="text-sm text-slate-400 mt-1">Every change made through OliLab, with who made it and what it changed.</p>
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || total === 0}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    {isExporting ? <IconLoader /> : <IconDownload />}
+                    <span>Export CSV</span>
+                </button>
+            </div>
+
+            <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 mb-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                <div className="md:col-span-3 lg:col-span-2">
+                    <label htmlFor="audit-search" className="block mb-2 text-sm font-medium text-slate-300">Search</label>
+                    <input
+                        id="audit-search"
+                        type="text"
+                        value={searchInput}
+                        onChange={e => setSearchInput(e.target.value)}
+                        placeholder="Actor, item, user or reason"
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="actorId" className="block mb-2 text-sm font-medium text-slate-300">Actor</label>
+                    <select id="actorId" name="actorId" value={filters.actorId} onChange={handleFilterChange} className={inputClassName}>
+                        <option value="">Anyone</option>
+                        {actors.map(user => <option key={user.id} value={user.id}>{user.fullName}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="action" className="block mb-2 text-sm font-medium text-slate-300">Action</label>
+                    <select id="action" name="action" value={filters.action} onChange={handleFilterChange} className={inputClassName}>
+                        <option value="">All actions</option>
+                        {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="targetType" className="block mb-2 text-sm font-medium text-slate-300">Record</label>
+                    <select id="targetType" name="targetType" value={filters.targetType} onChange={handleFilterChange} className={inputClassName}>
+                        <option value="">All records</option>
+                        {(Object.keys(AUDIT_TARGET_LABELS) as AuditTargetType[]).map(type => <option key={type} value={type}>{AUDIT_TARGET_LABELS[type]}</option>)}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label htmlFor="from" className="block mb-2 text-sm font-medium text-slate-300">From</label>
+                        <input id="from" name="from" type="date" value={filters.from} onChange={handleFilterChange} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="to" className="block mb-2 text-sm font-medium text-slate-300">To</label>
+                        <input id="to" name="to" type="date" value={filters.to} min={filters.from || undefined} onChange={handleFilterChange} className={inputClassName} />
+                    </div>
+                </div>
+                {hasFilters && (
+                    <div className="md:col-span-3 lg:col-span-6 flex justify-end">
+                        <button type="button" onClick={handleClearFilters} className="text-sm text-slate-400 hover:text-white">Clear filters</button>
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">When</th>
+                                <th scope="col" className="px-6 py-3">Actor</th>
+                                <th scope="col" className="px-6 py-3">Action</th>
+                                <th scope="col" className="px-6 py-3">Target</th>
+                                <th scope="col" className="px-6 py-3">Changes</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="px-6 py-8 text-center text-slate-400"><span className="inline-flex"><IconLoader /></span></td></tr>
+                            ) : entries.length === 0 ? (
+                                <tr><td colSpan={5} className="px-6 py-8 text-center text-slate-400">No audit entries match these filters.</td></tr>
+                            ) : entries.map(entry => {
+                                const isExpanded = expandedId === entry.id;
+                                return (
+                                    <React.Fragment key={entry.id}>
+                                        <tr className="border-b border-slate-700 hover:bg-slate-700/50 align-top">
+                                            <td className="px-6 py-4 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                            <td className="px-6 py-4 font-medium text-white">{entry.actorName}</td>
+                                            <td className="px-6 py-4">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</td>
+                                            <td className="px-6 py-4">
+                                                <p className="text-white">{entry.targetLabel}</p>
+                                                <p className="text-xs text-slate-400">{AUDIT_TARGET_LABELS[entry.targetType] ?? entry.targetType}</p>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                {entry.changes.length === 0 && !entry.reason ? (
+                                                    <span className="text-slate-500">—</span>
+                                                ) : (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                                        className="text-emerald-400 hover:text-emerald-300"
+                                                    >
+                                                        {isExpanded ? 'Hide' : `${entry.changes.length} field${entry.changes.length === 1 ? '' : 's'}`}
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="border-b border-slate-700 bg-slate-900/40">
+                                                <td colSpan={5} className="px-6 py-4">
+                                                    {entry.reason && <p className="mb-3 text-slate-300"><span className="text-slate-400">Reason:</span> {entry.reason}</p>}
+                                                    {entry.changes.length > 0 && (
+                                                        <table className="w-full text-xs">
+                                                            <thead className="text-slate-400 uppercase">
+                                                                <tr>
+                                                                    <th scope="col" className="py-1 pr-4">Field</th>
+                                                                    <th scope="col" className="py-1 pr-4">Before</th>
+                                                                    <th scope="col" className="py-1">After</th>
+                                                                </tr>
+                                                            </thead>
+                                                            <tbody>
+                                                                {entry.changes.map(change => (
+                                                                    <tr key={change.field}>
+                                                                        <td className="py-1 pr-4 font-mono text-slate-300">{change.field}</td>
+                                                                        <td className="py-1 pr-4 text-red-300 break-all">{formatAuditValue(change.before)}</td>
+                                                                        <td className="py-1 text-emerald-300 break-all">{formatAuditValue(change.after)}</td>
+                                                                    </tr>
+                                                                ))}
+                                                            </tbody>
+                                                        </table>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex items-center justify-between px-6 py-3 border-t border-slate-700 text-sm text-slate-400">
+                    <span>{total} entr{total === 1 ? 'y' : 'ies'}</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setPage(p => p - 1)}
+                            disabled={page === 0 || isLoading}
+                            aria-label="Previous page"
+                            className="p-1 rounded hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            <IconChevronLeft />
+                        </button>
+                        <span>Page {page + 1} of {pageCount}</span>
+                        <button
+                            type="button"
+                            onClick={() => setPage(p => p + 1)}
+                            disabled={page + 1 >= pageCount || isLoading}
+                            aria-label="Next page"
+                            className="p-1 rounded hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            <IconChevronRight />
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AuditLog;
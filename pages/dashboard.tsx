@@ -2,8 +2,13 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { useInventory } from '../context/InventoryContext';
 import { IconLightbulb, IconLoader, IconPrinter, IconAlertTriangle, IconBookText, IconFlaskConical, IconArrowUpRight, IconArrowDownLeft } from '../components/icons';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { LogAction, UserStatus, InventoryReport } from '../types';
+import { LogAction, InventoryReport } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { getOverdueLoans } from '../services/loanService';
+import { getAccessToken } from '../services/sessionService';
+import { can } from '../services/permissionService';
+import { withoutArchived } from '../services/archiveService';
+import { isLowStock } from '../services/stockService';
  
 const StatCard: React.FC<{ title: string; value: string | number; description: string }> = ({ title, value, description }) => (
     <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-md print-bg-white print-text-black">
@@ -96,21 +101,25 @@ const Dashboard: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [reportError, setReportError] = useState('');
 
+  const activeItems = useMemo(() => withoutArchived(state.items), [state.items]);
+
   const stats = useMemo(() => {
-    const totalItems = state.items.reduce((sum, item) => sum + item.totalQuantity, 0);
-    const borrowedItems = state.items.reduce((sum, item) => sum + (item.totalQuantity - item.availableQuantity), 0);
-    const lowStockItems = state.items.filter(item => item.totalQuantity > 0 && item.availableQuantity / item.totalQuantity < 0.2).length;
-    const userCount = state.users.filter(u => u.status === UserStatus.APPROVED).length;
-    return { totalItems, borrowedItems, lowStockItems, userCount };
-  }, [state.items, state.users]);
+    const totalItems = activeItems.reduce((sum, item) => sum + item.totalQuantity, 0);
+    const borrowedItems = activeItems.reduce((sum, item) => sum + (item.totalQuantity - item.availableQuantity), 0);
+    const lowStockItems = activeItems.filter(isLowStock).length;
+    // The directory only lists approved accounts, but keeps archived ones for their names
+    const userCount = withoutArchived(state.userDirectory).length;
+    const overdueLoans = getOverdueLoans(state.logs, state.items).length;
+    return { totalItems, borrowedItems, lowStockItems, userCount, overdueLoans };
+  }, [activeItems, state.items, state.userDirectory, state.logs]);
 
   const chartData = useMemo(() => {
-      return state.items.map(item => ({
+      return activeItems.map(item => ({
           name: item.name,
           Available: item.availableQuantity,
           Borrowed: item.totalQuantity - item.availableQuantity
       })).slice(0, 7); // Show first 7 items for cleaner chart
-  }, [state.items]);
+  }, [activeItems]);
 
   const handleGenerateReport = useCallback(async () => {
     setIsLoading(true);
@@ -119,7 +128,7 @@ const Dashboard: React.FC = () => {
     try {
         const response = await fetch('/api/generate-report', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${getAccessToken() ?? ''}` },
             body: JSON.stringify({
                 items: state.items,
                 logs: state.logs,
@@ -142,10 +151,10 @@ const Dashboard: React.FC = () => {
   const recentLogs = useMemo(() => {
       return state.logs.slice(0, 5).map(log => {
           const item = state.items.find(i => i.id === log.itemId);
-          const user = state.users.find(u => u.id === log.userId);
+          const user = state.userDirectory.find(u => u.id === log.userId);
           return { ...log, itemName: item?.name || 'N/A', userName: user?.fullName || 'N/A' };
       });
-  }, [state.logs, state.items, state.users]);
+  }, [state.logs, state.items, state.userDirectory]);
 
   return (
     <div className="p-4 md:p-8 space-y-8">
@@ -160,9 +169,10 @@ const Dashboard: React.FC = () => {
         </button>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         <StatCard title="Total Item Count" value={stats.totalItems} description="Across all categories" />
         <StatCard title="Items Currently Borrowed" value={stats.borrowedItems} description="Currently in use" />
+        <StatCard title="Overdue Loans" value={stats.overdueLoans} description="Past their due date" />
         <StatCard title="Low Stock Alerts" value={stats.lowStockItems} description="Items below 20% stock" />
         <StatCard title="Registered Users" value={stats.userCount} description="Active & Approved" />
       </div>
@@ -209,7 +219,7 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      {currentUser?.isAdmin && (
+      {can(currentUser, 'reports.view') && (
         <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 print-bg-white">
           <div className="flex flex-col sm:flex-row justify-between items-start">
               <div className="mb-4 sm:mb-0">
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { IconOliveBranch, IconLoader } from '../components/icons';
+
+const ForgotPasswordPage: React.FC = () => {
+    const [identifier, setIdentifier] = useState('');
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccessMessage('');
+        setIsLoading(true);
+
+        try {
+            const response = await fetch('/api/auth/forgot-password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ identifier }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.message || 'Failed to request a password reset.');
+            }
+            setSuccessMessage(result.message);
+            setIdentifier('');
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-900">
+            <div className="w-full max-w-sm p-8 space-y-8 bg-slate-800 rounded-2xl shadow-2xl border border-slate-700">
+                <div className="flex flex-col items-center">
+                    <div className="p-3 bg-emerald-600 rounded-lg mb-4">
+                        <IconOliveBranch />
+                    </div>
+                    <h1 className="text-3xl font-bold text-white">Forgot Password</h1>
+                    <p className="text-slate-400 text-center">Enter your email, username, or LRN and we will email you a link to reset your password.</p>
+                </div>
+
+                {successMessage && (
+                    <div className="p-3 bg-green-900/50 border border-green-700 text-green-300 text-sm rounded-lg text-center">
+                        {successMessage}
+                    </div>
+                )}
+
+                <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+                    <div>
+                        <label htmlFor="identifier" className="sr-only">Email, Username, or LRN</label>
+                        <input
+                            id="identifier"
+                            name="identifier"
+                            type="text"
+                            autoComplete="username"
+                            required
+                            value={identifier}
+                            onChange={(e) => setIdentifier(e.target.value)}
+                            className="appearance-none rounded-lg relative block w-full px-3 py-3 border border-slate-600 bg-slate-700 text-white placeholder-slate-400 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 focus:z-10 sm:text-sm"
+                            placeholder="Email, Username, or LRN"
+                        />
+                    </div>
+
+                    {error && (
+                        <p className="text-center text-sm text-red-400 animate-in fade-in-0">{error}</p>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={isLoading || !identifier}
+                        className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isLoading ? <IconLoader className="h-5 w-5" /> : 'Send Reset Link'}
+                    </button>
+                </form>
+                <p className="text-center text-sm text-slate-400">
+                    Remembered it?{' '}
+                    <Link href="/login" legacyBehavior>
+                      <a className="font-medium text-emerald-400 hover:text-emerald-300">
+                        Back to Sign In
+                      </a>
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default ForgotPasswordPage;
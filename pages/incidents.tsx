@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { useInventory } from '../context/InventoryContext';
+import { useAuth } from '../context/AuthContext';
+import { Modal } from '../components/Modal';
+import { IncidentStatusBadge } from '../components/IncidentStatusBadge';
+import { Incident, IncidentStatus } from '../types';
+import { formatCost, getOutstandingCost, isUnresolvedIncident } from '../services/incidentService';
+
+type IncidentWithDetails = Incident & {
+    itemName: string;
+    userName: string;
+    reporterName: string;
+};
+
+type Resolution = IncidentStatus.PAID | IncidentStatus.WAIVED;
+
+const Incidents: React.FC = () => {
+    const { state, resolveIncident } = useInventory();
+    const { currentUser } = useAuth();
+    const [activeTab, setActiveTab] = useState<'pending' | 'resolved'>('pending');
+    const [incidentToResolve, setIncidentToResolve] = useState<IncidentWithDetails | null>(null);
+    const [resolution, setResolution] = useState<Resolution>(IncidentStatus.PAID);
+    const [resolutionNotes, setResolutionNotes] = useState('');
+    const [photoToView, setPhotoToView] = useState<string | null>(null);
+
+    const { pendingIncidents, resolvedIncidents } = useMemo(() => {
+        const incidents: IncidentWithDetails[] = state.incidents
+            .map(incident => ({
+                ...incident,
+                itemName: state.items.find(i => i.id === incident.itemId)?.name || 'Unknown Item',
+                userName: state.userDirectory.find(u => u.id === incident.userId)?.fullName || 'Unknown User',
+                reporterName: state.userDirectory.find(u => u.id === incident.reportedBy)?.fullName || 'Unknown User',
+            }))
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        return {
+            pendingIncidents: incidents.filter(isUnresolvedIncident),
+            resolvedIncidents: incidents.filter(incident => !isUnresolvedIncident(incident)),
+        };
+    }, [state.incidents, state.items, state.userDirectory]);
+
+    const openResolveModal = (incident: IncidentWithDetails, status: Resolution) => {
+        setIncidentToResolve(incident);
+        setResolution(status);
+        setResolutionNotes('');
+    };
+
+    const handleResolveSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!incidentToResolve || !currentUser) return;
+        try {
+            await resolveIncident({ incidentId: incidentToResolve.id, status: resolution, resolutionNotes });
+            setIncidentToResolve(null);
+        } catch (error: any) {
+            alert(`Failed to resolve incident: ${error.message}`);
+        }
+    };
+
+    const incidents = activeTab === 'pending' ? pendingIncidents : resolvedIncidents;
+
+    return (
+        <div className="p-4 md:p-8">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                <h1 className="text-3xl font-bold text-white">Damage & Loss Incidents</h1>
+                <p className="text-sm text-slate-400">Outstanding replacement cost: <strong className="text-white">{formatCost(getOutstandingCost(pendingIncidents))}</strong></p>
+            </div>
+
+            <div className="border-b border-slate-700 mb-6">
+                <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+                    <button onClick={() => setActiveTab('pending')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'pending' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
+                        Pending ({pendingIncidents.length})
+                    </button>
+                    <button onClick={() => setActiveTab('resolved')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'resolved' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
+                        Resolved ({resolvedIncidents.length})
+                    </button>
+                </nav>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Item Name</th>
+                                <th scope="col" className="px-6 py-3">Borrower</th>
+                                <th scope="col" className="px-6 py-3">Description</th>
+                                <th scope="col" className="px-6 py-3">Photos</th>
+                                <th scope="col" className="px-6 py-3">Cost</th>
+                                <th scope="col" className="px-6 py-3">Reported</th>
+                                <th scope="col" className="px-6 py-3">Status</th>
+                                {activeTab === 'pending' && <th scope="col" className="px-6 py-3 text-center">Actions</th>}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {incidents.map(incident => (
+                                <tr key={incident.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors">
+                                    <td className="px-6 py-4 font-medium text-white whitespace-nowrap">{incident.itemName}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap">{incident.userName}</td>
+                                    <td className="px-6 py-4 min-w-[16rem]">
+                                        {incident.description}
+                                        {incident.resolutionNotes && <span className="block text-xs text-slate-400 mt-1">Resolution: {incident.resolutionNotes}</span>}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <div className="flex gap-1">
+                                            {incident.photoUrls.map((url, index) => (
+                                                <button key={index} onClick={() => setPhotoToView(url)} aria-label={`View photo ${index + 1}`}>
+                                                    <img src={url} alt={`Incident photo ${index + 1}`} className="h-10 w-10 object-cover rounded border border-slate-600 hover:border-emerald-500" />
+                                                </button>
+                                            ))}
+                                            {incident.photoUrls.length === 0 && <span className="text-slate-500">—</span>}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 font-mono whitespace-nowrap">{formatCost(incident.replacementCost)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        {new Date(incident.timestamp).toLocaleDateString()}
+                                        <span className="block text-xs text-slate-400">by {incident.reporterName}</span>
+                                    </td>
+                                    <td className="px-6 py-4"><IncidentStatusBadge status={incident.status} /></td>
+                                    {activeTab === 'pending' && (
+                                        <td className="px-6 py-4 text-center">
+                                            <div className="flex justify-center gap-2">
+                                                <button onClick={() => openResolveModal(incident, IncidentStatus.PAID)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold whitespace-nowrap">Mark Paid</button>
+                                                <button onClick={() => openResolveModal(incident, IncidentStatus.WAIVED)} className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded-md text-sm font-semibold">Waive</button>
+                                            </div>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                            {incidents.length === 0 && (
+                                <tr>
+                                    <td colSpan={activeTab === 'pending' ? 8 : 7} className="text-center py-8 text-slate-400">
+                                        {activeTab === 'pending' ? 'No incidents are awaiting resolution.' : 'No incidents have been resolved yet.'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <Modal isOpen={!!incidentToResolve} onClose={() => setIncidentToResolve(null)} title={resolution === IncidentStatus.PAID ? 'Mark Incident as Paid' : 'Waive Incident'}>
+                {incidentToResolve && (
+                    <form onSubmit={handleResolveSubmit} className="space-y-4">
+                        <p>
+                            {resolution === IncidentStatus.PAID ? 'Confirm that' : 'Waive the charge so that'} <strong className="text-white">{incidentToResolve.userName}</strong>
+                            {resolution === IncidentStatus.PAID ? ' has paid ' : ' no longer owes '}
+                            <strong className="text-white">{formatCost(incidentToResolve.replacementCost)}</strong> for the {incidentToResolve.itemName}.
+                        </p>
+                        <div>
+                            <label htmlFor="resolutionNotes" className="block mb-2 text-sm font-medium text-slate-300">Notes (optional)</label>
+                            <textarea id="resolutionNotes" value={resolutionNotes} onChange={e => setResolutionNotes(e.target.value)} placeholder={resolution === IncidentStatus.PAID ? 'e.g., Paid in cash, OR #1234' : 'e.g., Item was already worn out'} rows={3} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                        </div>
+                        <div className="flex justify-end gap-3 pt-4">
+                            <button type="button" onClick={() => setIncidentToResolve(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                            <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Confirm</button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!photoToView} onClose={() => setPhotoToView(null)} title="Incident Photo">
+                {photoToView && <img src={photoToView} alt="Incident" className="w-full rounded-lg" />}
+            </Modal>
+        </div>
+    );
+};
+
+export default Incidents;
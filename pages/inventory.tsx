@@ -1,14 +1,37 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useInventory } from '../context/InventoryContext';
 import { Modal } from '../components/Modal';
-import { Item, LogAction, LogStatus } from '../types';
-import { IconPlusCircle, IconPrinter, IconPencil, IconTrash, IconQrcode, IconDownload, IconChevronUp, IconChevronDown, IconChevronsUpDown, IconOliveBranch } from '../components/icons';
+import { AssetUnit, AssetUnitStatus, ChemicalDetails, Item, ItemKind, LogAction, LogStatus, UnitOfMeasure } from '../types';
+import { IconPlusCircle, IconPrinter, IconPencil, IconTrash, IconArchive, IconQrcode, IconDownload, IconChevronUp, IconChevronDown, IconChevronsUpDown, IconOliveBranch, IconCalendar } from '../components/icons';
 import { useAuth } from '../context/AuthContext';
 import { UserSearchInput } from '../components/UserSearchInput';
 import QRCode from 'qrcode';
 import { createRoot } from 'react-dom/client';
 import { ITEM_CATEGORIES } from '../constants';
 import { useSettings } from '../context/SettingsContext';
+import { ReservationCalendar } from '../components/ReservationCalendar';
+import { StockLedgerModal } from '../components/StockLedgerModal';
+import { ItemLocationsModal } from '../components/ItemLocationsModal';
+import { findReservationConflict } from '../services/reservationService';
+import { can } from '../services/permissionService';
+import { isArchived } from '../services/archiveService';
+import { UNITS_OF_MEASURE, formatQuantity, isConsumable } from '../services/consumableService';
+import { needsReorder } from '../services/stockService';
+import { getExpiryStatus, isChemical } from '../services/chemicalService';
+import { ChemicalFields } from '../components/ChemicalFields';
+import { ExpiryBadge, HazardPictograms, HazardWarning } from '../components/ChemicalBadges';
+import { formatLocationPath } from '../services/locationService';
+
+const emptyReservationForm = { quantity: 1, date: '', startTime: '14:00', endTime: '16:00', purpose: '' };
+
+// Combines the date and time inputs of the reservation form into an ISO timestamp.
+const toIsoDateTime = (date: string, time: string): string => {
+    const value = new Date(`${date}T${time}`);
+    return isNaN(value.getTime()) ? '' : value.toISOString();
+};
+
+// The table columns that can be sorted; availability sorts by the share of stock still on the shelf
+type SortKey = 'name' | 'category' | 'availability';
 
 const InventoryProgressBar: React.FC<{ available: number; total: number }> = ({ available, total }) => {
     const percentage = total > 0 ? (available / total) * 100 : 0;
@@ -22,7 +45,7 @@ const InventoryProgressBar: React.FC<{ available: number; total: number }> = ({
 };
 
 // New component for the QR Code Label
-const QrCodeLabel = React.forwardRef<HTMLCanvasElement, { item: Item }>(({ item }, ref) => {
+const QrCodeLabel = React.forwardRef<HTMLCanvasElement, { item: Item; unit?: AssetUnit | null; locationPaths?: string[] }>(({ item, unit, locationPaths }, ref) => {
     const { settings } = useSettings();
     return (
         <div className="bg-white text-black p-4 rounded-lg border-2 border-slate-300 w-64 flex flex-col items-center font-sans">
@@ -39,45 +62,122 @@ const QrCodeLabel = React.forwardRef<HTMLCanvasElement, { item: Item }>(({ item
             <canvas ref={ref} className="w-48 h-48"></canvas>
             <h3 className="mt-2 text-lg font-bold text-center break-words w-full">{item.name}</h3>
             <p className="text-sm text-slate-600">{item.category}</p>
+            {unit && <p className="text-sm font-mono text-slate-800">S/N {unit.serialNumber}</p>}
+            {locationPaths?.map(path => <p key={path} className="text-xs text-slate-600 text-center">{path}</p>)}
         </div>
     );
 });
 
 QrCodeLabel.displayName = 'QrCodeLabel';
 
+const unitStatusLabels: Record<AssetUnitStatus, string> = {
+    [AssetUnitStatus.AVAILABLE]: 'Available',
+    [AssetUnitStatus.ON_LOAN]: 'On Loan',
+    [AssetUnitStatus.MAINTENANCE]: 'Maintenance',
+    [AssetUnitStatus.RETIRED]: 'Retired',
+};
+
+const emptyUnitForm = { serialNumber: '', notes: '' };
+
+const emptyAddForm = {
+    name: '',
+    totalQuantity: 10,
+    category: ITEM_CATEGORIES[0],
+    isSerialized: false,
+    kind: 'returnable' as ItemKind,
+    unit: 'pcs' as UnitOfMeasure,
+    reorderThreshold: undefined as number | undefined,
+    chemical: undefined as ChemicalDetails | undefined,
+};
+
+type StockKeeping = Pick<Item, 'kind' | 'unit' | 'reorderThreshold'>;
+
+// Kind, unit and reorder threshold, shared by the add and edit forms. Serialized items are
+// always returnable.
+const StockKeepingFields: React.FC<{ value: StockKeeping; onChange: (value: StockKeeping) => void; isSerialized?: boolean }> = ({ value, onChange, isSerialized }) => (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+            <label htmlFor="itemKind" className="block mb-2 text-sm font-medium text-slate-300">Kind</label>
+            <select id="itemKind" value={value.kind ?? 'returnable'} onChange={(e) => onChange({ ...value, kind: e.target.value as ItemKind })} disabled={isSerialized} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5 disabled:opacity-60">
+                <option value="returnable">Returnable</option>
+                <option value="consumable">Consumable</option>
+            </select>
+        </div>
+        <div>
+            <label htmlFor="itemUnit" className="block mb-2 text-sm font-medium text-slate-300">Unit</label>
+            <select id="itemUnit" value={value.unit ?? 'pcs'} onChange={(e) => onChange({ ...value, unit: e.target.value as UnitOfMeasure })} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5">
+                {(Object.keys(UNITS_OF_MEASURE) as UnitOfMeasure[]).map(unit => <option key={unit} value={unit}>{UNITS_OF_MEASURE[unit]}</option>)}
+            </select>
+        </div>
+        <div>
+            <label htmlFor="reorderThreshold" className="block mb-2 text-sm font-medium text-slate-300">Reorder At</label>
+            <input
+                type="number"
+                id="reorderThreshold"
+                min="0"
+                value={value.reorderThreshold ?? ''}
+                onChange={(e) => onChange({ ...value, reorderThreshold: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                placeholder="None"
+                className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+            />
+        </div>
+    </div>
+);
+
 const Inventory: React.FC = () => {
-  const { state, requestBorrowItem, addItem, editItem, deleteItem } = useInventory();
+  const { state, requestBorrowItem, requestBorrowBatch, createReservation, addItem, editItem, uploadSafetyDataSheet, archiveItem, restoreItem, addAssetUnit, updateAssetUnit } = useInventory();
   const { currentUser } = useAuth();
+  const canRequest = can(currentUser, 'loans.borrow') || can(currentUser, 'loans.lend');
   const [isBorrowModalOpen, setBorrowModalOpen] = useState(false);
   const [isAddModalOpen, setAddModalOpen] = useState(false);
   const [isEditModalOpen, setEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [isArchiveModalOpen, setArchiveModalOpen] = useState(false);
   const [isQrModalOpen, setQrModalOpen] = useState(false);
+  const [isReserveModalOpen, setReserveModalOpen] = useState(false);
+  const [reservationForm, setReservationForm] = useState(emptyReservationForm);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [cart, setCart] = useState<{ itemId: string; quantity: number }[]>([]);
+  const [isCartModalOpen, setCartModalOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [itemToEdit, setItemToEdit] = useState<Item | null>(null);
-  const [itemToDelete, setItemToDelete] = useState<Item | null>(null);
+  const [itemToArchive, setItemToArchive] = useState<Item | null>(null);
   const [itemForQr, setItemForQr] = useState<Item | null>(null);
+  const [unitForQr, setUnitForQr] = useState<AssetUnit | null>(null);
+  const [itemForUnits, setItemForUnits] = useState<Item | null>(null);
+  const [itemForStock, setItemForStock] = useState<Item | null>(null);
+  const [itemForLocations, setItemForLocations] = useState<Item | null>(null);
+  const [unitForm, setUnitForm] = useState(emptyUnitForm);
   const [borrowForm, setBorrowForm] = useState({ quantity: 1 });
   const [borrowerId, setBorrowerId] = useState('');
-  const [addForm, setAddForm] = useState({ name: '', totalQuantity: 10, category: ITEM_CATEGORIES[0] });
+  const [addForm, setAddForm] = useState(emptyAddForm);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
-  const [sortConfig, setSortConfig] = useState<{ key: keyof Item | 'availability'; direction: 'ascending' | 'descending' } | null>({ key: 'name', direction: 'ascending' });
-  const [borrowedCount, setBorrowedCount] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
+  const [expiryFilter, setExpiryFilter] = useState<'all' | 'expiring' | 'expired'>('all');
+  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'ascending' | 'descending' } | null>({ key: 'name', direction: 'ascending' });
   const qrCanvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
     if (isQrModalOpen && itemForQr && qrCanvasRef.current) {
-        const dataToEncode = JSON.stringify({ id: itemForQr.id, name: itemForQr.name });
+        const dataToEncode = JSON.stringify(unitForQr
+            ? { id: itemForQr.id, name: itemForQr.name, unitId: unitForQr.id, serial: unitForQr.serialNumber }
+            : { id: itemForQr.id, name: itemForQr.name });
         QRCode.toCanvas(qrCanvasRef.current, dataToEncode, { width: 256, margin: 2 }, (error) => {
             if (error) console.error('QR Code generation failed:', error);
         });
     }
-  }, [isQrModalOpen, itemForQr]);
+  }, [isQrModalOpen, itemForQr, unitForQr]);
+
+  const unitsForItem = useMemo(() => {
+    if (!itemForUnits) return [];
+    return state.assetUnits
+        .filter(u => u.itemId === itemForUnits.id)
+        .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+  }, [itemForUnits, state.assetUnits]);
 
   const categories = useMemo(() => ['all', ...ITEM_CATEGORIES], []);
 
-  const requestSort = (key: keyof Item | 'availability') => {
+  const requestSort = (key: SortKey) => {
     let direction: 'ascending' | 'descending' = 'ascending';
     if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
         direction = 'descending';
@@ -85,7 +185,7 @@ const Inventory: React.FC = () => {
     setSortConfig({ key, direction });
   };
 
-  const getSortIcon = (key: keyof Item | 'availability') => {
+  const getSortIcon = (key: SortKey) => {
     if (!sortConfig || sortConfig.key !== key) {
         return <IconChevronsUpDown />;
     }
@@ -96,12 +196,12 @@ const Inventory: React.FC = () => {
   };
 
   const itemHasOutstandingLoans = useMemo(() => {
-    if (!itemToDelete) return false;
+    if (!itemToArchive) return false;
     // An item has outstanding loans if there's any BORROW log for it with an APPROVED status.
     return state.logs.some(
-        log => log.itemId === itemToDelete.id && log.action === LogAction.BORROW && log.status === LogStatus.APPROVED
+        log => log.itemId === itemToArchive.id && log.action === LogAction.BORROW && log.status === LogStatus.APPROVED
     );
-  }, [itemToDelete, state.logs]);
+  }, [itemToArchive, state.logs]);
 
   const handleOpenBorrowModal = (item: Item) => {
     setSelectedItem(item);
@@ -129,22 +229,107 @@ const Inventory: React.FC = () => {
     }
   };
 
+  const handleAddToCart = (item: Item) => {
+    setCart(prev => prev.some(line => line.itemId === item.id)
+        ? prev
+        : [...prev, { itemId: item.id, quantity: 1 }]);
+  };
+
+  const updateCartQuantity = (itemId: string, quantity: number) => {
+    setCart(prev => prev.map(line => line.itemId === itemId ? { ...line, quantity } : line));
+  };
+
+  const removeFromCart = (itemId: string) => {
+    setCart(prev => prev.filter(line => line.itemId !== itemId));
+  };
+
+  const cartLines = useMemo(() => cart.map(line => ({
+    ...line,
+    item: state.items.find(i => i.id === line.itemId),
+  })), [cart, state.items]);
+
+  const isCartValid = cartLines.length > 0 && cartLines.every(line => line.item && line.quantity > 0 && line.quantity <= line.item.availableQuantity);
+
+  const handleOpenCartModal = () => {
+    if (currentUser) {
+        setBorrowerId(currentUser.id);
+    }
+    setCartModalOpen(true);
+  };
+
+  const handleCartSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (borrowerId && isCartValid) {
+      try {
+        await requestBorrowBatch({ userId: borrowerId, lines: cart });
+        setCart([]);
+        setCartModalOpen(false);
+        alert('Borrow request submitted successfully!');
+      } catch (error: any) {
+        alert(`Failed to submit request: ${error.message}`);
+      }
+    }
+  };
+
+  const handleOpenReserveModal = (item: Item) => {
+    setSelectedItem(item);
+    setReservationForm(emptyReservationForm);
+    if (currentUser) {
+        setBorrowerId(currentUser.id);
+    }
+    setReserveModalOpen(true);
+  };
+
+  const reservationWindow = useMemo(() => ({
+    startTime: toIsoDateTime(reservationForm.date, reservationForm.startTime),
+    endTime: toIsoDateTime(reservationForm.date, reservationForm.endTime),
+  }), [reservationForm.date, reservationForm.startTime, reservationForm.endTime]);
+
+  const reservationConflict = useMemo(() => {
+    if (!selectedItem || !reservationForm.date) return null;
+    return findReservationConflict({ item: selectedItem, quantity: reservationForm.quantity, ...reservationWindow }, state.reservations, state.logs);
+  }, [selectedItem, reservationForm.date, reservationForm.quantity, reservationWindow, state.reservations, state.logs]);
+
+  const handleReserveSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedItem && borrowerId && reservationForm.quantity > 0 && !reservationConflict) {
+      try {
+        await createReservation({
+          itemId: selectedItem.id,
+          userId: borrowerId,
+          quantity: Number(reservationForm.quantity),
+          ...reservationWindow,
+          purpose: reservationForm.purpose.trim() || undefined,
+        });
+        setReserveModalOpen(false);
+        alert('Reservation submitted successfully!');
+      } catch (error: any) {
+        alert(`Failed to reserve: ${error.message}`);
+      }
+    }
+  };
+
   const handleAddSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if(addForm.name && addForm.totalQuantity > 0 && addForm.category) {
+    // Serialized items start empty; their quantity grows as units are registered.
+    if(addForm.name && (addForm.isSerialized || addForm.totalQuantity > 0) && addForm.category) {
         await addItem({
             name: addForm.name,
-            totalQuantity: Number(addForm.totalQuantity),
-            category: addForm.category
+            totalQuantity: addForm.isSerialized ? 0 : Number(addForm.totalQuantity),
+            category: addForm.category,
+            isSerialized: addForm.isSerialized,
+            kind: addForm.kind,
+            unit: addForm.unit,
+            reorderThreshold: addForm.reorderThreshold,
+            chemical: addForm.chemical,
         });
         setAddModalOpen(false);
-        setAddForm({ name: '', totalQuantity: 10, category: ITEM_CATEGORIES[0] });
+        setAddForm(emptyAddForm);
     }
   };
 
   const handleOpenEditModal = (item: Item) => {
     setItemToEdit(item);
-    setBorrowedCount(item.totalQuantity - item.availableQuantity);
     setEditModalOpen(true);
   };
 
@@ -165,36 +350,67 @@ const Inventory: React.FC = () => {
     }
   };
 
-  const handleOpenDeleteModal = (item: Item) => {
-    setItemToDelete(item);
-    setDeleteModalOpen(true);
+  const handleOpenArchiveModal = (item: Item) => {
+    setItemToArchive(item);
+    setArchiveModalOpen(true);
   };
 
-  const handleCloseDeleteModal = () => {
-    setItemToDelete(null);
-    setDeleteModalOpen(false);
+  const handleCloseArchiveModal = () => {
+    setItemToArchive(null);
+    setArchiveModalOpen(false);
   };
 
-  const handleDeleteConfirm = async () => {
-    if (itemToDelete) {
+  const handleArchiveConfirm = async () => {
+    if (itemToArchive) {
       try {
-        await deleteItem(itemToDelete.id);
-        handleCloseDeleteModal();
+        await archiveItem(itemToArchive.id);
+        removeFromCart(itemToArchive.id);
+        handleCloseArchiveModal();
       } catch (error: any) {
         alert(error.message); 
       }
     }
   };
 
-  const handleOpenQrModal = (item: Item) => {
+  const handleRestore = async (item: Item) => {
+    try {
+      await restoreItem(item.id);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleOpenQrModal = (item: Item, unit: AssetUnit | null = null) => {
     setItemForQr(item);
+    setUnitForQr(unit);
     setQrModalOpen(true);
   };
 
+  const handleAddUnitSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!itemForUnits || !unitForm.serialNumber.trim()) return;
+    try {
+        await addAssetUnit({ itemId: itemForUnits.id, serialNumber: unitForm.serialNumber.trim(), notes: unitForm.notes.trim() || undefined });
+        setUnitForm(emptyUnitForm);
+    } catch (error: any) {
+        alert(`Failed to add unit: ${error.message}`);
+    }
+  };
+
+  const handleUnitStatusChange = async (unit: AssetUnit, status: AssetUnitStatus) => {
+    try {
+        await updateAssetUnit({ ...unit, status });
+    } catch (error: any) {
+        alert(`Failed to update unit: ${error.message}`);
+    }
+  };
+
+  const qrLocationPaths = (itemForQr?.locations ?? []).map(l => formatLocationPath(l.locationId, state.locations));
+
   const handlePrintQr = () => {
       const printArea = document.getElementById('qr-print-area');
       if (itemForQr && printArea) {
-        const PrintContent = () => <QrCodeLabel item={itemForQr} />;
+        const PrintContent = () => <QrCodeLabel item={itemForQr} unit={unitForQr} locationPaths={qrLocationPaths} />;
         
         const root = createRoot(printArea);
         root.render(<PrintContent />);
@@ -213,14 +429,16 @@ const Inventory: React.FC = () => {
   const handleDownloadQr = () => {
     if (qrCanvasRef.current && itemForQr) {
         const link = document.createElement('a');
-        link.download = `qr-${itemForQr.name.replace(/\s+/g, '-')}.png`;
+        const suffix = unitForQr ? `-${unitForQr.serialNumber}` : '';
+        link.download = `qr-${itemForQr.name.replace(/\s+/g, '-')}${suffix.replace(/\s+/g, '-')}.png`;
         link.href = qrCanvasRef.current.toDataURL('image/png');
         link.click();
     }
   };
   
   const sortedAndFilteredItems = useMemo(() => {
-    let filterableItems = [...state.items];
+    // Archived items are only listed in the Archived view
+    let filterableItems = state.items.filter(item => isArchived(item) === showArchived);
 
     // Filter by search term
     if (searchTerm) {
@@ -233,6 +451,10 @@ const Inventory: React.FC = () => {
     if (categoryFilter !== 'all') {
         filterableItems = filterableItems.filter(item => item.category === categoryFilter);
     }
+
+    if (expiryFilter !== 'all') {
+        filterableItems = filterableItems.filter(item => getExpiryStatus(item) === expiryFilter);
+    }
     
     // Sort
     if (sortConfig !== null) {
@@ -244,8 +466,8 @@ const Inventory: React.FC = () => {
                 aValue = a.totalQuantity > 0 ? a.availableQuantity / a.totalQuantity : 0;
                 bValue = b.totalQuantity > 0 ? b.availableQuantity / b.totalQuantity : 0;
             } else {
-                aValue = a[sortConfig.key as keyof Item];
-                bValue = b[sortConfig.key as keyof Item];
+                aValue = a[sortConfig.key];
+                bValue = b[sortConfig.key];
             }
             
             if (typeof aValue === 'string' && typeof bValue === 'string') {
@@ -264,7 +486,18 @@ const Inventory: React.FC = () => {
     }
 
     return filterableItems;
-  }, [state.items, searchTerm, categoryFilter, sortConfig]);
+  }, [state.items, searchTerm, categoryFilter, expiryFilter, sortConfig, showArchived]);
+
+  const expiryCounts = useMemo(() => {
+    const chemicals = state.items.filter(item => !isArchived(item) && isChemical(item));
+    return {
+        expiring: chemicals.filter(item => getExpiryStatus(item) === 'expiring').length,
+        expired: chemicals.filter(item => getExpiryStatus(item) === 'expired').length,
+    };
+  }, [state.items]);
+
+  // Whoever the request is for: the chosen borrower when lending, otherwise the current user
+  const borrower = state.users.find(u => u.id === borrowerId) ?? (borrowerId === currentUser?.id ? currentUser : null);
 
   return (
     <div className="p-4 md:p-8">
@@ -278,7 +511,19 @@ const Inventory: React.FC = () => {
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
             />
-            {currentUser?.isAdmin && (
+            <button
+                onClick={() => setView(v => v === 'list' ? 'calendar' : 'list')}
+                className="flex items-center justify-center px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors"
+            >
+                <IconCalendar />
+                <span>{view === 'list' ? 'Reservations' : 'Item List'}</span>
+            </button>
+            {cart.length > 0 && (
+                <button onClick={handleOpenCartModal} className="flex items-center justify-center bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-blue-700 transition-colors">
+                    <span>Cart ({cart.length})</span>
+                </button>
+            )}
+            {can(currentUser, 'items.manage') && (
                 <button onClick={() => setAddModalOpen(true)} className="flex items-center justify-center bg-emerald-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-emerald-700 transition-colors">
                     <IconPlusCircle />
                     <span>Add Item</span>
@@ -294,6 +539,10 @@ const Inventory: React.FC = () => {
         </div>
       </div>
 
+      {view === 'calendar' ? (
+        <ReservationCalendar />
+      ) : (
+      <>
       <div className="flex flex-wrap items-center gap-2 mb-6 button-print-hide">
           <span className="text-sm font-medium text-slate-400 mr-2">Filter by Category:</span>
           {categories.map(cat => (
@@ -309,6 +558,32 @@ const Inventory: React.FC = () => {
                   {cat === 'all' ? 'All Categories' : cat}
               </button>
           ))}
+          {(['expiring', 'expired'] as const).map(status => (
+              <button
+                  key={status}
+                  onClick={() => setExpiryFilter(f => f === status ? 'all' : status)}
+                  className={`${status === 'expiring' ? 'ml-auto ' : ''}px-3 py-1 text-sm font-medium rounded-full transition-colors ${
+                      expiryFilter === status
+                      ? (status === 'expired' ? 'bg-red-600' : 'bg-yellow-600') + ' text-white shadow-md'
+                      : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+              >
+                  {status === 'expired' ? 'Expired' : 'Expiring Soon'} ({expiryCounts[status]})
+              </button>
+          ))}
+          {can(currentUser, 'items.manage') && (
+              <button
+                  onClick={() => setShowArchived(v => !v)}
+                  className={`flex items-center gap-1 px-3 py-1 text-sm font-medium rounded-full transition-colors ${
+                      showArchived
+                      ? 'bg-amber-600 text-white shadow-md'
+                      : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+              >
+                  <IconArchive />
+                  <span>{showArchived ? 'Showing Archived' : 'Archived'}</span>
+              </button>
+          )}
       </div>
 
 
@@ -335,7 +610,7 @@ const Inventory: React.FC = () => {
                                 <span className="opacity-50 group-hover:opacity-100 transition-opacity">{getSortIcon('availability')}</span>
                             </button>
                         </th>
-                        {currentUser?.isAdmin && (
+                        {can(currentUser, 'items.manage') && (
                             <th scope="col" className="px-6 py-3 text-center button-print-hide">QR Code</th>
                         )}
                         <th scope="col" className="px-6 py-3 text-center button-print-hide">Actions</th>
@@ -344,15 +619,32 @@ const Inventory: React.FC = () => {
                 <tbody>
                     {sortedAndFilteredItems.map(item => (
                         <tr key={item.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
-                            <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">{item.name}</td>
+                            <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">
+                                {item.name}
+                                {item.isSerialized && <span className="ml-2 px-2 py-1 text-xs rounded-full bg-slate-700 text-slate-300">Serialized</span>}
+                                {isConsumable(item) && <span className="ml-2 px-2 py-1 text-xs rounded-full bg-purple-900 text-purple-300">Consumable</span>}
+                                {!isArchived(item) && needsReorder(item) && <span title={`Reorder at ${formatQuantity(item.reorderThreshold!, item)}`} className="ml-2 px-2 py-1 text-xs rounded-full bg-red-900 text-red-300">Reorder</span>}
+                                {item.archivedAt && <p className="text-xs font-normal text-slate-400">Archived {new Date(item.archivedAt).toLocaleDateString()}</p>}
+                                {item.chemical && (
+                                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs font-normal text-slate-400">
+                                        <HazardPictograms item={item} />
+                                        <ExpiryBadge item={item} />
+                                        {[item.chemical.casNumber && `CAS ${item.chemical.casNumber}`, item.chemical.lotNumber && `Lot ${item.chemical.lotNumber}`, item.chemical.storageClass]
+                                            .filter(Boolean).join(' · ')}
+                                        {item.chemical.safetyDataSheet && (
+                                            <a href={item.chemical.safetyDataSheet.url} target="_blank" rel="noopener noreferrer" className="text-emerald-400 hover:text-emerald-300 underline button-print-hide">SDS</a>
+                                        )}
+                                    </div>
+                                )}
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap">{item.category}</td>
                             <td className="px-6 py-4">
                                 <div className="flex items-center gap-3 min-w-[200px]">
-                                    <span className="font-mono text-sm whitespace-nowrap">{item.availableQuantity} / {item.totalQuantity}</span>
+                                    <span className="font-mono text-sm whitespace-nowrap">{item.availableQuantity} / {formatQuantity(item.totalQuantity, item)}</span>
                                     <InventoryProgressBar available={item.availableQuantity} total={item.totalQuantity} />
                                 </div>
                             </td>
-                            {currentUser?.isAdmin && (
+                            {can(currentUser, 'items.manage') && (
                                 <td className="px-6 py-4 text-center button-print-hide">
                                     <button onClick={() => handleOpenQrModal(item)} title="Show QR Code" className="p-2 text-slate-400 hover:text-emerald-400">
                                         <IconQrcode />
@@ -360,38 +652,69 @@ const Inventory: React.FC = () => {
                                 </td>
                             )}
                             <td className="px-6 py-4 text-center button-print-hide">
+                                {isArchived(item) ? (
+                                    <button onClick={() => handleRestore(item)} className="font-medium text-emerald-400 hover:text-emerald-300 transition-colors">Restore</button>
+                                ) : (
                                 <div className="flex items-center justify-center gap-2">
                                      <button
                                         onClick={() => handleOpenBorrowModal(item)}
-                                        disabled={item.availableQuantity === 0}
+                                        disabled={!canRequest || item.availableQuantity === 0}
                                         className="font-medium text-emerald-400 hover:text-emerald-300 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
                                     >
                                         Request
                                     </button>
-                                    {currentUser?.isAdmin && (
+                                    <span className="text-slate-600">|</span>
+                                    <button
+                                        onClick={() => handleOpenReserveModal(item)}
+                                        disabled={!canRequest || item.availableQuantity === 0 || isConsumable(item)}
+                                        title={isConsumable(item) ? 'Consumables are requested, not reserved' : undefined}
+                                        className="font-medium text-blue-400 hover:text-blue-300 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        Reserve
+                                    </button>
+                                    <span className="text-slate-600">|</span>
+                                    <button
+                                        onClick={() => handleAddToCart(item)}
+                                        disabled={!canRequest || item.availableQuantity === 0 || cart.some(line => line.itemId === item.id)}
+                                        title="Add to a multi-item request"
+                                        className="font-medium text-slate-300 hover:text-white disabled:text-slate-500 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                                    >
+                                        + Cart
+                                    </button>
+                                    {can(currentUser, 'items.manage') && (
                                         <>
                                             <span className="text-slate-600">|</span>
+                                            {item.isSerialized && (
+                                                <button onClick={() => { setUnitForm(emptyUnitForm); setItemForUnits(item); }} title="Manage Units" className="font-medium text-slate-300 hover:text-white transition-colors">Units</button>
+                                            )}
+                                            {!item.isSerialized && (
+                                                <button onClick={() => setItemForStock(item)} title="Stock Ledger" className="font-medium text-slate-300 hover:text-white transition-colors">Stock</button>
+                                            )}
+                                            <button onClick={() => setItemForLocations(item)} title="Storage Locations" className="font-medium text-slate-300 hover:text-white transition-colors">Locations</button>
                                             <button onClick={() => handleOpenEditModal(item)} title="Edit Item" className="p-2 text-slate-400 hover:text-blue-400"><IconPencil /></button>
-                                            <button onClick={() => handleOpenDeleteModal(item)} title="Delete Item" className="p-2 text-slate-400 hover:text-red-400"><IconTrash /></button>
+                                            <button onClick={() => handleOpenArchiveModal(item)} title="Archive Item" className="p-2 text-slate-400 hover:text-amber-400"><IconArchive /></button>
                                         </>
                                     )}
                                 </div>
+                                )}
                             </td>
                         </tr>
                     ))}
                     {sortedAndFilteredItems.length === 0 && (
                         <tr>
-                            <td colSpan={currentUser?.isAdmin ? 5 : 4} className="text-center py-8 text-slate-400 print-text-black">No items match your search or filter.</td>
+                            <td colSpan={can(currentUser, 'items.manage') ? 5 : 4} className="text-center py-8 text-slate-400 print-text-black">{showArchived ? 'No archived items match your search or filter.' : 'No items match your search or filter.'}</td>
                         </tr>
                     )}
                 </tbody>
             </table>
         </div>
       </div>
+      </>
+      )}
       
-      <Modal isOpen={isBorrowModalOpen} onClose={() => setBorrowModalOpen(false)} title={`Request to Borrow: ${selectedItem?.name}`}>
+      <Modal isOpen={isBorrowModalOpen} onClose={() => setBorrowModalOpen(false)} title={`${isConsumable(selectedItem ?? undefined) ? 'Request' : 'Request to Borrow'}: ${selectedItem?.name}`}>
         <form onSubmit={handleBorrowSubmit} className="space-y-4">
-            {currentUser?.isAdmin ? (
+            {can(currentUser, 'loans.lend') ? (
                 <UserSearchInput selectedUserId={borrowerId} onUserSelect={setBorrowerId} />
             ) : (
                  <div>
@@ -402,9 +725,16 @@ const Inventory: React.FC = () => {
                 </div>
             )}
           <div>
-            <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity</label>
+            <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity ({selectedItem?.unit ?? 'pcs'})</label>
             <input type="number" id="quantity" value={borrowForm.quantity} onChange={(e) => setBorrowForm({ quantity: parseInt(e.target.value, 10)})} min="1" max={selectedItem?.availableQuantity} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
           </div>
+          {isConsumable(selectedItem ?? undefined) && (
+            <p className="text-xs text-slate-400">This is a consumable. Once approved it is issued to you and does not need to be returned.</p>
+          )}
+          <HazardWarning items={[selectedItem ?? undefined]} borrower={borrower} />
+          {selectedItem && getExpiryStatus(selectedItem) === 'expired' && (
+            <p className="text-sm text-yellow-400">This chemical is past its expiry date.</p>
+          )}
           <div className="flex justify-end gap-3 pt-4">
             <button type="button" onClick={() => setBorrowModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
             <button type="submit" disabled={!borrowerId} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Submit Request</button>
@@ -412,16 +742,109 @@ const Inventory: React.FC = () => {
         </form>
       </Modal>
 
+      <Modal isOpen={isCartModalOpen} onClose={() => setCartModalOpen(false)} title="Borrow Cart">
+        <form onSubmit={handleCartSubmit} className="space-y-4">
+            {can(currentUser, 'loans.lend') ? (
+                <UserSearchInput selectedUserId={borrowerId} onUserSelect={setBorrowerId} />
+            ) : (
+                 <div>
+                    <label className="block mb-2 text-sm font-medium text-slate-300">Borrower</label>
+                    <div className="flex items-center justify-between bg-slate-700/50 border border-slate-600 rounded-lg p-2.5">
+                        <span className="text-white">{currentUser?.fullName} ({currentUser?.username})</span>
+                    </div>
+                </div>
+            )}
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+                {cartLines.map(line => (
+                    <div key={line.itemId} className="flex items-center gap-3 bg-slate-700/50 border border-slate-600 rounded-lg p-2.5">
+                        <span className="flex-grow text-white truncate">{line.item?.name || 'Unknown Item'}</span>
+                        <span className="text-xs text-slate-400 whitespace-nowrap">{formatQuantity(line.item?.availableQuantity ?? 0, line.item)} available</span>
+                        <input
+                            type="number"
+                            aria-label={`Quantity of ${line.item?.name}`}
+                            value={line.quantity}
+                            onChange={(e) => updateCartQuantity(line.itemId, parseInt(e.target.value, 10) || 0)}
+                            min="1"
+                            max={line.item?.availableQuantity}
+                            className="w-20 bg-slate-700 border border-slate-600 rounded-lg p-1.5"
+                            required
+                        />
+                        <button type="button" onClick={() => removeFromCart(line.itemId)} title="Remove from cart" className="p-1 text-slate-400 hover:text-red-400"><IconTrash /></button>
+                    </div>
+                ))}
+                {cartLines.length === 0 && <p className="text-sm text-slate-400">Your cart is empty.</p>}
+            </div>
+            <HazardWarning items={cartLines.map(line => line.item)} borrower={borrower} />
+            <div className="flex justify-end gap-3 pt-4">
+                <button type="button" onClick={() => setCartModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Close</button>
+                <button type="submit" disabled={!borrowerId || !isCartValid} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Submit Request</button>
+            </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isReserveModalOpen} onClose={() => setReserveModalOpen(false)} title={`Reserve: ${selectedItem?.name}`}>
+        <form onSubmit={handleReserveSubmit} className="space-y-4">
+            {can(currentUser, 'loans.lend') ? (
+                <UserSearchInput selectedUserId={borrowerId} onUserSelect={setBorrowerId} />
+            ) : (
+                 <div>
+                    <label className="block mb-2 text-sm font-medium text-slate-300">Reserved For</label>
+                    <div className="flex items-center justify-between bg-slate-700/50 border border-slate-600 rounded-lg p-2.5">
+                        <span className="text-white">{currentUser?.fullName} ({currentUser?.username})</span>
+                    </div>
+                </div>
+            )}
+          <div>
+            <label htmlFor="reserveQuantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity</label>
+            <input type="number" id="reserveQuantity" value={reservationForm.quantity} onChange={(e) => setReservationForm(f => ({ ...f, quantity: parseInt(e.target.value, 10) || 0 }))} min="1" max={selectedItem?.availableQuantity} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" required />
+          </div>
+          <div>
+            <label htmlFor="reserveDate" className="block mb-2 text-sm font-medium text-slate-300">Date</label>
+            <input type="date" id="reserveDate" value={reservationForm.date} onChange={(e) => setReservationForm(f => ({ ...f, date: e.target.value }))} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" required />
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="w-full">
+                <label htmlFor="reserveStart" className="block mb-2 text-sm font-medium text-slate-300">From</label>
+                <input type="time" id="reserveStart" value={reservationForm.startTime} onChange={(e) => setReservationForm(f => ({ ...f, startTime: e.target.value }))} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" required />
+            </div>
+            <div className="w-full">
+                <label htmlFor="reserveEnd" className="block mb-2 text-sm font-medium text-slate-300">Until</label>
+                <input type="time" id="reserveEnd" value={reservationForm.endTime} onChange={(e) => setReservationForm(f => ({ ...f, endTime: e.target.value }))} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" required />
+            </div>
+          </div>
+          <textarea value={reservationForm.purpose} onChange={(e) => setReservationForm(f => ({ ...f, purpose: e.target.value }))} placeholder="Purpose (e.g., Grade 12 titration lab)" rows={2} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+          {reservationConflict && (
+            <div className="p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-lg">
+                {reservationConflict}
+            </div>
+          )}
+          <div className="flex justify-end gap-3 pt-4">
+            <button type="button" onClick={() => setReserveModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+            <button type="submit" disabled={!borrowerId || !!reservationConflict} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Reserve</button>
+          </div>
+        </form>
+      </Modal>
+
       <Modal isOpen={isAddModalOpen} onClose={() => setAddModalOpen(false)} title="Add New Item">
-        <form onSubmit={handleAddSubmit} className="space-y-4">
+        <form onSubmit={handleAddSubmit} className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
           <input type="text" value={addForm.name} onChange={(e) => setAddForm(f => ({ ...f, name: e.target.value }))} placeholder="Item Name" required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
           <select value={addForm.category} onChange={(e) => setAddForm(f => ({ ...f, category: e.target.value }))} required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" >
               {ITEM_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
           </select>
+          <StockKeepingFields value={addForm} onChange={(value) => setAddForm(f => ({ ...f, ...value }))} isSerialized={addForm.isSerialized} />
+          <ChemicalFields value={addForm.chemical} onChange={(chemical) => setAddForm(f => ({ ...f, chemical }))} />
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={addForm.isSerialized} disabled={isConsumable(addForm)} onChange={(e) => setAddForm(f => ({ ...f, isSerialized: e.target.checked }))} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />
+            Track individual units by serial number
+          </label>
+          {addForm.isSerialized ? (
+            <p className="text-xs text-slate-400">Register each unit from the item's Units screen after it is created.</p>
+          ) : (
           <div>
-            <label htmlFor="totalQuantity" className="block mb-2 text-sm font-medium text-slate-300">Total Quantity</label>
+            <label htmlFor="totalQuantity" className="block mb-2 text-sm font-medium text-slate-300">Opening Stock</label>
             <input type="number" id="totalQuantity" value={addForm.totalQuantity} onChange={(e) => setAddForm(f => ({ ...f, totalQuantity: parseInt(e.target.value, 10) || 0 }))} min="1" className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" required />
           </div>
+          )}
           <div className="flex justify-end gap-3 pt-4">
             <button type="button" onClick={() => setAddModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
             <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Add Item</button>
@@ -431,33 +854,25 @@ const Inventory: React.FC = () => {
 
        <Modal isOpen={isEditModalOpen} onClose={handleCloseEditModal} title="Edit Item">
          {itemToEdit && (
-            <form onSubmit={handleEditSubmit} className="space-y-4">
+            <form onSubmit={handleEditSubmit} className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
                 <input type="text" value={itemToEdit.name} onChange={(e) => setItemToEdit({ ...itemToEdit, name: e.target.value })} placeholder="Item Name" required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
                 <select value={itemToEdit.category} onChange={(e) => setItemToEdit({ ...itemToEdit, category: e.target.value })} required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5">
                     {ITEM_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
                 </select>
-                <div>
-                    <label htmlFor="totalQuantity" className="block mb-2 text-sm font-medium text-slate-300">Total Quantity</label>
-                    <input 
-                        type="number" 
-                        id="totalQuantity" 
-                        value={itemToEdit.totalQuantity} 
-                        onChange={(e) => {
-                            const newTotal = parseInt(e.target.value, 10);
-                            if (itemToEdit && !isNaN(newTotal)) {
-                                setItemToEdit({
-                                    ...itemToEdit,
-                                    totalQuantity: newTotal,
-                                    availableQuantity: newTotal - borrowedCount,
-                                });
-                            }
-                        }}
-                        min={borrowedCount} 
-                        className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" 
-                        required 
-                    />
-                    <p className="text-xs text-slate-400 mt-1">Cannot be lower than the amount currently borrowed ({borrowedCount}).</p>
-                </div>
+                <StockKeepingFields value={itemToEdit} onChange={(value) => setItemToEdit({ ...itemToEdit, ...value })} isSerialized={itemToEdit.isSerialized} />
+                <ChemicalFields
+                    value={itemToEdit.chemical}
+                    onChange={(chemical) => setItemToEdit({ ...itemToEdit, chemical })}
+                    onUploadSafetyDataSheet={async (file) => {
+                        const { chemical } = await uploadSafetyDataSheet(itemToEdit.id, file);
+                        setItemToEdit(prev => prev && prev.chemical ? { ...prev, chemical: { ...prev.chemical, safetyDataSheet: chemical?.safetyDataSheet } } : prev);
+                    }}
+                />
+                <p className="text-xs text-slate-400">
+                    {itemToEdit.isSerialized
+                        ? 'Quantity follows the registered units. Add or retire units from the Units screen.'
+                        : 'To change the quantity, record a stock adjustment from the Stock screen.'}
+                </p>
                 <div className="flex justify-end gap-3 pt-4">
                     <button type="button" onClick={handleCloseEditModal} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
                     <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Save Changes</button>
@@ -466,25 +881,29 @@ const Inventory: React.FC = () => {
          )}
       </Modal>
 
-      <Modal isOpen={isDeleteModalOpen} onClose={handleCloseDeleteModal} title="Confirm Deletion">
-        {itemToDelete && (
+      <StockLedgerModal item={itemForStock} onClose={() => setItemForStock(null)} />
+
+      <ItemLocationsModal item={itemForLocations} onClose={() => setItemForLocations(null)} />
+
+      <Modal isOpen={isArchiveModalOpen} onClose={handleCloseArchiveModal} title="Archive Item">
+        {itemToArchive && (
             <div>
-                <p className="text-slate-300">Are you sure you want to delete the item <strong className="text-white">{itemToDelete.name}</strong>?</p>
+                <p className="text-slate-300">Are you sure you want to archive the item <strong className="text-white">{itemToArchive.name}</strong>?</p>
                 {itemHasOutstandingLoans && (
                     <div className="mt-4 p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-lg">
-                        <strong>Warning:</strong> This item has outstanding loans. It cannot be deleted until all borrowed units are returned.
+                        <strong>Warning:</strong> This item has outstanding loans. It cannot be archived until all borrowed units are returned.
                     </div>
                 )}
-                <p className="text-xs text-slate-500 mt-2">This action is irreversible.</p>
+                <p className="text-xs text-slate-500 mt-2">Archived items can no longer be borrowed or reserved, but stay in the borrow history and reports. You can restore it from the Archived view.</p>
                 <div className="flex justify-end gap-3 pt-6">
-                    <button type="button" onClick={handleCloseDeleteModal} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                    <button type="button" onClick={handleCloseArchiveModal} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
                     <button 
                         type="button" 
-                        onClick={handleDeleteConfirm} 
+                        onClick={handleArchiveConfirm} 
                         disabled={itemHasOutstandingLoans}
-                        className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:bg-red-800 disabled:cursor-not-allowed disabled:text-slate-400"
+                        className="py-2 px-4 bg-amber-600 hover:bg-amber-700 rounded-lg transition-colors disabled:bg-amber-800 disabled:cursor-not-allowed disabled:text-slate-400"
                     >
-                        Confirm Delete
+                        Archive Item
                     </button>
                 </div>
             </div>
@@ -493,8 +912,8 @@ const Inventory: React.FC = () => {
     
     <Modal isOpen={isQrModalOpen} onClose={() => setQrModalOpen(false)} title={`QR Asset Tag for ${itemForQr?.name}`}>
         <div className="flex flex-col items-center justify-center space-y-4">
-            {itemForQr && <QrCodeLabel item={itemForQr} ref={qrCanvasRef} />}
-            <p className="text-slate-400 text-sm pt-2">Scan this code to quickly find this item.</p>
+            {itemForQr && <QrCodeLabel item={itemForQr} unit={unitForQr} locationPaths={qrLocationPaths} ref={qrCanvasRef} />}
+            <p className="text-slate-400 text-sm pt-2">Scan this code to quickly find this {unitForQr ? 'unit' : 'item'}.</p>
             <div className="flex w-full justify-center gap-4 pt-2">
                 <button onClick={handlePrintQr} className="flex items-center justify-center w-full py-2 px-4 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors">
                     <IconPrinter />
@@ -507,6 +926,52 @@ const Inventory: React.FC = () => {
             </div>
         </div>
     </Modal>
+
+    <Modal isOpen={!!itemForUnits} onClose={() => setItemForUnits(null)} title={`Units of ${itemForUnits?.name}`}>
+        <div className="space-y-4">
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+                {unitsForItem.map(unit => (
+                    <div key={unit.id} className="flex items-center justify-between gap-3 bg-slate-700/50 border border-slate-600 rounded-lg p-2 text-sm">
+                        <div className="min-w-0">
+                            <p className="font-mono text-white">{unit.serialNumber}</p>
+                            {unit.notes && <p className="text-xs text-slate-400 truncate">{unit.notes}</p>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {unit.status === AssetUnitStatus.ON_LOAN ? (
+                                <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-900 text-yellow-300">{unitStatusLabels[unit.status]}</span>
+                            ) : (
+                                <select
+                                    value={unit.status}
+                                    onChange={(e) => handleUnitStatusChange(unit, e.target.value as AssetUnitStatus)}
+                                    aria-label={`Status of ${unit.serialNumber}`}
+                                    className="bg-slate-700 border border-slate-600 rounded-lg p-1.5 text-xs"
+                                >
+                                    {/* On Loan is only set by approving a borrow request */}
+                                    {Object.values(AssetUnitStatus).filter(status => status !== AssetUnitStatus.ON_LOAN).map(status => (
+                                        <option key={status} value={status}>{unitStatusLabels[status]}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {itemForUnits && (
+                                <button onClick={() => { handleOpenQrModal(itemForUnits, unit); setItemForUnits(null); }} title="Show QR Code" className="p-1 text-slate-400 hover:text-emerald-400">
+                                    <IconQrcode />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {unitsForItem.length === 0 && <p className="text-sm text-slate-400">No units registered yet.</p>}
+            </div>
+            <form onSubmit={handleAddUnitSubmit} className="space-y-2 border-t border-slate-700 pt-4">
+                <input type="text" value={unitForm.serialNumber} onChange={(e) => setUnitForm(f => ({ ...f, serialNumber: e.target.value }))} placeholder="Serial Number" required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                <input type="text" value={unitForm.notes} onChange={(e) => setUnitForm(f => ({ ...f, notes: e.target.value }))} placeholder="Notes (optional)" className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                <div className="flex justify-end gap-3 pt-2">
+                    <button type="button" onClick={() => setItemForUnits(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Close</button>
+                    <button type="submit" disabled={!unitForm.serialNumber.trim()} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Add Unit</button>
+                </div>
+            </form>
+        </div>
+    </Modal>
     </div>
   );
 };
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import { createRoot } from 'react-dom/client';
+import { useInventory } from '../context/InventoryContext';
+import { useSettings } from '../context/SettingsContext';
+import { Modal } from '../components/Modal';
+import { IconDownload, IconMapPin, IconPencil, IconPlusCircle, IconPrinter, IconQrcode, IconTrash } from '../components/icons';
+import { LocationLevel, StorageLocation } from '../types';
+import {
+    LOCATION_LEVEL_LABELS,
+    formatLocationPath,
+    getChildLevel,
+    getChildLocations,
+    getItemsAtLocation,
+    toLocationQrData,
+} from '../services/locationService';
+import { formatQuantity } from '../services/consumableService';
+import { withoutArchived } from '../services/archiveService';
+
+type LocationForm =
+    | { mode: 'add'; parentId: string | null; level: LocationLevel; name: string }
+    | { mode: 'edit'; location: StorageLocation; name: string };
+
+// Takes everything as props: the printed copy is rendered outside the app's providers
+const LocationQrLabel: React.FC<{ location: StorageLocation; path: string; qrDataUrl: string; title: string }> = ({ location, path, qrDataUrl, title }) => (
+    <div className="bg-white text-black p-4 rounded-lg border-2 border-slate-300 w-64 flex flex-col items-center font-sans">
+        <h2 className="self-start font-bold text-sm text-slate-800 mb-2">{title} Location</h2>
+        {qrDataUrl && <img src={qrDataUrl} alt="" className="w-48 h-48" />}
+        <h3 className="mt-2 text-lg font-bold text-center break-words w-full">{location.name}</h3>
+        <p className="text-sm text-slate-600 text-center">{LOCATION_LEVEL_LABELS[location.level]} · {path}</p>
+    </div>
+);
+
+const Locations: React.FC = () => {
+    const { state, addLocation, editLocation, deleteLocation } = useInventory();
+    const { settings } = useSettings();
+    const [form, setForm] = useState<LocationForm | null>(null);
+    const [locationToDelete, setLocationToDelete] = useState<StorageLocation | null>(null);
+    const [locationForQr, setLocationForQr] = useState<StorageLocation | null>(null);
+    const [qrDataUrl, setQrDataUrl] = useState('');
+    const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        setQrDataUrl('');
+        if (!locationForQr) return;
+        QRCode.toDataURL(toLocationQrData(locationForQr), { width: 256, margin: 2 })
+            .then(setQrDataUrl)
+            .catch(error => console.error('QR Code generation failed:', error));
+    }, [locationForQr]);
+
+    const activeItems = useMemo(() => withoutArchived(state.items), [state.items]);
+
+    const toggleExpanded = (locationId: string) => setExpandedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(locationId)) next.delete(locationId); else next.add(locationId);
+        return next;
+    });
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form || !form.name.trim()) return;
+        try {
+            if (form.mode === 'add') {
+                await addLocation({ name: form.name.trim(), level: form.level, parentId: form.parentId });
+            } else {
+                await editLocation({ ...form.location, name: form.name.trim() });
+            }
+            setForm(null);
+        } catch (error: any) {
+            alert(`Failed to save location: ${error.message}`);
+        }
+    };
+
+    const handleDeleteConfirm = async () => {
+        if (!locationToDelete) return;
+        try {
+            await deleteLocation(locationToDelete.id);
+            setLocationToDelete(null);
+        } catch (error: any) {
+            alert(`Failed to delete location: ${error.message}`);
+        }
+    };
+
+    const handlePrintQr = () => {
+        const printArea = document.getElementById('qr-print-area');
+        if (locationForQr && printArea && qrDataUrl) {
+            const root = createRoot(printArea);
+            root.render(<LocationQrLabel location={locationForQr} path={formatLocationPath(locationForQr.id, state.locations)} qrDataUrl={qrDataUrl} title={settings.title} />);
+
+            document.body.classList.add('printing-qr');
+            window.print();
+            document.body.classList.remove('printing-qr');
+
+            setTimeout(() => {
+                root.unmount();
+            }, 500);
+        }
+    };
+
+    const handleDownloadQr = () => {
+        if (locationForQr && qrDataUrl) {
+            const link = document.createElement('a');
+            link.download = `qr-location-${locationForQr.name.replace(/\s+/g, '-')}.png`;
+            link.href = qrDataUrl;
+            link.click();
+        }
+    };
+
+    const isDeletable = (location: StorageLocation) =>
+        getChildLocations(location.id, state.locations).length === 0 && getItemsAtLocation(location.id, state.items, state.locations).length === 0;
+
+    const renderLocation = (location: StorageLocation, depth: number): React.ReactNode => {
+        const children = getChildLocations(location.id, state.locations);
+        const childLevel = getChildLevel(location.level);
+        const storedHere = getItemsAtLocation(location.id, activeItems, state.locations).filter(s => s.locationId === location.id);
+        const isExpanded = expandedIds.has(location.id);
+
+        return (
+            <li key={location.id}>
+                <div className="flex items-center gap-3 py-2 px-3 rounded-lg hover:bg-slate-700/40" style={{ paddingLeft: `${depth * 1.5 + 0.75}rem` }}>
+                    <button onClick={() => toggleExpanded(location.id)} disabled={storedHere.length === 0} className="flex-grow min-w-0 text-left disabled:cursor-default">
+                        <span className="font-medium text-white">{location.name}</span>
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-slate-700 text-slate-300">{LOCATION_LEVEL_LABELS[location.level]}</span>
+                        {storedHere.length > 0 && (
+                            <span className="ml-2 text-xs text-slate-400">{storedHere.length} {storedHere.length === 1 ? 'item' : 'items'} {isExpanded ? '▾' : '▸'}</span>
+                        )}
+                    </button>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                        {childLevel && (
+                            <button onClick={() => setForm({ mode: 'add', parentId: location.id, level: childLevel, name: '' })} className="px-2 text-sm font-medium text-emerald-400 hover:text-emerald-300 whitespace-nowrap">
+                                + {LOCATION_LEVEL_LABELS[childLevel]}
+                            </button>
+                        )}
+                        <button onClick={() => setLocationForQr(location)} title="Show QR Code" className="p-2 text-slate-400 hover:text-emerald-400"><IconQrcode /></button>
+                        <button onClick={() => setForm({ mode: 'edit', location, name: location.name })} title="Rename" className="p-2 text-slate-400 hover:text-blue-400"><IconPencil /></button>
+                        <button
+                            onClick={() => setLocationToDelete(location)}
+                            disabled={!isDeletable(location)}
+                            title={isDeletable(location) ? 'Delete' : 'Empty this location before deleting it'}
+                            className="p-2 text-slate-400 hover:text-red-400 disabled:text-slate-600 disabled:cursor-not-allowed"
+                        >
+                            <IconTrash />
+                        </button>
+                    </div>
+                </div>
+                {isExpanded && (
+                    <ul className="mb-2 space-y-1 text-sm text-slate-300" style={{ paddingLeft: `${depth * 1.5 + 2.5}rem` }}>
+                        {storedHere.map(({ item, quantity }) => (
+                            <li key={item.id} className="flex justify-between max-w-md">
+                                <span>{item.name}</span>
+                                <span className="font-mono text-slate-400">{formatQuantity(quantity, item)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {children.length > 0 && <ul>{children.map(child => renderLocation(child, depth + 1))}</ul>}
+            </li>
+        );
+    };
+
+    const rooms = getChildLocations(null, state.locations);
+
+    return (
+        <div className="p-4 md:p-8">
+            <div className="flex flex-col md:flex-row justify-between items-stretch md:items-center gap-4 mb-6">
+                <h1 className="text-3xl font-bold text-white">Storage Locations</h1>
+                <button onClick={() => setForm({ mode: 'add', parentId: null, level: 'room', name: '' })} className="flex items-center justify-center bg-emerald-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-emerald-700 transition-colors">
+                    <IconPlusCircle />
+                    <span>Add Room</span>
+                </button>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg p-4">
+                {rooms.length > 0 ? (
+                    <ul>{rooms.map(room => renderLocation(room, 0))}</ul>
+                ) : (
+                    <div className="text-center py-8 text-slate-400">
+                        <IconMapPin />
+                        <p className="mt-2">No locations yet. Start by adding a room, then the cabinets, shelves and bins inside it.</p>
+                    </div>
+                )}
+            </div>
+
+            <Modal isOpen={!!form} onClose={() => setForm(null)} title={form?.mode === 'edit' ? 'Rename Location' : `Add ${form ? LOCATION_LEVEL_LABELS[form.level] : ''}`}>
+                {form && (
+                    <form onSubmit={handleFormSubmit} className="space-y-4">
+                        {form.mode === 'add' && form.parentId && (
+                            <p className="text-sm text-slate-400">Inside {formatLocationPath(form.parentId, state.locations)}</p>
+                        )}
+                        <input
+                            type="text"
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                            placeholder="Name, e.g. Chemistry Lab or Shelf 2"
+                            required
+                            autoFocus
+                            className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5"
+                        />
+                        <div className="flex justify-end gap-3 pt-4">
+                            <button type="button" onClick={() => setForm(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                            <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Save</button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!locationToDelete} onClose={() => setLocationToDelete(null)} title="Delete Location">
+                {locationToDelete && (
+                    <div>
+                        <p className="text-slate-300">Delete <strong className="text-white">{formatLocationPath(locationToDelete.id, state.locations)}</strong>? Its printed QR labels will stop working.</p>
+                        <div className="flex justify-end gap-3 pt-6">
+                            <button type="button" onClick={() => setLocationToDelete(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                            <button type="button" onClick={handleDeleteConfirm} className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors">Delete Location</button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!locationForQr} onClose={() => setLocationForQr(null)} title={`QR Label for ${locationForQr?.name}`}>
+                <div className="flex flex-col items-center justify-center space-y-4">
+                    {locationForQr && <LocationQrLabel location={locationForQr} path={formatLocationPath(locationForQr.id, state.locations)} qrDataUrl={qrDataUrl} title={settings.title} />}
+                    <p className="text-slate-400 text-sm pt-2">Scan this code on Scan & Find to list everything stored here.</p>
+                    <div className="flex w-full justify-center gap-4 pt-2">
+                        <button onClick={handlePrintQr} disabled={!qrDataUrl} className="flex items-center justify-center w-full py-2 px-4 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50">
+                            <IconPrinter />
+                            <span>Print</span>
+                        </button>
+                        <button onClick={handleDownloadQr} disabled={!qrDataUrl} className="flex items-center justify-center w-full py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:opacity-50">
+                            <IconDownload />
+                            <span>Download</span>
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default Locations;
@@ -1,18 +1,91 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { useInventory } from '../context/InventoryContext';
-import { LogAction, LogEntry, LogStatus } from '../types';
+import { AssetUnit, AssetUnitStatus, Item, ItemCondition, LogAction, LogEntry, LogStatus, ReturnedQuantity } from '../types';
 import { IconPrinter } from '../components/icons';
 import { Modal } from '../components/Modal';
+import { DueDateBadge } from '../components/DueDateBadge';
+import { IncidentReportModal } from '../components/IncidentReportModal';
+import { getOutstandingQuantity, getOverdueInfo, isActiveLoan } from '../services/loanService';
+import { STOCK_ADJUSTMENT_TYPES, formatQuantityChange } from '../services/stockService';
+import { formatQuantity } from '../services/consumableService';
+import { useAuth } from '../context/AuthContext';
+import { can } from '../services/permissionService';
 
 const tabs = [
     { id: 'requests', label: 'Borrow Requests' },
     { id: 'loans', label: 'Current Loans' },
     { id: 'history', label: 'Transaction History' },
+    { id: 'adjustments', label: 'Stock Adjustments' },
 ];
 
 type LogEntryWithDetails = LogEntry & {
+    item?: Item;
     itemName: string;
     userName: string;
+    borrowerSection: string | null;
+    units: AssetUnit[];
+};
+
+// Pending lines that were filed together. Single-item requests form a group of one.
+type BorrowRequestGroup = {
+    id: string;
+    requestId?: string;
+    userName: string;
+    timestamp: string;
+    lines: LogEntryWithDetails[];
+};
+
+const groupRequests = (requests: LogEntryWithDetails[]): BorrowRequestGroup[] => {
+    const groups: BorrowRequestGroup[] = [];
+    requests.forEach(log => {
+        const groupId = log.requestId ?? log.id;
+        const existing = groups.find(g => g.id === groupId);
+        if (existing) {
+            existing.lines.push(log);
+        } else {
+            groups.push({ id: groupId, requestId: log.requestId, userName: log.userName, timestamp: log.timestamp, lines: [log] });
+        }
+    });
+    return groups;
+};
+
+const describeLines = (logs: LogEntryWithDetails[]): string =>
+    logs.map(log => `${log.quantity}x ${log.itemName}`).join(', ');
+
+type ConditionCounts = Record<ItemCondition, number>;
+
+const conditionLabels: Record<ItemCondition, string> = {
+    [ItemCondition.GOOD]: 'Good',
+    [ItemCondition.DAMAGED]: 'Damaged',
+    [ItemCondition.LOST]: 'Lost',
+};
+
+const toReturnedQuantities = (counts: ConditionCounts): ReturnedQuantity[] =>
+    (Object.keys(counts) as ItemCondition[])
+        .filter(condition => counts[condition] > 0)
+        .map(condition => ({ condition, quantity: counts[condition] }));
+
+const sumCounts = (counts: ConditionCounts): number =>
+    counts.GOOD + counts.DAMAGED + counts.LOST;
+
+const describeConditions = (conditions: ReturnedQuantity[]): string =>
+    conditions.map(c => `${c.quantity} ${conditionLabels[c.condition].toLowerCase()}`).join(', ');
+
+const describeSerials = (units: AssetUnit[]): string =>
+    units.map(u => u.serialNumber).join(', ');
+
+// Serialized units of a loan that have not come back yet
+const getUnitsOnLoan = (log: LogEntryWithDetails): AssetUnit[] =>
+    log.units.filter(u => u.status === AssetUnitStatus.ON_LOAN);
+
+// Serialized loans are returned unit by unit, so their counts come from the per-unit choices.
+const countUnitConditions = (units: AssetUnit[], unitConditions: Record<string, ItemCondition | ''>): ConditionCounts => {
+    const counts: ConditionCounts = { [ItemCondition.GOOD]: 0, [ItemCondition.DAMAGED]: 0, [ItemCondition.LOST]: 0 };
+    units.forEach(unit => {
+        const condition = unitConditions[unit.id];
+        if (condition) counts[condition] += 1;
+    });
+    return counts;
 };
 
 const LogStatusBadge: React.FC<{ status: LogStatus | undefined }> = ({ status }) => {
@@ -22,6 +95,7 @@ const LogStatusBadge: React.FC<{ status: LogStatus | undefined }> = ({ status })
         [LogStatus.APPROVED]: { text: "On Loan", classes: "bg-yellow-900 text-yellow-300" },
         [LogStatus.DENIED]: { text: "Denied", classes: "bg-red-900 text-red-300" },
         [LogStatus.RETURNED]: { text: "Returned", classes: "bg-green-900 text-green-300" },
+        [LogStatus.ISSUED]: { text: "Issued", classes: "bg-purple-900 text-purple-300" },
     };
     // Handle legacy logs that might not have a status by defaulting to APPROVED
     const effectiveStatus = status || LogStatus.APPROVED;
@@ -31,14 +105,27 @@ const LogStatusBadge: React.FC<{ status: LogStatus | undefined }> = ({ status })
 };
 
 const BorrowLog: React.FC = () => {
-  const { state, approveBorrowRequest, denyBorrowRequest, returnItem, markNotificationsAsRead } = useInventory();
+  const { currentUser } = useAuth();
+  const { state, approveBorrowRequest, denyBorrowRequest, approveBorrowBatch, denyBorrowBatch, returnItem, returnItems, markNotificationsAsRead } = useInventory();
   const [activeTab, setActiveTab] = useState('requests');
 
   const [isDenyModalOpen, setDenyModalOpen] = useState(false);
   const [isReturnModalOpen, setReturnModalOpen] = useState(false);
-  const [selectedLog, setSelectedLog] = useState<LogEntryWithDetails | null>(null);
+  const [selectedLogs, setSelectedLogs] = useState<LogEntryWithDetails[]>([]);
+  const [denyRequestId, setDenyRequestId] = useState<string | null>(null);
+  const [selectedLoanIds, setSelectedLoanIds] = useState<string[]>([]);
   const [denyReason, setDenyReason] = useState('');
   const [returnNotes, setReturnNotes] = useState('');
+  const [returnCounts, setReturnCounts] = useState<Record<string, ConditionCounts>>({});
+  const [unitReturnConditions, setUnitReturnConditions] = useState<Record<string, ItemCondition | ''>>({});
+  const [logForIncident, setLogForIncident] = useState<LogEntryWithDetails | null>(null);
+  const [logToAssign, setLogToAssign] = useState<LogEntryWithDetails | null>(null);
+  const [assignedUnitIds, setAssignedUnitIds] = useState<string[]>([]);
+
+  // Teachers may only decide on requests from students in their own sections
+  const canDecide = (log: LogEntryWithDetails) => can(currentUser, 'loans.approve', { section: log.borrowerSection });
+  const canReturn = can(currentUser, 'loans.return');
+  const canReportIncident = can(currentUser, 'incidents.report');
   
   useEffect(() => {
     const unreadNotifications = state.notifications
@@ -49,57 +136,176 @@ const BorrowLog: React.FC = () => {
     }
   }, [state.notifications, markNotificationsAsRead]);
 
+  const availableUnitsToAssign = useMemo(() => {
+    if (!logToAssign) return [];
+    return state.assetUnits.filter(u => u.itemId === logToAssign.itemId && u.status === AssetUnitStatus.AVAILABLE);
+  }, [logToAssign, state.assetUnits]);
+
+  // Serialized items need the specific units picked before the loan can be approved.
+  const handleApprove = async (log: LogEntryWithDetails) => {
+    if (log.item?.isSerialized) {
+        setAssignedUnitIds([]);
+        setLogToAssign(log);
+        return;
+    }
+    await approveBorrowRequest(log.id);
+  };
+
+  const toggleAssignedUnit = (unitId: string) => {
+    setAssignedUnitIds(ids => ids.includes(unitId) ? ids.filter(id => id !== unitId) : [...ids, unitId]);
+  };
+
+  const handleAssignSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!logToAssign || assignedUnitIds.length !== logToAssign.quantity) return;
+    // Kept open if the server refuses, so the chosen units are not lost
+    if (!await approveBorrowRequest(logToAssign.id, assignedUnitIds)) return;
+    setLogToAssign(null);
+    setAssignedUnitIds([]);
+  };
+
   const openDenyModal = (log: LogEntryWithDetails) => {
-    setSelectedLog(log);
+    setSelectedLogs([log]);
+    setDenyRequestId(null);
+    setDenyModalOpen(true);
+  };
+
+  const openDenyRequestModal = (group: BorrowRequestGroup) => {
+    setSelectedLogs(group.lines);
+    setDenyRequestId(group.requestId ?? null);
     setDenyModalOpen(true);
   };
 
   const handleDenySubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedLog && denyReason) {
-        await denyBorrowRequest({ logId: selectedLog.id, reason: denyReason });
+    if (selectedLogs.length > 0 && denyReason) {
+        const denied = denyRequestId
+            ? await denyBorrowBatch({ requestId: denyRequestId, reason: denyReason })
+            : await denyBorrowRequest({ logId: selectedLogs[0].id, reason: denyReason });
+        if (!denied) return;
         setDenyModalOpen(false);
         setDenyReason('');
-        setSelectedLog(null);
+        setSelectedLogs([]);
+        setDenyRequestId(null);
     }
   };
 
-  const openReturnModal = (log: LogEntryWithDetails) => {
-    setSelectedLog(log);
+  // Every outstanding unit defaults to being returned in good condition.
+  const openReturnModal = (logs: LogEntryWithDetails[]) => {
+    const counts: Record<string, ConditionCounts> = {};
+    const unitConditions: Record<string, ItemCondition | ''> = {};
+    logs.forEach(log => {
+        counts[log.id] = { [ItemCondition.GOOD]: getOutstandingQuantity(log), [ItemCondition.DAMAGED]: 0, [ItemCondition.LOST]: 0 };
+        getUnitsOnLoan(log).forEach(unit => { unitConditions[unit.id] = ItemCondition.GOOD; });
+    });
+    setReturnCounts(counts);
+    setUnitReturnConditions(unitConditions);
+    setSelectedLogs(logs);
     setReturnModalOpen(true);
   }
 
+  const updateReturnCount = (logId: string, condition: ItemCondition, value: number) => {
+    setReturnCounts(prev => ({ ...prev, [logId]: { ...prev[logId], [condition]: Math.max(value, 0) } }));
+  };
+
+  const effectiveReturnCounts = useMemo(() => {
+    const counts: Record<string, ConditionCounts> = {};
+    selectedLogs.forEach(log => {
+        if (!returnCounts[log.id]) return;
+        counts[log.id] = log.item?.isSerialized
+            ? countUnitConditions(getUnitsOnLoan(log), unitReturnConditions)
+            : returnCounts[log.id];
+    });
+    return counts;
+  }, [selectedLogs, returnCounts, unitReturnConditions]);
+
+  const returnValidationError = useMemo(() => {
+    const lines = selectedLogs.filter(log => effectiveReturnCounts[log.id]);
+    if (lines.every(log => sumCounts(effectiveReturnCounts[log.id]) === 0)) {
+        return 'Enter at least one returned unit.';
+    }
+    const overReturned = lines.find(log => sumCounts(effectiveReturnCounts[log.id]) > getOutstandingQuantity(log));
+    if (overReturned) {
+        return `Only ${getOutstandingQuantity(overReturned)} ${overReturned.itemName} are still on loan.`;
+    }
+    return null;
+  }, [selectedLogs, effectiveReturnCounts]);
+
   const handleReturnSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedLog) {
-        await returnItem({ borrowLog: selectedLog, adminNotes: returnNotes });
-        setReturnModalOpen(false);
-        setReturnNotes('');
-        setSelectedLog(null);
+    if (!currentUser || returnValidationError) return;
+    const lines = selectedLogs
+        .filter(log => effectiveReturnCounts[log.id] && sumCounts(effectiveReturnCounts[log.id]) > 0)
+        .map(log => ({
+            borrowLog: log,
+            conditions: toReturnedQuantities(effectiveReturnCounts[log.id]),
+            unitConditions: log.item?.isSerialized
+                ? getUnitsOnLoan(log)
+                    .filter(unit => unitReturnConditions[unit.id])
+                    .map(unit => ({ assetUnitId: unit.id, condition: unitReturnConditions[unit.id] as ItemCondition }))
+                : undefined,
+        }));
+    if (lines.length === 1) {
+        await returnItem({ ...lines[0], adminNotes: returnNotes });
+    } else if (lines.length > 1) {
+        await returnItems({ lines, adminNotes: returnNotes });
     }
+    setReturnModalOpen(false);
+    setReturnNotes('');
+    setSelectedLoanIds(ids => ids.filter(id => !selectedLogs.some(log => log.id === id)));
+    setSelectedLogs([]);
+  };
+
+  const toggleLoanSelection = (logId: string) => {
+    setSelectedLoanIds(ids => ids.includes(logId) ? ids.filter(id => id !== logId) : [...ids, logId]);
+  };
+
+  // Selects every outstanding line of the same multi-item request.
+  const selectRequestLoans = (requestId: string) => {
+    const lineIds = currentLoans.filter(log => log.requestId === requestId).map(log => log.id);
+    setSelectedLoanIds(ids => Array.from(new Set([...ids, ...lineIds])));
   };
   
-  const { pendingRequests, currentLoans, transactionHistory } = useMemo(() => {
+  const stockAdjustments = useMemo(() => {
+    return state.stockAdjustments
+        .map(adjustment => ({
+            ...adjustment,
+            itemName: state.items.find(i => i.id === adjustment.itemId)?.name || 'Unknown Item',
+            adminName: state.userDirectory.find(u => u.id === adjustment.createdBy)?.fullName || 'Unknown User',
+        }))
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [state.stockAdjustments, state.items, state.userDirectory]);
+
+  const { pendingRequests, requestGroups, currentLoans, overdueCount, transactionHistory } = useMemo(() => {
     const logsWithDetails: LogEntryWithDetails[] = state.logs.map(log => {
         const item = state.items.find(i => i.id === log.itemId);
-        const user = state.users.find(u => u.id === log.userId);
+        // Names come from the directory every role receives; sections only from the users this role can see
+        const borrower = state.users.find(u => u.id === log.userId);
         return {
             ...log,
+            item,
             itemName: item?.name || 'Unknown Item',
-            userName: user?.fullName || 'Unknown User',
+            userName: state.userDirectory.find(u => u.id === log.userId)?.fullName || 'Unknown User',
+            borrowerSection: borrower?.section ?? null,
+            units: state.assetUnits.filter(u => log.assetUnitIds?.includes(u.id)),
         };
     }).sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     
     const requests = logsWithDetails.filter(log => log.action === LogAction.BORROW && log.status === LogStatus.PENDING);
-    // Treat logs without a status as approved for backward compatibility
-    const loans = logsWithDetails.filter(log => log.action === LogAction.BORROW && (log.status === LogStatus.APPROVED || typeof log.status === 'undefined'));
+    // Overdue loans are listed first, most overdue at the top
+    const loans = logsWithDetails
+        .filter(isActiveLoan)
+        .map(log => ({ ...log, overdue: getOverdueInfo(log, log.item) }))
+        .sort((a, b) => b.overdue.daysOverdue - a.overdue.daysOverdue);
 
     return {
         pendingRequests: requests,
+        requestGroups: groupRequests(requests),
         currentLoans: loans,
+        overdueCount: loans.filter(log => log.overdue.isOverdue).length,
         transactionHistory: logsWithDetails,
     }
-  }, [state.logs, state.items, state.users]);
+  }, [state.logs, state.items, state.users, state.userDirectory, state.assetUnits]);
 
 
   return (
@@ -129,6 +335,7 @@ const BorrowLog: React.FC = () => {
                     }
                 >
                     {tab.label} {tab.id === 'requests' && pendingRequests.length > 0 && `(${pendingRequests.length})`}
+                    {tab.id === 'loans' && overdueCount > 0 && <span className="ml-1 text-red-400">({overdueCount} overdue)</span>}
                 </button>
             ))}
         </nav>
@@ -148,19 +355,50 @@ const BorrowLog: React.FC = () => {
                         </tr>
                     </thead>
                     <tbody>
-                        {pendingRequests.map(log => (
-                            <tr key={log.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
-                                <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">{log.itemName}</td>
-                                <td className="px-6 py-4 whitespace-nowrap">{log.userName}</td>
-                                <td className="px-6 py-4">{log.quantity}</td>
-                                <td className="px-6 py-4 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
-                                <td className="px-6 py-4 text-center">
-                                    <div className="flex justify-center gap-2">
-                                        <button onClick={() => approveBorrowRequest(log.id)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold">Approve</button>
-                                        <button onClick={() => openDenyModal(log)} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-sm font-semibold">Deny</button>
-                                    </div>
-                                </td>
-                            </tr>
+                        {requestGroups.map(group => (
+                            <React.Fragment key={group.id}>
+                                {group.lines.length > 1 && (
+                                    <tr className="bg-slate-700/40 border-b border-slate-700 print-text-black">
+                                        <td colSpan={4} className="px-6 py-3 text-sm">
+                                            <span className="font-semibold text-white print-text-black">{group.userName}</span>
+                                            <span className="text-slate-400"> requested {group.lines.length} items on {new Date(group.timestamp).toLocaleString()}</span>
+                                        </td>
+                                        <td className="px-6 py-3 text-center">
+                                            {group.lines.every(canDecide) && (
+                                                <div className="flex justify-center gap-2">
+                                                    <button
+                                                        onClick={() => group.requestId && approveBorrowBatch(group.requestId)}
+                                                        disabled={group.lines.some(log => log.item?.isSerialized)}
+                                                        title={group.lines.some(log => log.item?.isSerialized) ? 'Serialized items need units assigned. Approve them one by one.' : undefined}
+                                                        className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold whitespace-nowrap disabled:bg-slate-500 disabled:cursor-not-allowed"
+                                                    >
+                                                        Approve All
+                                                    </button>
+                                                    <button onClick={() => openDenyRequestModal(group)} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-sm font-semibold whitespace-nowrap">Deny All</button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                )}
+                                {group.lines.map(log => (
+                                    <tr key={log.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
+                                        <td className={`py-4 font-medium text-white print-text-black whitespace-nowrap ${group.lines.length > 1 ? 'pl-10 pr-6' : 'px-6'}`}>{log.itemName}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap">{log.userName}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap">{formatQuantity(log.quantity, log.item)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                                        <td className="px-6 py-4 text-center">
+                                            {canDecide(log) ? (
+                                                <div className="flex justify-center gap-2">
+                                                    <button onClick={() => handleApprove(log)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold">Approve</button>
+                                                    <button onClick={() => openDenyModal(log)} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-sm font-semibold">Deny</button>
+                                                </div>
+                                            ) : (
+                                                <span className="text-xs text-slate-500">Not in your sections</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </React.Fragment>
                         ))}
                         {pendingRequests.length === 0 && (
                             <tr>
@@ -171,44 +409,69 @@ const BorrowLog: React.FC = () => {
                 </table>
             )}
             {activeTab === 'loans' && (
+                <>
+                {canReturn && selectedLoanIds.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 px-6 py-3 bg-slate-700/40 border-b border-slate-700 button-print-hide">
+                        <span className="text-sm text-slate-300">{selectedLoanIds.length} selected</span>
+                        <div className="flex gap-2">
+                            <button onClick={() => setSelectedLoanIds([])} className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded-md text-sm">Clear</button>
+                            <button onClick={() => openReturnModal(currentLoans.filter(log => selectedLoanIds.includes(log.id)))} className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 rounded-md text-sm font-semibold">Return Selected</button>
+                        </div>
+                    </div>
+                )}
                 <table className="w-full text-sm text-left text-slate-300">
                     <thead className="text-xs text-slate-400 uppercase bg-slate-700/50 print-text-black">
                         <tr>
+                            <th scope="col" className="pl-6 py-3 button-print-hide"><span className="sr-only">Select</span></th>
                             <th scope="col" className="px-6 py-3">Item Name</th>
                             <th scope="col" className="px-6 py-3">Borrowed By</th>
                             <th scope="col" className="px-6 py-3">Quantity</th>
                             <th scope="col" className="px-6 py-3">Date Borrowed</th>
+                            <th scope="col" className="px-6 py-3">Due Date</th>
                             <th scope="col" className="px-6 py-3 text-center">Actions</th>
                         </tr>
                     </thead>
                     <tbody>
                         {currentLoans.map(log => (
                             <tr key={log.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
+                                <td className="pl-6 py-4 button-print-hide">
+                                    {canReturn && <input type="checkbox" aria-label={`Select ${log.itemName}`} checked={selectedLoanIds.includes(log.id)} onChange={() => toggleLoanSelection(log.id)} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />}
+                                </td>
                                 <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap flex items-center">
                                     {log.itemName}
+                                    {canReturn && log.requestId &&
+                                        <button onClick={() => selectRequestLoans(log.requestId!)} title="Select every line of this request" className="ml-2 px-2 py-1 text-xs rounded-full bg-slate-700 text-slate-300 hover:bg-slate-600 button-print-hide">
+                                            Multi-item
+                                        </button>
+                                    }
                                     {log.returnRequested && 
                                         <span title="User has requested to return this item" className="ml-2 px-2 py-1 text-xs rounded-full bg-yellow-900 text-yellow-300">
                                             Return Requested
                                         </span>
                                     }
+                                    {getUnitsOnLoan(log).length > 0 && <span className="ml-2 text-xs font-normal text-slate-400">S/N {describeSerials(getUnitsOnLoan(log))}</span>}
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap">{log.userName}</td>
-                                <td className="px-6 py-4">{log.quantity}</td>
+                                <td className="px-6 py-4">{getOutstandingQuantity(log) < log.quantity ? `${getOutstandingQuantity(log)} of ${log.quantity}` : log.quantity}</td>
                                 <td className="px-6 py-4 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                                <td className="px-6 py-4"><DueDateBadge log={log} item={log.item} /></td>
                                 <td className="px-6 py-4 text-center">
-                                    <button onClick={() => openReturnModal(log)} className="font-medium text-emerald-400 hover:text-emerald-300 transition-colors whitespace-nowrap">
-                                        Mark as Returned
-                                    </button>
+                                    {canReturn && (
+                                        <button onClick={() => openReturnModal([log])} className="font-medium text-emerald-400 hover:text-emerald-300 transition-colors whitespace-nowrap">
+                                            Mark as Returned
+                                        </button>
+                                    )}
                                 </td>
                             </tr>
                         ))}
                         {currentLoans.length === 0 && (
                             <tr>
-                                <td colSpan={5} className="text-center py-8 text-slate-400 print-text-black">No items are currently on loan.</td>
+                                <td colSpan={7} className="text-center py-8 text-slate-400 print-text-black">No items are currently on loan.</td>
                             </tr>
                         )}
                     </tbody>
                 </table>
+                </>
             )}
             {activeTab === 'history' && (
                 <table className="w-full text-sm text-left text-slate-300">
@@ -220,12 +483,16 @@ const BorrowLog: React.FC = () => {
                              <th scope="col" className="px-6 py-3">Status</th>
                             <th scope="col" className="px-6 py-3">Quantity</th>
                             <th scope="col" className="px-6 py-3">Date</th>
+                            <th scope="col" className="px-6 py-3 text-center button-print-hide">Actions</th>
                         </tr>
                     </thead>
                     <tbody>
                         {transactionHistory.map(log => (
                             <tr key={log.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
-                                <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">{log.itemName}</td>
+                                <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">
+                                    {log.itemName}
+                                    {log.units.length > 0 && <span className="block text-xs font-normal text-slate-400">S/N {describeSerials(log.units)}</span>}
+                                </td>
                                 <td className="px-6 py-4 whitespace-nowrap">{log.userName}</td>
                                 <td className="px-6 py-4">
                                     <span className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${log.action === LogAction.BORROW ? 'bg-yellow-900 text-yellow-300' : 'bg-green-900 text-green-300'}`}>{log.action}</span>
@@ -238,13 +505,56 @@ const BorrowLog: React.FC = () => {
                                         <span className="text-slate-500">N/A</span>
                                     )}
                                 </td>
-                                <td className="px-6 py-4">{log.quantity}</td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    {formatQuantity(log.quantity, log.item)}
+                                    {log.conditions && log.conditions.length > 0 && <span className="block text-xs text-slate-400">{describeConditions(log.conditions)}</span>}
+                                </td>
                                 <td className="px-6 py-4 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                                <td className="px-6 py-4 text-center button-print-hide">
+                                    {canReportIncident && log.action === LogAction.BORROW && (log.status === LogStatus.APPROVED || log.status === LogStatus.RETURNED) && (
+                                        <button onClick={() => setLogForIncident(log)} className="font-medium text-red-400 hover:text-red-300 transition-colors whitespace-nowrap">Report Incident</button>
+                                    )}
+                                </td>
                             </tr>
                         ))}
                         {transactionHistory.length === 0 && (
                             <tr>
-                                <td colSpan={6} className="text-center py-8 text-slate-400 print-text-black">No transaction history yet.</td>
+                                <td colSpan={7} className="text-center py-8 text-slate-400 print-text-black">No transaction history yet.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            )}
+            {activeTab === 'adjustments' && (
+                <table className="w-full text-sm text-left text-slate-300">
+                    <thead className="text-xs text-slate-400 uppercase bg-slate-700/50 print-text-black">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Item Name</th>
+                            <th scope="col" className="px-6 py-3">Type</th>
+                            <th scope="col" className="px-6 py-3">Change</th>
+                            <th scope="col" className="px-6 py-3">Reason</th>
+                            <th scope="col" className="px-6 py-3">Recorded By</th>
+                            <th scope="col" className="px-6 py-3">Date</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stockAdjustments.map(adjustment => (
+                            <tr key={adjustment.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
+                                <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">{adjustment.itemName}</td>
+                                <td className="px-6 py-4">
+                                    <span className="px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap bg-slate-700 text-slate-300">{STOCK_ADJUSTMENT_TYPES[adjustment.type]?.label ?? adjustment.type}</span>
+                                </td>
+                                <td className={`px-6 py-4 font-mono ${adjustment.quantityChange < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                    {formatQuantityChange(adjustment.quantityChange)}
+                                </td>
+                                <td className="px-6 py-4">{adjustment.reason}</td>
+                                <td className="px-6 py-4 whitespace-nowrap">{adjustment.adminName}</td>
+                                <td className="px-6 py-4 whitespace-nowrap">{new Date(adjustment.timestamp).toLocaleString()}</td>
+                            </tr>
+                        ))}
+                        {stockAdjustments.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="text-center py-8 text-slate-400 print-text-black">No stock adjustments recorded.</td>
                             </tr>
                         )}
                     </tbody>
@@ -255,7 +565,7 @@ const BorrowLog: React.FC = () => {
 
       <Modal isOpen={isDenyModalOpen} onClose={() => setDenyModalOpen(false)} title="Deny Borrow Request">
         <form onSubmit={handleDenySubmit} className="space-y-4">
-            <p>Please provide a reason for denying the request for <strong className="text-white">{selectedLog?.quantity}x {selectedLog?.itemName}</strong>.</p>
+            <p>Please provide a reason for denying the request for <strong className="text-white">{describeLines(selectedLogs)}</strong>.</p>
             <div>
                 <label htmlFor="denyReason" className="sr-only">Denial Reason</label>
                 <textarea id="denyReason" value={denyReason} onChange={e => setDenyReason(e.target.value)} required rows={3} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
@@ -269,16 +579,89 @@ const BorrowLog: React.FC = () => {
 
        <Modal isOpen={isReturnModalOpen} onClose={() => setReturnModalOpen(false)} title="Mark Item as Returned">
         <form onSubmit={handleReturnSubmit} className="space-y-4">
-            <p>You are marking <strong className="text-white">{selectedLog?.quantity}x {selectedLog?.itemName}</strong> as returned. Add any relevant notes below.</p>
+            <p>Enter how many units came back in each condition. Anything left over stays on loan. Damaged and lost units are written off the item's total stock.</p>
+            <div className="space-y-3 max-h-72 overflow-y-auto">
+                {selectedLogs.map(log => returnCounts[log.id] && (
+                    <div key={log.id} className="bg-slate-700/50 border border-slate-600 rounded-lg p-3">
+                        <p className="text-sm text-white mb-2"><strong>{log.itemName}</strong> <span className="text-slate-400">({getOutstandingQuantity(log)} on loan)</span></p>
+                        {log.item?.isSerialized ? (
+                        <div className="space-y-2">
+                            {getUnitsOnLoan(log).map(unit => (
+                                <label key={unit.id} className="flex items-center justify-between gap-3 text-xs text-slate-300">
+                                    <span className="font-mono">{unit.serialNumber}</span>
+                                    <select
+                                        value={unitReturnConditions[unit.id] ?? ''}
+                                        onChange={e => setUnitReturnConditions(prev => ({ ...prev, [unit.id]: e.target.value as ItemCondition | '' }))}
+                                        className="bg-slate-700 border border-slate-600 rounded-lg p-1.5"
+                                    >
+                                        {(Object.keys(conditionLabels) as ItemCondition[]).map(condition => (
+                                            <option key={condition} value={condition}>{conditionLabels[condition]}</option>
+                                        ))}
+                                        <option value="">Still on loan</option>
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                        ) : (
+                        <div className="grid grid-cols-3 gap-2">
+                            {(Object.keys(conditionLabels) as ItemCondition[]).map(condition => (
+                                <label key={condition} className="text-xs text-slate-300">
+                                    {conditionLabels[condition]}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={getOutstandingQuantity(log)}
+                                        value={returnCounts[log.id][condition]}
+                                        onChange={e => updateReturnCount(log.id, condition, parseInt(e.target.value, 10) || 0)}
+                                        className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-lg p-1.5"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {returnValidationError && <p className="text-sm text-red-400">{returnValidationError}</p>}
             <div>
                 <label htmlFor="returnNotes" className="block mb-2 text-sm font-medium text-slate-300">Return Notes (optional)</label>
                 <textarea id="returnNotes" value={returnNotes} onChange={e => setReturnNotes(e.target.value)} placeholder="e.g., Returned in good condition." rows={3} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
             </div>
             <div className="flex justify-end gap-3 pt-4">
                 <button type="button" onClick={() => setReturnModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
-                <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Confirm Return</button>
+                <button type="submit" disabled={!!returnValidationError} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Confirm Return</button>
+            </div>
+        </form>
+      </Modal>
+
+      <IncidentReportModal
+        log={logForIncident}
+        itemName={logForIncident?.itemName}
+        userName={logForIncident?.userName}
+        onClose={() => setLogForIncident(null)}
+      />
+
+      <Modal isOpen={!!logToAssign} onClose={() => setLogToAssign(null)} title="Assign Units">
+        {logToAssign && (
+        <form onSubmit={handleAssignSubmit} className="space-y-4">
+            <p>Select the {logToAssign.quantity} {logToAssign.itemName} {logToAssign.quantity === 1 ? 'unit' : 'units'} being handed to <strong className="text-white">{logToAssign.userName}</strong>.</p>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+                {availableUnitsToAssign.map(unit => (
+                    <label key={unit.id} className="flex items-center gap-3 bg-slate-700/50 border border-slate-600 rounded-lg p-2 text-sm">
+                        <input type="checkbox" checked={assignedUnitIds.includes(unit.id)} onChange={() => toggleAssignedUnit(unit.id)} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />
+                        <span className="font-mono text-white">{unit.serialNumber}</span>
+                        {unit.notes && <span className="text-xs text-slate-400 truncate">{unit.notes}</span>}
+                    </label>
+                ))}
+                {availableUnitsToAssign.length === 0 && <p className="text-sm text-slate-400">No units of this item are available.</p>}
+            </div>
+            <p className={`text-sm ${assignedUnitIds.length === logToAssign.quantity ? 'text-slate-400' : 'text-yellow-400'}`}>{assignedUnitIds.length} of {logToAssign.quantity} selected</p>
+            <div className="flex justify-end gap-3 pt-4">
+                <button type="button" onClick={() => setLogToAssign(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                <button type="submit" disabled={assignedUnitIds.length !== logToAssign.quantity} className="py-2 px-4 bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Approve Loan</button>
             </div>
         </form>
+        )}
       </Modal>
 
     </div>
@@ -95,6 +95,14 @@ const LoginPage: React.FC = () => {
                         </div>
                     </div>
                     
+                    <div className="flex justify-end">
+                        <Link href="/forgot-password" legacyBehavior>
+                          <a className="text-sm font-medium text-emerald-400 hover:text-emerald-300">
+                            Forgot password?
+                          </a>
+                        </Link>
+                    </div>
+
                     {error && (
                         <p className="text-center text-sm text-red-400 animate-in fade-in-0">{error}</p>
                     )}
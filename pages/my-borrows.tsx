@@ -3,17 +3,40 @@ import { useInventory } from '../context/InventoryContext';
 import { LogAction, LogEntry, LogStatus } from '../types';
 import { IconPrinter } from '../components/icons';
 import { useAuth } from '../context/AuthContext';
+import { getOutstandingQuantity, getOverdueInfo } from '../services/loanService';
+import { DueDateBadge } from '../components/DueDateBadge';
+import { formatCost, getUnresolvedIncidents } from '../services/incidentService';
+import { formatQuantity } from '../services/consumableService';
 
-const OverdueReminder: React.FC<{ overdueItems: { itemName: string }[] }> = ({ overdueItems }) => {
+const OverdueReminder: React.FC<{ overdueItems: { itemName: string; dueDate: Date }[] }> = ({ overdueItems }) => {
     if (overdueItems.length === 0) return null;
 
     return (
         <div className="mb-6 p-4 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-lg">
-            <h3 className="font-bold text-base mb-2">Weekly Return Reminder</h3>
-            <p className="mb-2">The following items were borrowed before last Friday and have not been returned. Please return them to the lab as soon as possible:</p>
+            <h3 className="font-bold text-base mb-2">Overdue Return Reminder</h3>
+            <p className="mb-2">The following items are past their due date and have not been returned. Please return them to the lab as soon as possible:</p>
             <ul className="list-disc list-inside space-y-1">
                 {overdueItems.map((item, index) => (
-                    <li key={index}><strong>{item.itemName}</strong></li>
+                    <li key={index}><strong>{item.itemName}</strong> (due {item.dueDate.toLocaleDateString()})</li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const IncidentNotice: React.FC<{ incidents: { id: string; itemName: string; replacementCost: number }[]; isBlocking: boolean }> = ({ incidents, isBlocking }) => {
+    if (incidents.length === 0) return null;
+
+    return (
+        <div className="mb-6 p-4 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-lg">
+            <h3 className="font-bold text-base mb-2">Unresolved Incidents</h3>
+            <p className="mb-2">
+                The lab has recorded damage or loss for the following items. Please settle them with a lab administrator
+                {isBlocking ? '. You cannot request new items until they are resolved.' : '.'}
+            </p>
+            <ul className="list-disc list-inside space-y-1">
+                {incidents.map(incident => (
+                    <li key={incident.id}><strong>{incident.itemName}</strong> (replacement cost {formatCost(incident.replacementCost)})</li>
                 ))}
             </ul>
         </div>
@@ -34,6 +57,8 @@ const StatusDisplay: React.FC<{ log: any }> = ({ log }) => {
             return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-900 text-red-300 print-text-black">Denied</span>;
         case LogStatus.RETURNED:
             return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-900 text-green-300 print-text-black">Returned</span>;
+        case LogStatus.ISSUED: // Consumables are used up, so there is nothing to return
+            return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-purple-900 text-purple-300 print-text-black">Issued</span>;
         case LogStatus.APPROVED:
         default: // Also handles legacy items without a status
             if (log.returnRequested) {
@@ -51,7 +76,7 @@ const StatusDisplay: React.FC<{ log: any }> = ({ log }) => {
 };
 
 const MyBorrows: React.FC = () => {
-  const { state } = useInventory();
+  const { state, borrowingPolicy } = useInventory();
   const { currentUser } = useAuth();
 
   const myLogs = useMemo(() => {
@@ -64,24 +89,29 @@ const MyBorrows: React.FC = () => {
             const returnLog = state.logs.find(l => l.action === LogAction.RETURN && l.relatedLogId === log.id);
             return {
                 ...log,
+                item,
                 itemName: item?.name || 'Unknown Item',
+                serialNumbers: state.assetUnits.filter(u => log.assetUnitIds?.includes(u.id)).map(u => u.serialNumber),
                 returnNotes: returnLog?.adminNotes,
             };
         })
         .sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  }, [state.logs, state.items, currentUser]);
+  }, [state.logs, state.items, state.assetUnits, currentUser]);
   
   const overdueItems = useMemo(() => {
-    const today = new Date();
-    const lastFriday = new Date(today);
-    lastFriday.setDate(today.getDate() - (today.getDay() + 2) % 7);
-    lastFriday.setHours(0, 0, 0, 0);
-
-    return myLogs.filter(log => 
-        log.status === LogStatus.APPROVED && new Date(log.timestamp) < lastFriday
-    );
+    return myLogs
+        .map(log => ({ ...log, ...getOverdueInfo(log, log.item) }))
+        .filter(log => log.isOverdue);
   }, [myLogs]);
 
+  const myUnresolvedIncidents = useMemo(() => {
+    if (!currentUser) return [];
+    return getUnresolvedIncidents(currentUser.id, state.incidents).map(incident => ({
+        ...incident,
+        itemName: state.items.find(i => i.id === incident.itemId)?.name || 'Unknown Item',
+    }));
+  }, [state.incidents, state.items, currentUser]);
+
 
   return (
     <div className="p-4 md:p-8">
@@ -97,6 +127,7 @@ const MyBorrows: React.FC = () => {
       </div>
       
       <OverdueReminder overdueItems={overdueItems} />
+      <IncidentNotice incidents={myUnresolvedIncidents} isBlocking={borrowingPolicy.blockBorrowingWithUnresolvedIncidents} />
 
       <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden print-bg-white">
         <div className="overflow-x-auto">
@@ -106,6 +137,7 @@ const MyBorrows: React.FC = () => {
                 <th scope="col" className="px-6 py-3">Item Name</th>
                 <th scope="col" className="px-6 py-3">Quantity</th>
                 <th scope="col" className="px-6 py-3">Date</th>
+                <th scope="col" className="px-6 py-3">Due Date</th>
                 <th scope="col" className="px-6 py-3 text-center">Status</th>
               </tr>
             </thead>
@@ -113,16 +145,25 @@ const MyBorrows: React.FC = () => {
               {myLogs.map(log => (
                 <React.Fragment key={log.id}>
                     <tr className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors print-text-black">
-                    <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">{log.itemName}</td>
-                    <td className="px-6 py-4">{log.quantity}</td>
+                    <td className="px-6 py-4 font-medium text-white print-text-black whitespace-nowrap">
+                        {log.itemName}
+                        {log.serialNumbers.length > 0 && <span className="block text-xs font-normal text-slate-400">S/N {log.serialNumbers.join(', ')}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                        {formatQuantity(log.quantity, log.item)}
+                        {log.status === LogStatus.APPROVED && getOutstandingQuantity(log) < log.quantity && (
+                            <span className="block text-xs text-slate-400">{log.quantity - getOutstandingQuantity(log)} returned</span>
+                        )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-4"><DueDateBadge log={log} item={log.item} /></td>
                     <td className="px-6 py-4 text-center">
                         <StatusDisplay log={log} />
                     </td>
                     </tr>
                     {(log.adminNotes || log.returnNotes) && (
                          <tr className="bg-slate-800/50 print-bg-white">
-                            <td colSpan={4} className="px-6 py-2 text-xs text-slate-400">
+                            <td colSpan={5} className="px-6 py-2 text-xs text-slate-400">
                                 <span className="font-semibold text-slate-300">Admin Note:</span> {log.adminNotes || log.returnNotes}
                             </td>
                          </tr>
@@ -131,7 +172,7 @@ const MyBorrows: React.FC = () => {
               ))}
               {myLogs.length === 0 && (
                 <tr>
-                    <td colSpan={4} className="text-center py-8 text-slate-400 print-text-black">You have not borrowed any items yet.</td>
+                    <td colSpan={5} className="text-center py-8 text-slate-400 print-text-black">You have not borrowed any items yet.</td>
                 </tr>
               )}
             </tbody>
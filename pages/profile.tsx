@@ -1,26 +1,29 @@
 import React, { useState, useEffect, FormEvent } from 'react';
+import Link from 'next/link';
 import { useAuth } from '../context/AuthContext';
 import { useInventory } from '../context/InventoryContext';
 import { User } from '../types';
-import { IconUserCircle, IconLoader } from '../components/icons';
+import { MIN_PASSWORD_LENGTH } from '../constants';
+import { IconUserCircle, IconLoader, IconBell, IconChevronRight } from '../components/icons';
 
 const Profile: React.FC = () => {
-    const { currentUser } = useAuth();
-    const { state, editUser } = useInventory();
+    const { currentUser, changePassword } = useAuth();
+    const { editUser } = useInventory();
     const [formData, setFormData] = useState<Partial<User>>({ fullName: '', email: '' });
     const [isSaving, setIsSaving] = useState(false);
     const [showSuccess, setShowSuccess] = useState(false);
     const [error, setError] = useState('');
+    const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    const [isChangingPassword, setIsChangingPassword] = useState(false);
+    const [passwordError, setPasswordError] = useState('');
+    const [passwordSuccess, setPasswordSuccess] = useState(false);
     
     useEffect(() => {
+        // currentUser is the signed-in user's own record, as returned by the server
         if (currentUser) {
-            // Find the full user object from the state to edit, since currentUser is secure
-            const fullUser = state.users.find(u => u.id === currentUser.id);
-            if (fullUser) {
-                setFormData(fullUser);
-            }
+            setFormData(currentUser);
         }
-    }, [currentUser, state.users]);
+    }, [currentUser]);
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
@@ -41,6 +44,42 @@ const Profile: React.FC = () => {
         }
     };
 
+    const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setPasswordForm(f => ({ ...f, [name]: value }));
+    };
+
+    const handlePasswordSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setPasswordError('');
+        setPasswordSuccess(false);
+
+        if (passwordForm.newPassword.length < MIN_PASSWORD_LENGTH) {
+            setPasswordError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+            return;
+        }
+        if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+            setPasswordError('The new passwords do not match.');
+            return;
+        }
+        if (passwordForm.newPassword === passwordForm.currentPassword) {
+            setPasswordError('The new password must be different from your current password.');
+            return;
+        }
+
+        setIsChangingPassword(true);
+        try {
+            await changePassword(passwordForm.currentPassword, passwordForm.newPassword);
+            setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+            setPasswordSuccess(true);
+            setTimeout(() => setPasswordSuccess(false), 3000);
+        } catch (err: any) {
+            setPasswordError(err.message || 'An error occurred.');
+        } finally {
+            setIsChangingPassword(false);
+        }
+    };
+
     if (!currentUser || !formData.id) {
         return <div className="p-4 md:p-8 text-center">Loading profile...</div>;
     }
@@ -128,6 +167,50 @@ const Profile: React.FC = () => {
                     )}
                 </form>
             </div>
+
+            <Link href="/profile/notifications" legacyBehavior>
+                <a className="flex items-center gap-4 bg-slate-800 p-6 rounded-lg border border-slate-700 mt-6 hover:border-emerald-500 transition-colors">
+                    <IconBell />
+                    <div className="flex-grow">
+                        <h2 className="text-lg font-semibold text-white">Notification Preferences</h2>
+                        <p className="text-sm text-slate-400">Choose which events reach you in the app and by email.</p>
+                    </div>
+                    <IconChevronRight />
+                </a>
+            </Link>
+
+            <div className="bg-slate-800 p-6 md:p-8 rounded-lg border border-slate-700 mt-6">
+                <h2 className="text-xl font-semibold text-white mb-6">Change Password</h2>
+                <form onSubmit={handlePasswordSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="currentPassword" className="block mb-2 text-sm font-medium text-slate-300">Current Password</label>
+                        <input type="password" id="currentPassword" name="currentPassword" autoComplete="current-password" value={passwordForm.currentPassword} onChange={handlePasswordChange} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="newPassword" className="block mb-2 text-sm font-medium text-slate-300">New Password</label>
+                            <input type="password" id="newPassword" name="newPassword" autoComplete="new-password" value={passwordForm.newPassword} onChange={handlePasswordChange} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                        </div>
+                        <div>
+                            <label htmlFor="confirmPassword" className="block mb-2 text-sm font-medium text-slate-300">Confirm New Password</label>
+                            <input type="password" id="confirmPassword" name="confirmPassword" autoComplete="new-password" value={passwordForm.confirmPassword} onChange={handlePasswordChange} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                        </div>
+                    </div>
+
+                    {passwordError && <p className="text-sm text-red-400 text-center">{passwordError}</p>}
+
+                    <div className="flex items-center justify-end gap-4 pt-4">
+                        {passwordSuccess && <p className="text-sm text-green-400">Password changed successfully!</p>}
+                        <button
+                            type="submit"
+                            disabled={isChangingPassword}
+                            className="flex items-center justify-center w-40 px-4 py-2 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+                        >
+                            {isChangingPassword ? <IconLoader /> : 'Change Password'}
+                        </button>
+                    </div>
+                </form>
+            </div>
         </div>
     );
 };
@@ -0,0 +1,164 @@
+import React, { useEffect, useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../../context/AuthContext';
+import { DigestFrequency, NotificationChannel, NotificationEvent, NotificationPreferences } from '../../types';
+import { IconChevronLeft, IconLoader } from '../../components/icons';
+import {
+    NOTIFICATION_EVENTS,
+    canReceiveDigest,
+    getDigestFrequency,
+    getNotificationChannels,
+    getRelevantNotificationEvents,
+} from '../../services/notificationService';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+    inApp: 'In-app',
+    email: 'Email',
+};
+
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly (Mondays)' },
+    { value: 'off', label: 'Off' },
+];
+
+const NotificationSettings: React.FC = () => {
+    const { currentUser, updateNotificationPreferences } = useAuth();
+    const [channels, setChannels] = useState<NotificationPreferences['channels']>({});
+    const [digest, setDigest] = useState<DigestFrequency>('off');
+    const [isSaving, setIsSaving] = useState(false);
+    const [showSuccess, setShowSuccess] = useState(false);
+    const [error, setError] = useState('');
+
+    // Start from the effective settings so the defaults show as ticked boxes
+    useEffect(() => {
+        if (!currentUser) return;
+        const effective: NotificationPreferences['channels'] = {};
+        getRelevantNotificationEvents(currentUser).forEach(event => {
+            effective[event] = getNotificationChannels(currentUser, event);
+        });
+        setChannels(effective);
+        setDigest(getDigestFrequency(currentUser));
+    }, [currentUser]);
+
+    const toggleChannel = (event: NotificationEvent, channel: NotificationChannel) => {
+        setChannels(prev => {
+            const current = prev[event] ?? [];
+            return {
+                ...prev,
+                [event]: current.includes(channel) ? current.filter(c => c !== channel) : [...current, channel],
+            };
+        });
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSaving(true);
+        try {
+            await updateNotificationPreferences({ channels, digest });
+            setShowSuccess(true);
+            setTimeout(() => setShowSuccess(false), 2000);
+        } catch (err: any) {
+            setError(err.message || 'An error occurred.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!currentUser) {
+        return <div className="p-4 md:p-8 text-center">Loading preferences...</div>;
+    }
+
+    const events = getRelevantNotificationEvents(currentUser);
+
+    return (
+        <div className="p-4 md:p-8 max-w-2xl mx-auto">
+            <Link href="/profile" legacyBehavior>
+                <a className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-white mb-4">
+                    <IconChevronLeft />
+                    My Profile
+                </a>
+            </Link>
+            <h1 className="text-3xl font-bold text-white mb-6">Notification Preferences</h1>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Event</th>
+                                {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                                    <th key={channel} scope="col" className="px-4 py-3 text-center">{CHANNEL_LABELS[channel]}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {events.map(event => {
+                                const info = NOTIFICATION_EVENTS[event];
+                                return (
+                                    <tr key={event} className="border-b border-slate-700 last:border-b-0">
+                                        <td className="px-6 py-4">
+                                            <p className="font-medium text-white">{info.label}</p>
+                                            <p className="text-xs text-slate-400">{info.description}</p>
+                                        </td>
+                                        {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                                            <td key={channel} className="px-4 py-4 text-center">
+                                                {info.channels.includes(channel) ? (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={channels[event]?.includes(channel) ?? false}
+                                                        onChange={() => toggleChannel(event, channel)}
+                                                        aria-label={`${info.label}: ${CHANNEL_LABELS[channel]}`}
+                                                        className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-emerald-600 focus:ring-emerald-500"
+                                                    />
+                                                ) : (
+                                                    <span className="text-slate-600">—</span>
+                                                )}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                {canReceiveDigest(currentUser) && (
+                    <div className="bg-slate-800 p-6 rounded-lg border border-slate-700">
+                        <h2 className="text-xl font-semibold text-white mb-2">Admin Digest</h2>
+                        <p className="text-sm text-slate-400 mb-4">
+                            One email summarizing pending borrow requests, accounts awaiting approval and overdue loans. Nothing is sent when nothing is waiting.
+                        </p>
+                        <label htmlFor="digest" className="block mb-2 text-sm font-medium text-slate-300">Send the digest</label>
+                        <select
+                            id="digest"
+                            value={digest}
+                            onChange={e => setDigest(e.target.value as DigestFrequency)}
+                            className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5"
+                        >
+                            {DIGEST_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </div>
+                )}
+
+                <p className="text-xs text-slate-500">Password reset and password change emails are always sent, as they protect your account.</p>
+
+                {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+                <div className="flex items-center justify-end gap-4">
+                    {showSuccess && <p className="text-sm text-green-400">Preferences saved!</p>}
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className="flex items-center justify-center w-40 px-4 py-2 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? <IconLoader /> : 'Save Preferences'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default NotificationSettings;
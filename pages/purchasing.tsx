@@ -0,0 +1,356 @@
+import React, { useMemo, useState } from 'react';
+import { useInventory } from '../context/InventoryContext';
+import { Modal } from '../components/Modal';
+import { IconDownload } from '../components/icons';
+import { ITEM_CATEGORIES } from '../constants';
+import { PurchaseRequest, PurchaseRequestStatus } from '../types';
+import { formatCost } from '../services/incidentService';
+import { convertToCSV, downloadCSV } from '../services/csvService';
+import {
+    PURCHASE_REQUEST_STATUS_LABELS,
+    canReceive,
+    getCategorySpend,
+    getEstimatedCost,
+    getOutstandingQuantity,
+    getReceivedQuantity,
+    isOpenPurchaseRequest,
+    toPurchaseRequestExportRow,
+    validatePurchaseDetails,
+    validateReceipt,
+} from '../services/purchaseService';
+
+const inputClassName = 'w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5';
+
+const statusClasses: Record<PurchaseRequestStatus, string> = {
+    [PurchaseRequestStatus.REQUESTED]: 'bg-yellow-900 text-yellow-300',
+    [PurchaseRequestStatus.ORDERED]: 'bg-blue-900 text-blue-300',
+    [PurchaseRequestStatus.PARTIALLY_RECEIVED]: 'bg-purple-900 text-purple-300',
+    [PurchaseRequestStatus.RECEIVED]: 'bg-green-900 text-green-300',
+    [PurchaseRequestStatus.CANCELLED]: 'bg-slate-700 text-slate-300',
+};
+
+type PurchaseAction =
+    | { type: 'edit'; purchaseRequest: PurchaseRequest; vendor: string; quantity: number; estimatedUnitCost: number }
+    | { type: 'order'; purchaseRequest: PurchaseRequest; orderReference: string }
+    | { type: 'receive'; purchaseRequest: PurchaseRequest; quantity: number }
+    | { type: 'cancel'; purchaseRequest: PurchaseRequest };
+
+const Purchasing: React.FC = () => {
+    const { state, editPurchaseRequest, orderPurchaseRequest, receivePurchaseRequest, cancelPurchaseRequest, setCategoryBudget } = useInventory();
+    const [activeTab, setActiveTab] = useState<'open' | 'closed'>('open');
+    const [action, setAction] = useState<PurchaseAction | null>(null);
+    const [budgetForm, setBudgetForm] = useState<{ category: string; amount: number } | null>(null);
+    const [error, setError] = useState('');
+
+    const spend = useMemo(
+        () => getCategorySpend(state.purchaseRequests, state.budgets, ITEM_CATEGORIES),
+        [state.purchaseRequests, state.budgets]
+    );
+
+    const totals = spend.reduce(
+        (sum, row) => ({
+            budget: sum.budget + (row.budget ?? 0),
+            requested: sum.requested + row.requested,
+            committed: sum.committed + row.committed,
+            received: sum.received + row.received,
+        }),
+        { budget: 0, requested: 0, committed: 0, received: 0 }
+    );
+
+    const { openRequests, closedRequests } = useMemo(() => {
+        const sorted = [...state.purchaseRequests].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        return {
+            openRequests: sorted.filter(isOpenPurchaseRequest),
+            closedRequests: sorted.filter(p => !isOpenPurchaseRequest(p)),
+        };
+    }, [state.purchaseRequests]);
+
+    const openAction = (next: PurchaseAction) => {
+        setError('');
+        setAction(next);
+    };
+
+    const handleActionSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!action) return;
+        const { purchaseRequest } = action;
+        const validationError =
+            action.type === 'edit' ? validatePurchaseDetails(action, getReceivedQuantity(purchaseRequest)) :
+            action.type === 'receive' ? validateReceipt(purchaseRequest, action.quantity) :
+            null;
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        try {
+            if (action.type === 'edit') {
+                await editPurchaseRequest({ ...purchaseRequest, vendor: action.vendor.trim(), quantity: action.quantity, estimatedUnitCost: action.estimatedUnitCost });
+            } else if (action.type === 'order') {
+                await orderPurchaseRequest(purchaseRequest.id, action.orderReference.trim());
+            } else if (action.type === 'receive') {
+                await receivePurchaseRequest(purchaseRequest.id, action.quantity);
+            } else {
+                await cancelPurchaseRequest(purchaseRequest.id);
+            }
+            setAction(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleBudgetSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!budgetForm || budgetForm.amount < 0) return;
+        try {
+            await setCategoryBudget(budgetForm);
+            setBudgetForm(null);
+        } catch (err: any) {
+            alert(`Failed to save budget: ${err.message}`);
+        }
+    };
+
+    const handleExport = () => {
+        downloadCSV(convertToCSV(state.purchaseRequests.map(toPurchaseRequestExportRow)), `olilab_purchases_${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    const requests = activeTab === 'open' ? openRequests : closedRequests;
+
+    const actionTitles: Record<PurchaseAction['type'], string> = {
+        edit: 'Edit Purchase Request',
+        order: 'Mark as Ordered',
+        receive: 'Receive Delivery',
+        cancel: 'Cancel Purchase Request',
+    };
+
+    return (
+        <div className="p-4 md:p-8 space-y-6">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">Purchasing</h1>
+                    <p className="text-sm text-slate-400 mt-1">Approved item suggestions wait here until they are ordered and delivered.</p>
+                </div>
+                <button onClick={handleExport} disabled={state.purchaseRequests.length === 0} className="flex items-center justify-center px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    <IconDownload /><span>Export CSV</span>
+                </button>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-x-auto">
+                <h2 className="p-4 font-semibold text-white">Budgets by Category</h2>
+                <table className="w-full text-sm text-left text-slate-300">
+                    <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Category</th>
+                            <th scope="col" className="px-6 py-3 text-right">Budget</th>
+                            <th scope="col" className="px-6 py-3 text-right">Requested</th>
+                            <th scope="col" className="px-6 py-3 text-right">Committed</th>
+                            <th scope="col" className="px-6 py-3 text-right">Received</th>
+                            <th scope="col" className="px-6 py-3 text-right">Remaining</th>
+                            <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {spend.map(row => (
+                            <tr key={row.category} className="border-b border-slate-700">
+                                <td className="px-6 py-3 font-medium text-white">{row.category}</td>
+                                <td className="px-6 py-3 text-right font-mono">{row.budget === null ? '—' : formatCost(row.budget)}</td>
+                                <td className="px-6 py-3 text-right font-mono text-slate-400">{formatCost(row.requested)}</td>
+                                <td className="px-6 py-3 text-right font-mono">{formatCost(row.committed)}</td>
+                                <td className="px-6 py-3 text-right font-mono">{formatCost(row.received)}</td>
+                                <td className={`px-6 py-3 text-right font-mono ${row.remaining !== null && row.remaining < 0 ? 'text-red-400' : ''}`}>
+                                    {row.remaining === null ? '—' : formatCost(row.remaining)}
+                                </td>
+                                <td className="px-6 py-3 text-right">
+                                    <button onClick={() => setBudgetForm({ category: row.category, amount: row.budget ?? 0 })} className="font-medium text-emerald-400 hover:text-emerald-300">
+                                        {row.budget === null ? 'Set Budget' : 'Change'}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                        <tr className="bg-slate-700/30 font-semibold text-white">
+                            <td className="px-6 py-3">Total</td>
+                            <td className="px-6 py-3 text-right font-mono">{formatCost(totals.budget)}</td>
+                            <td className="px-6 py-3 text-right font-mono">{formatCost(totals.requested)}</td>
+                            <td className="px-6 py-3 text-right font-mono">{formatCost(totals.committed)}</td>
+                            <td className="px-6 py-3 text-right font-mono">{formatCost(totals.received)}</td>
+                            <td className="px-6 py-3" colSpan={2} />
+                        </tr>
+                    </tbody>
+                </table>
+                <p className="p-4 text-xs text-slate-500">Committed is the estimated cost of ordered stock still to be delivered. Requested purchases do not count against the budget until they are ordered.</p>
+            </div>
+
+            <div>
+                <div className="border-b border-slate-700 mb-4">
+                    <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+                        <button onClick={() => setActiveTab('open')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'open' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
+                            Open ({openRequests.length})
+                        </button>
+                        <button onClick={() => setActiveTab('closed')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'closed' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
+                            Closed ({closedRequests.length})
+                        </button>
+                    </nav>
+                </div>
+
+                <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-300">
+                        <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Item</th>
+                                <th scope="col" className="px-6 py-3">Category</th>
+                                <th scope="col" className="px-6 py-3">Received</th>
+                                <th scope="col" className="px-6 py-3 text-right">Est. Cost</th>
+                                <th scope="col" className="px-6 py-3">Status</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {requests.map(purchaseRequest => {
+                                const received = getReceivedQuantity(purchaseRequest);
+                                return (
+                                    <tr key={purchaseRequest.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors">
+                                        <td className="px-6 py-4">
+                                            <span className="font-medium text-white">{purchaseRequest.itemName}</span>
+                                            <span className="block text-xs text-slate-400">
+                                                {purchaseRequest.vendor}
+                                                {purchaseRequest.orderReference && ` · #${purchaseRequest.orderReference}`}
+                                                {purchaseRequest.orderedAt && ` · ordered ${new Date(purchaseRequest.orderedAt).toLocaleDateString()}`}
+                                            </span>
+                                        </td>
+                                        <td className="px-6 py-4">{purchaseRequest.category}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            {received} / {purchaseRequest.quantity}
+                                            {purchaseRequest.receipts.length > 0 && (
+                                                <span className="block text-xs text-slate-400">last {new Date(purchaseRequest.receipts[purchaseRequest.receipts.length - 1].receivedAt).toLocaleDateString()}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-right font-mono">
+                                            {formatCost(getEstimatedCost(purchaseRequest))}
+                                            <span className="block text-xs text-slate-400">{formatCost(purchaseRequest.estimatedUnitCost)} each</span>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${statusClasses[purchaseRequest.status]}`}>{PURCHASE_REQUEST_STATUS_LABELS[purchaseRequest.status]}</span>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex justify-end gap-3 whitespace-nowrap">
+                                                {purchaseRequest.status === PurchaseRequestStatus.REQUESTED && (
+                                                    <button onClick={() => openAction({ type: 'order', purchaseRequest, orderReference: '' })} className="font-medium text-blue-400 hover:text-blue-300">Mark Ordered</button>
+                                                )}
+                                                {canReceive(purchaseRequest) && (
+                                                    <button onClick={() => openAction({ type: 'receive', purchaseRequest, quantity: getOutstandingQuantity(purchaseRequest) })} className="font-medium text-emerald-400 hover:text-emerald-300">Receive</button>
+                                                )}
+                                                {isOpenPurchaseRequest(purchaseRequest) && (
+                                                    <button
+                                                        onClick={() => openAction({ type: 'edit', purchaseRequest, vendor: purchaseRequest.vendor, quantity: purchaseRequest.quantity, estimatedUnitCost: purchaseRequest.estimatedUnitCost })}
+                                                        className="font-medium text-slate-300 hover:text-white"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                )}
+                                                {isOpenPurchaseRequest(purchaseRequest) && received === 0 && (
+                                                    <button onClick={() => openAction({ type: 'cancel', purchaseRequest })} className="font-medium text-red-400 hover:text-red-300">Cancel</button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {requests.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="text-center py-8 text-slate-400">
+                                        {activeTab === 'open' ? 'No open purchase requests. Approving an item suggestion raises one.' : 'No received or cancelled purchases yet.'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <Modal isOpen={!!action} onClose={() => setAction(null)} title={action ? actionTitles[action.type] : ''}>
+                {action && (
+                    <form onSubmit={handleActionSubmit} className="space-y-4">
+                        <p className="text-slate-300">
+                            <strong className="text-white">{action.purchaseRequest.itemName}</strong> from {action.purchaseRequest.vendor}
+                        </p>
+                        {action.type === 'edit' && (
+                            <>
+                                <div>
+                                    <label htmlFor="vendor" className="block mb-2 text-sm font-medium text-slate-300">Vendor</label>
+                                    <input id="vendor" type="text" value={action.vendor} onChange={(e) => setAction({ ...action, vendor: e.target.value })} required className={inputClassName} />
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity</label>
+                                        <input id="quantity" type="number" min="1" value={action.quantity} onChange={(e) => setAction({ ...action, quantity: parseInt(e.target.value, 10) || 0 })} required className={inputClassName} />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="unitCost" className="block mb-2 text-sm font-medium text-slate-300">Est. Unit Cost</label>
+                                        <input id="unitCost" type="number" min="0" step="0.01" value={action.estimatedUnitCost} onChange={(e) => setAction({ ...action, estimatedUnitCost: parseFloat(e.target.value) || 0 })} required className={inputClassName} />
+                                    </div>
+                                </div>
+                                {getReceivedQuantity(action.purchaseRequest) > 0 && (
+                                    <p className="text-xs text-slate-400">Lower the quantity to the {getReceivedQuantity(action.purchaseRequest)} already received to close the order.</p>
+                                )}
+                            </>
+                        )}
+                        {action.type === 'order' && (
+                            <div>
+                                <label htmlFor="orderReference" className="block mb-2 text-sm font-medium text-slate-300">Order or Quotation Number (optional)</label>
+                                <input id="orderReference" type="text" value={action.orderReference} onChange={(e) => setAction({ ...action, orderReference: e.target.value })} className={inputClassName} />
+                            </div>
+                        )}
+                        {action.type === 'receive' && (
+                            <>
+                                <div>
+                                    <label htmlFor="receivedQuantity" className="block mb-2 text-sm font-medium text-slate-300">
+                                        Quantity Delivered ({getOutstandingQuantity(action.purchaseRequest)} outstanding)
+                                    </label>
+                                    <input id="receivedQuantity" type="number" min="1" max={getOutstandingQuantity(action.purchaseRequest)} value={action.quantity} onChange={(e) => setAction({ ...action, quantity: parseInt(e.target.value, 10) || 0 })} required className={inputClassName} />
+                                </div>
+                                <p className="text-xs text-slate-400">
+                                    {action.purchaseRequest.itemId
+                                        ? 'The delivery is added to the item\'s stock as a purchase.'
+                                        : `This adds ${action.purchaseRequest.itemName} to the inventory under ${action.purchaseRequest.category}. Edit it there afterwards to set its unit, location and other details.`}
+                                </p>
+                            </>
+                        )}
+                        {action.type === 'cancel' && (
+                            <p className="text-slate-300">The request is closed and no longer counts against the {action.purchaseRequest.category} budget.</p>
+                        )}
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        <div className="flex justify-end gap-3 pt-4">
+                            <button type="button" onClick={() => setAction(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Back</button>
+                            <button type="submit" className={`py-2 px-4 rounded-lg transition-colors ${action.type === 'cancel' ? 'bg-red-600 hover:bg-red-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}>
+                                {action.type === 'edit' ? 'Save' : action.type === 'order' ? 'Mark Ordered' : action.type === 'receive' ? 'Receive' : 'Cancel Request'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!budgetForm} onClose={() => setBudgetForm(null)} title={`${budgetForm?.category ?? ''} Budget`}>
+                {budgetForm && (
+                    <form onSubmit={handleBudgetSubmit} className="space-y-4">
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={budgetForm.amount}
+                            onChange={(e) => setBudgetForm({ ...budgetForm, amount: parseFloat(e.target.value) || 0 })}
+                            aria-label="Budget amount"
+                            required
+                            autoFocus
+                            className={inputClassName}
+                        />
+                        <div className="flex justify-end gap-3 pt-4">
+                            <button type="button" onClick={() => setBudgetForm(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                            <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Save Budget</button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default Purchasing;
@@ -2,80 +2,21 @@ import React, { useCallback, useRef, useState, useEffect } from 'react';
 import { useInventory } from '../context/InventoryContext';
 import { IconDownload, IconPrinter, IconUpload, IconDeviceFloppy } from '../components/icons';
 import { useSettings } from '../context/SettingsContext';
-
-const downloadCSV = (csvContent: string, fileName: string) => {
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", fileName);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-};
-
-const convertToCSV = <T extends object>(data: T[]): string => {
-    if (data.length === 0) return "";
-    const headers = Object.keys(data[0]);
-    const csvRows = [headers.join(',')];
-    for (const row of data) {
-        const values = headers.map(header => {
-            const value = (row as any)[header];
-            const stringValue = String(value ?? '');
-            // Escape commas and quotes by enclosing in double quotes
-            if (/[",\n]/.test(stringValue)) {
-                return `"${stringValue.replace(/"/g, '""')}"`;
-            }
-            return stringValue;
-        });
-        csvRows.push(values.join(','));
-    }
-    return csvRows.join('\n');
-};
-
-// A more robust CSV parser that handles quoted fields with commas.
-const parseCSV = (csvText: string): Record<string, string>[] => {
-    try {
-        const lines = csvText.trim().split(/\r\n|\n/);
-        if (lines.length < 2) return [];
-
-        const headers = lines.shift()!.split(',').map(h => h.trim());
-        const data: Record<string, string>[] = [];
-
-        lines.forEach(line => {
-            if (line.trim() === '') return;
-            // This regex splits by comma, but ignores commas inside double quotes.
-            const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/);
-            
-            if (values.length === headers.length) {
-                const row: Record<string, string> = {};
-                headers.forEach((header, index) => {
-                    let value = (values[index] || '').trim();
-                    // Remove surrounding quotes and un-escape double quotes
-                    if (value.startsWith('"') && value.endsWith('"')) {
-                        value = value.substring(1, value.length - 1).replace(/""/g, '"');
-                    }
-                    row[header] = value;
-                });
-                data.push(row);
-            }
-        });
-        return data;
-    } catch (error) {
-        console.error("Failed to parse CSV", error);
-        return [];
-    }
-};
+import { useAuth } from '../context/AuthContext';
+import { can } from '../services/permissionService';
+import { convertToCSV, downloadCSV, parseCSV } from '../services/csvService';
+import { ConsumableUsageReport } from '../components/ConsumableUsageReport';
+import { GHS_PICTOGRAMS } from '../services/chemicalService';
 
 const DataReports: React.FC = () => {
-    const { state, importItems } = useInventory();
+    const { state, importItems, borrowingPolicy, updateBorrowingPolicy } = useInventory();
     const { settings, updateSettings } = useSettings();
+    const { currentUser } = useAuth();
 
     const [importStatus, setImportStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const [localSettings, setLocalSettings] = useState(settings);
-    const [saveStatus, setSaveStatus] = useState('');
+    const [localPolicy, setLocalPolicy] = useState(borrowingPolicy);
+    const [saveStatus, setSaveStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
     const inventoryInputRef = useRef<HTMLInputElement>(null);
 
@@ -83,22 +24,44 @@ const DataReports: React.FC = () => {
         setLocalSettings(settings);
     }, [settings]);
 
+    useEffect(() => {
+        setLocalPolicy(borrowingPolicy);
+    }, [borrowingPolicy]);
+
     const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setLocalSettings({
             ...localSettings,
-            [e.target.name]: e.target.value
+            [e.target.name]: e.target.type === 'checkbox' ? e.target.checked : e.target.value
         });
     };
 
-    const handleSettingsSave = (e: React.FormEvent) => {
+    // The title and logo are kept in this browser; the borrowing policy is saved on the server for everyone
+    const handleSettingsSave = async (e: React.FormEvent) => {
         e.preventDefault();
         updateSettings(localSettings);
-        setSaveStatus('Settings saved successfully!');
-        setTimeout(() => setSaveStatus(''), 3000);
+        try {
+            if (localPolicy.blockBorrowingWithUnresolvedIncidents !== borrowingPolicy.blockBorrowingWithUnresolvedIncidents) {
+                await updateBorrowingPolicy(localPolicy);
+            }
+            setSaveStatus({ message: 'Settings saved successfully!', type: 'success' });
+        } catch (error: any) {
+            setSaveStatus({ message: `Could not save the borrowing policy: ${error.message}`, type: 'error' });
+        }
+        setTimeout(() => setSaveStatus(null), 3000);
     };
 
     const handleExportInventory = useCallback(() => {
-        const csvData = convertToCSV(state.items);
+        // Chemical details are flattened into their own columns
+        const csvData = convertToCSV(state.items.map(({ chemical, ...item }) => ({
+            ...item,
+            ...(chemical && {
+                casNumber: chemical.casNumber ?? '',
+                hazards: chemical.hazards.map(h => GHS_PICTOGRAMS[h].code).join(' '),
+                storageClass: chemical.storageClass ?? '',
+                lotNumber: chemical.lotNumber ?? '',
+                expiryDate: chemical.expiryDate ?? '',
+            }),
+        })));
         downloadCSV(csvData, 'olilab_inventory.csv');
     }, [state.items]);
 
@@ -180,14 +143,17 @@ const DataReports: React.FC = () => {
                             <button onClick={handleExportInventory} className="flex items-center justify-center w-full px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors">
                                 <IconDownload /><span>Inventory</span>
                             </button>
-                            <button onClick={handleExportUsers} className="flex items-center justify-center w-full px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors">
-                                <IconDownload /><span>Users</span>
-                            </button>
+                            {can(currentUser, 'users.manage') && (
+                                <button onClick={handleExportUsers} className="flex items-center justify-center w-full px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors">
+                                    <IconDownload /><span>Users</span>
+                                </button>
+                            )}
                             <button onClick={handleExportLogs} className="flex items-center justify-center w-full px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors">
                                 <IconDownload /><span>Logs</span>
                             </button>
                         </div>
                     </div>
+                    {can(currentUser, 'items.manage') && (
                      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700">
                         <h2 className="text-xl font-semibold text-white mb-4">Import Inventory</h2>
                         <p className="text-slate-400 mb-6">Upload a CSV file to bulk-add items to the inventory. The CSV must contain 'name', 'category', and 'totalQuantity' columns.</p>
@@ -202,12 +168,14 @@ const DataReports: React.FC = () => {
                             </div>
                         )}
                     </div>
+                    )}
                 </div>
 
                 {/* Settings */}
+                {can(currentUser, 'settings.manage') && (
                 <div className="bg-slate-800 p-6 rounded-lg border border-slate-700">
                     <h2 className="text-xl font-semibold text-white mb-4">System Settings</h2>
-                    <p className="text-slate-400 mb-6">Customize the title and logo of the application.</p>
+                    <p className="text-slate-400 mb-6">Customize the title and logo of the application and the lab's borrowing policy.</p>
                     <form className="space-y-4" onSubmit={handleSettingsSave}>
                         <div>
                             <label htmlFor="title" className="block mb-2 text-sm font-medium text-slate-300">System Title</label>
@@ -217,8 +185,12 @@ const DataReports: React.FC = () => {
                             <label htmlFor="logoUrl" className="block mb-2 text-sm font-medium text-slate-300">Logo Image URL</label>
                             <input type="text" id="logoUrl" name="logoUrl" value={localSettings.logoUrl} onChange={handleSettingsChange} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" />
                         </div>
+                        <label htmlFor="blockBorrowingWithUnresolvedIncidents" className="flex items-start gap-3 text-sm text-slate-300">
+                            <input type="checkbox" id="blockBorrowingWithUnresolvedIncidents" name="blockBorrowingWithUnresolvedIncidents" checked={localPolicy.blockBorrowingWithUnresolvedIncidents} onChange={e => setLocalPolicy({ ...localPolicy, blockBorrowingWithUnresolvedIncidents: e.target.checked })} className="mt-0.5 w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />
+                            <span>Block borrow requests from users with unresolved damage or loss incidents</span>
+                        </label>
                         <div className="flex items-center justify-end gap-4 pt-4">
-                            {saveStatus && <p className="text-sm text-green-400">{saveStatus}</p>}
+                            {saveStatus && <p className={`text-sm ${saveStatus.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{saveStatus.message}</p>}
                             <button type="submit" className="flex items-center justify-center px-4 py-2 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors">
                                 <IconDeviceFloppy />
                                 <span>Save Settings</span>
@@ -226,7 +198,10 @@ const DataReports: React.FC = () => {
                         </div>
                     </form>
                 </div>
+                )}
             </div>
+
+            <ConsumableUsageReport />
         </div>
     );
 };
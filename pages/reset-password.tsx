@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { IconOliveBranch, IconLoader } from '../components/icons';
+import api from '../services/apiService';
+import { MIN_PASSWORD_LENGTH } from '../constants';
+
+const ResetPasswordPage: React.FC = () => {
+    const router = useRouter();
+    const token = typeof router.query.token === 'string' ? router.query.token : '';
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+            setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+            return;
+        }
+        if (newPassword !== confirmPassword) {
+            setError('The passwords do not match.');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            await api.resetPassword({ token, newPassword });
+            router.replace({
+                pathname: '/login',
+                query: { message: 'Your password has been reset. You can now sign in with your new password.' }
+            });
+        } catch (err: any) {
+            setError(err.message || 'This reset link is invalid or has expired.');
+            setIsLoading(false);
+        }
+    };
+
+    const inputClasses = "appearance-none rounded-lg relative block w-full px-3 py-3 border border-slate-600 bg-slate-700 text-white placeholder-slate-400 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 focus:z-10 sm:text-sm";
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-slate-900">
+            <div className="w-full max-w-sm p-8 space-y-8 bg-slate-800 rounded-2xl shadow-2xl border border-slate-700">
+                <div className="flex flex-col items-center">
+                    <div className="p-3 bg-emerald-600 rounded-lg mb-4">
+                        <IconOliveBranch />
+                    </div>
+                    <h1 className="text-3xl font-bold text-white">Reset Password</h1>
+                    <p className="text-slate-400">Choose a new password for your account.</p>
+                </div>
+
+                {router.isReady && !token ? (
+                    <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-lg text-center">
+                        This reset link is incomplete. Please use the link from your email, or request a new one.
+                    </div>
+                ) : (
+                    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+                        <div className="rounded-md shadow-sm space-y-4">
+                            <div>
+                                <label htmlFor="newPassword" className="sr-only">New Password</label>
+                                <input id="newPassword" name="newPassword" type="password" autoComplete="new-password" required value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClasses} placeholder="New Password" />
+                            </div>
+                            <div>
+                                <label htmlFor="confirmPassword" className="sr-only">Confirm New Password</label>
+                                <input id="confirmPassword" name="confirmPassword" type="password" autoComplete="new-password" required value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClasses} placeholder="Confirm New Password" />
+                            </div>
+                        </div>
+
+                        {error && (
+                            <p className="text-center text-sm text-red-400 animate-in fade-in-0">{error}</p>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={isLoading || !newPassword || !confirmPassword}
+                            className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isLoading ? <IconLoader className="h-5 w-5" /> : 'Reset Password'}
+                        </button>
+                    </form>
+                )}
+                <p className="text-center text-sm text-slate-400">
+                    <Link href="/forgot-password" legacyBehavior>
+                      <a className="font-medium text-emerald-400 hover:text-emerald-300">
+                        Request a new link
+                      </a>
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default ResetPasswordPage;
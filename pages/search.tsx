@@ -1,10 +1,15 @@
 import React, { useState, useCallback } from 'react';
 import { useInventory } from '../context/InventoryContext';
-import { Item } from '../types';
+import { AssetUnit, Item, StorageLocation } from '../types';
 import { Modal } from '../components/Modal';
 import { IconSearch } from '../components/icons';
 import { useAuth } from '../context/AuthContext';
 import { UserSearchInput } from '../components/UserSearchInput';
+import { can } from '../services/permissionService';
+import { withoutArchived } from '../services/archiveService';
+import { HazardWarning } from '../components/ChemicalBadges';
+import { formatLocationPath, getDescendantIds, getItemsAtLocation } from '../services/locationService';
+import { formatQuantity } from '../services/consumableService';
 import dynamic from 'next/dynamic';
 
 const QRScanner = dynamic(() => import('../components/QRScanner').then(mod => mod.QRScanner), { ssr: false });
@@ -24,7 +29,10 @@ const InventoryProgressBar: React.FC<{ available: number; total: number }> = ({
 const Search: React.FC = () => {
     const { state, requestBorrowItem } = useInventory();
     const { currentUser } = useAuth();
+    const canRequest = can(currentUser, 'loans.borrow') || can(currentUser, 'loans.lend');
     const [searchResults, setSearchResults] = useState<Item[]>([]);
+    const [scannedUnit, setScannedUnit] = useState<AssetUnit | null>(null);
+    const [scannedLocation, setScannedLocation] = useState<StorageLocation | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
     const [hasSearched, setHasSearched] = useState(false);
     const [isBorrowModalOpen, setBorrowModalOpen] = useState(false);
@@ -37,6 +45,8 @@ const Search: React.FC = () => {
         setIsClient(true);
     }, []);
 
+    const borrower = state.users.find(u => u.id === borrowerId) ?? (borrowerId === currentUser?.id ? currentUser : null);
+
     const handleOpenBorrowModal = (item: Item) => {
         setSelectedItem(item);
         setBorrowForm({ quantity: 1 });
@@ -67,6 +77,8 @@ const Search: React.FC = () => {
         setSearchQuery(query);
         setHasSearched(true);
         setSearchResults([]);
+        setScannedUnit(null);
+        setScannedLocation(null);
 
         if (!query) return;
 
@@ -78,17 +90,38 @@ const Search: React.FC = () => {
             if(qrData.id || qrData.name) {
                 searchTerm = (qrData.name || qrData.id).toLowerCase();
             }
+            // Unit labels also carry the unit id so the exact unit can be shown
+            if (qrData.unitId) {
+                setScannedUnit(state.assetUnits.find(u => u.id === qrData.unitId) ?? null);
+            }
+            // Location labels list everything kept there instead of searching by name
+            if (qrData.locationId) {
+                const location = state.locations.find(l => l.id === qrData.locationId);
+                if (location) {
+                    setSearchQuery(formatLocationPath(location.id, state.locations));
+                    setScannedLocation(location);
+                    const stored = getItemsAtLocation(location.id, withoutArchived(state.items), state.locations);
+                    setSearchResults(Array.from(new Set(stored.map(s => s.item))));
+                    return;
+                }
+            }
         } catch (e) {
             // Not JSON, treat as plain text. searchTerm is already set.
         }
 
-        foundItems = state.items.filter(item => 
+        foundItems = withoutArchived(state.items).filter(item => 
             item.name.toLowerCase().includes(searchTerm) ||
             item.id.toLowerCase() === searchTerm
         );
         
         setSearchResults(foundItems);
-    }, [state.items]);
+    }, [state.items, state.assetUnits, state.locations]);
+
+    // Where the item is kept; after a location scan, only the places inside that location
+    const getShownLocations = (item: Item) => {
+        const within = scannedLocation ? getDescendantIds(scannedLocation.id, state.locations) : null;
+        return (item.locations ?? []).filter(l => !within || within.has(l.locationId));
+    };
 
     const handleScanFailure = (error: string) => {
         console.warn(`QR scan error: ${error}`);
@@ -128,6 +161,17 @@ const Search: React.FC = () => {
                 {hasSearched && (
                     <>
                         <h2 className="text-2xl font-semibold text-white mb-4">Search Results for "{searchQuery}"</h2>
+                        {scannedLocation && (
+                            <div className="mb-4 p-3 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-300">
+                                Everything stored in <strong className="text-white">{formatLocationPath(scannedLocation.id, state.locations)}</strong>, including the places inside it.
+                            </div>
+                        )}
+                        {scannedUnit && (
+                            <div className="mb-4 p-3 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-300">
+                                Scanned unit <span className="font-mono text-white">{scannedUnit.serialNumber}</span> is currently <strong className="text-white">{scannedUnit.status.replace('_', ' ').toLowerCase()}</strong>.
+                                {scannedUnit.notes && <span className="block text-xs text-slate-400 mt-1">{scannedUnit.notes}</span>}
+                            </div>
+                        )}
                         {searchResults.length > 0 ? (
                             <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden">
                                 <div className="overflow-x-auto">
@@ -136,6 +180,7 @@ const Search: React.FC = () => {
                                             <tr>
                                                 <th scope="col" className="px-6 py-3">Item Name</th>
                                                 <th scope="col" className="px-6 py-3">Category</th>
+                                                <th scope="col" className="px-6 py-3">Location</th>
                                                 <th scope="col" className="px-6 py-3">Availability</th>
                                                 <th scope="col" className="px-6 py-3 text-center">Actions</th>
                                             </tr>
@@ -145,6 +190,15 @@ const Search: React.FC = () => {
                                                 <tr key={item.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors">
                                                     <td className="px-6 py-4 font-medium text-white whitespace-nowrap">{item.name}</td>
                                                     <td className="px-6 py-4 whitespace-nowrap">{item.category}</td>
+                                                    <td className="px-6 py-4">
+                                                        {getShownLocations(item).map(l => (
+                                                            <p key={l.locationId} className="whitespace-nowrap">
+                                                                {formatLocationPath(l.locationId, state.locations)}
+                                                                <span className="text-xs text-slate-400"> · {formatQuantity(l.quantity, item)}</span>
+                                                            </p>
+                                                        ))}
+                                                        {getShownLocations(item).length === 0 && <span className="text-slate-500">Not recorded</span>}
+                                                    </td>
                                                     <td className="px-6 py-4">
                                                         <div className="flex items-center gap-3 min-w-[200px]">
                                                             <span className="font-mono text-sm whitespace-nowrap">{item.availableQuantity} / {item.totalQuantity}</span>
@@ -154,7 +208,7 @@ const Search: React.FC = () => {
                                                     <td className="px-6 py-4 text-center">
                                                         <button
                                                             onClick={() => handleOpenBorrowModal(item)}
-                                                            disabled={item.availableQuantity === 0}
+                                                            disabled={!canRequest || item.availableQuantity === 0}
                                                             className="font-medium text-emerald-400 hover:text-emerald-300 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
                                                         >
                                                             Request
@@ -168,7 +222,7 @@ const Search: React.FC = () => {
                             </div>
                         ) : (
                             <div className="text-center py-10 px-6 bg-slate-800 rounded-lg border border-slate-700">
-                                <p className="text-slate-400">No items found matching your search.</p>
+                                <p className="text-slate-400">{scannedLocation ? 'Nothing is recorded as stored here.' : 'No items found matching your search.'}</p>
                             </div>
                         )}
                     </>
@@ -177,7 +231,7 @@ const Search: React.FC = () => {
 
             <Modal isOpen={isBorrowModalOpen} onClose={() => setBorrowModalOpen(false)} title={`Request to Borrow: ${selectedItem?.name}`}>
                 <form onSubmit={handleBorrowSubmit} className="space-y-4">
-                    {currentUser?.isAdmin ? (
+                    {can(currentUser, 'loans.lend') ? (
                         <UserSearchInput selectedUserId={borrowerId} onUserSelect={setBorrowerId} />
                     ) : (
                         <div>
@@ -191,6 +245,7 @@ const Search: React.FC = () => {
                         <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity</label>
                         <input type="number" id="quantity" value={borrowForm.quantity} onChange={(e) => setBorrowForm({ quantity: parseInt(e.target.value, 10)})} min="1" max={selectedItem?.availableQuantity} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
                     </div>
+                    <HazardWarning items={[selectedItem ?? undefined]} borrower={borrower} />
                     <div className="flex justify-end gap-3 pt-4">
                         <button type="button" onClick={() => setBorrowModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
                         <button type="submit" disabled={!borrowerId} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500 disabled:cursor-not-allowed">Submit Request</button>
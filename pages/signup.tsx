@@ -3,8 +3,8 @@ import { useRouter } from 'next/router';
 import Link from 'next/link';
 import { useInventory } from '../context/InventoryContext';
 import { IconOliveBranch, IconLoader } from '../components/icons';
-import { User } from '../types';
-import { GRADE_LEVELS } from '../constants';
+import { NewUserRegistration, User } from '../types';
+import { GRADE_LEVELS, MIN_PASSWORD_LENGTH } from '../constants';
 import { Modal } from '../components/Modal';
 import { UserAgreement } from '../components/UserAgreement';
 
@@ -31,7 +31,7 @@ const SignUpPage: React.FC = () => {
     const [formData, setFormData] = useState(initialFormState);
     const [errors, setErrors] = useState(initialErrorsState);
     const [isLoading, setIsLoading] = useState(false);
-    const { state, createUser } = useInventory();
+    const { createUser } = useInventory();
     const router = useRouter();
     const [isAgreementModalOpen, setAgreementModalOpen] = useState(false);
     const [agreedToTerms, setAgreedToTerms] = useState(false);
@@ -40,30 +40,16 @@ const SignUpPage: React.FC = () => {
         const newErrors = { ...initialErrorsState };
         let isValid = true;
 
-        if (formData.password.length < 6) {
-            newErrors.password = 'Password must be at least 6 characters long.';
+        if (formData.password.length < MIN_PASSWORD_LENGTH) {
+            newErrors.password = `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
             isValid = false;
         }
         if (formData.lrn && !/^\d{12}$/.test(formData.lrn)) {
             newErrors.lrn = 'LRN must be exactly 12 digits.';
             isValid = false;
         }
-        if (state.users.some(u => u.username.toLowerCase() === formData.username.toLowerCase())) {
-            newErrors.username = 'This username is already taken.';
-            isValid = false;
-        }
-        if (state.users.some(u => u.fullName.toLowerCase() === formData.fullName.toLowerCase())) {
-            newErrors.fullName = 'A user with this full name already exists.';
-            isValid = false;
-        }
-        if (state.users.some(u => u.email.toLowerCase() === formData.email.toLowerCase())) {
-            newErrors.email = 'This email is already registered.';
-            isValid = false;
-        }
-        if (formData.lrn && state.users.some(u => u.lrn === formData.lrn)) {
-            if (!newErrors.lrn) newErrors.lrn = 'This LRN is already registered.';
-            isValid = false;
-        }
+        // Duplicate usernames, emails and LRNs are rejected by the server, since visitors
+        // who have not signed in cannot see other users' records.
 
         setErrors(newErrors);
         return isValid;
@@ -81,7 +67,7 @@ const SignUpPage: React.FC = () => {
 
         try {
             const { ...userProfileData } = formData;
-            const newUser: Omit<User, 'id' | 'status'> = {
+            const newUser: NewUserRegistration = {
                 ...userProfileData,
                 isAdmin: false, // New signups are always members
                 role: 'Member',
@@ -95,7 +81,7 @@ const SignUpPage: React.FC = () => {
             });
 
         } catch (err: any) {
-            let errorMessage = 'An error occurred during sign up.';
+            const errorMessage = err.message || 'An error occurred during sign up.';
             console.error("Signup error:", err);
             setErrors(prev => ({ ...prev, general: errorMessage }));
         } finally {
@@ -0,0 +1,459 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useInventory } from '../context/InventoryContext';
+import api from '../services/apiService';
+import { Item, Stocktake, StocktakeStatus } from '../types';
+import { Modal } from '../components/Modal';
+import { IconDownload, IconLoader } from '../components/icons';
+import { withoutArchived } from '../services/archiveService';
+import { formatQuantity } from '../services/consumableService';
+import { formatLocationPath, getItemsAtLocation } from '../services/locationService';
+import { formatQuantityChange } from '../services/stockService';
+import { convertToCSV, downloadCSV } from '../services/csvService';
+import {
+    canPostVariance,
+    getLocationCount,
+    getUncountedItems,
+    getVarianceReport,
+    parseScannedLabel,
+    summarizeVariances,
+    toVarianceExportRow,
+} from '../services/stocktakeService';
+
+const QRScanner = dynamic(() => import('../components/QRScanner').then(mod => mod.QRScanner), { ssr: false });
+
+const inputClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5';
+
+const statusClasses: Record<StocktakeStatus, string> = {
+    [StocktakeStatus.OPEN]: 'bg-blue-900 text-blue-300',
+    [StocktakeStatus.COMPLETED]: 'bg-green-900 text-green-300',
+    [StocktakeStatus.CANCELLED]: 'bg-slate-700 text-slate-300',
+};
+
+// One place to count an item at. Items split across locations are counted at each one and the
+// figures added up; locationId is null for a count that is not tied to a location.
+interface CountTarget {
+    item: Item;
+    locationId: string | null;
+}
+
+const targetKey = ({ item, locationId }: CountTarget) => `${item.id}:${locationId ?? ''}`;
+
+const defaultStocktakeName = () => {
+    const now = new Date();
+    return `Q${Math.floor(now.getMonth() / 3) + 1} ${now.getFullYear()} stocktake`;
+};
+
+const StocktakePage: React.FC = () => {
+    const { state, completeStocktake } = useInventory();
+    const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [newName, setNewName] = useState(defaultStocktakeName);
+    const [isScanning, setIsScanning] = useState(false);
+    const [scanKey, setScanKey] = useState(0);
+    const [scanMessage, setScanMessage] = useState('');
+    const [countQueue, setCountQueue] = useState<CountTarget[]>([]);
+    const [countInputs, setCountInputs] = useState<Record<string, string>>({});
+    const [manualItemId, setManualItemId] = useState('');
+    const [onlyVariances, setOnlyVariances] = useState(false);
+    const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+    const [isCompleteModalOpen, setCompleteModalOpen] = useState(false);
+    const [isCancelModalOpen, setCancelModalOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        api.getStocktakes()
+            .then(setStocktakes)
+            .catch((err: Error) => setError(err.message || 'Could not load stocktakes.'))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const activeItems = useMemo(
+        () => withoutArchived(state.items).sort((a, b) => a.name.localeCompare(b.name)),
+        [state.items]
+    );
+
+    const openStocktake = stocktakes.find(s => s.status === StocktakeStatus.OPEN) ?? null;
+    const viewed = (selectedId ? stocktakes.find(s => s.id === selectedId) : openStocktake) ?? null;
+    const isOpen = viewed?.status === StocktakeStatus.OPEN;
+
+    const report = useMemo(() => (viewed ? getVarianceReport(viewed, state.items) : []), [viewed, state.items]);
+    const summary = summarizeVariances(report);
+    const uncounted = useMemo(() => (viewed ? getUncountedItems(viewed, activeItems) : []), [viewed, activeItems]);
+    const toPost = report.filter(line => line.variance !== 0 && canPostVariance(line.item) && !excludedIds.has(line.count.itemId));
+
+    const replaceStocktake = (updated: Stocktake) =>
+        setStocktakes(prev => prev.some(s => s.id === updated.id) ? prev.map(s => s.id === updated.id ? updated : s) : [updated, ...prev]);
+
+    const queueTargets = (targets: CountTarget[]) => {
+        setCountQueue(prev => [...prev, ...targets.filter(target => !prev.some(queued => targetKey(queued) === targetKey(target)))]);
+    };
+
+    // A recount goes back to every place the item was counted at
+    const queueRecount = (item: Item) => {
+        const places = viewed?.counts.find(c => c.itemId === item.id)?.locationCounts ?? [];
+        queueTargets(places.length > 0 ? places.map(l => ({ item, locationId: l.locationId })) : [{ item, locationId: null }]);
+    };
+
+    const handleScan = useCallback((text: string) => {
+        const label = parseScannedLabel(text);
+        if (label && 'itemId' in label) {
+            const item = activeItems.find(i => i.id === label.itemId);
+            setScanMessage(item ? `Scanned ${item.name}.` : 'That item is not in the inventory.');
+            if (item) queueTargets([{ item, locationId: null }]);
+        } else if (label && 'locationId' in label) {
+            // One row per exact location, so an item kept in two bins of a scanned cabinet is counted in each
+            const stored = getItemsAtLocation(label.locationId, activeItems, state.locations);
+            const itemCount = new Set(stored.map(s => s.item.id)).size;
+            setScanMessage(`Scanned ${formatLocationPath(label.locationId, state.locations)}: ${itemCount} ${itemCount === 1 ? 'item' : 'items'} recorded there.`);
+            queueTargets(stored.map(s => ({ item: s.item, locationId: s.locationId })));
+        } else {
+            setScanMessage('That is not an item or location label.');
+        }
+        // The scanner stops after each read; remount it for the next label
+        setScanKey(k => k + 1);
+    }, [activeItems, state.locations]);
+
+    const handleScanFailure = useCallback(() => {
+        // Frames without a readable code are expected while aiming the camera
+    }, []);
+
+    const handleStart = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        setError('');
+        try {
+            replaceStocktake(await api.startStocktake(newName.trim()));
+            setSelectedId(null);
+            setExcludedIds(new Set());
+        } catch (err: any) {
+            setError(`Failed to start the stocktake: ${err.message}`);
+        }
+    };
+
+    const handleRecordCount = async (target: CountTarget) => {
+        if (!openStocktake) return;
+        const key = targetKey(target);
+        const counted = parseInt(countInputs[key] ?? '', 10);
+        if (!Number.isInteger(counted) || counted < 0) {
+            setError(`Enter the number of ${target.item.name} found.`);
+            return;
+        }
+        setError('');
+        try {
+            replaceStocktake(await api.recordStocktakeCount(openStocktake.id, target.item.id, target.locationId, counted));
+            setCountQueue(prev => prev.filter(queued => targetKey(queued) !== key));
+            setCountInputs(prev => {
+                const { [key]: _, ...rest } = prev;
+                return rest;
+            });
+        } catch (err: any) {
+            setError(`Failed to record the count: ${err.message}`);
+        }
+    };
+
+    const handleCancelConfirm = async () => {
+        if (!openStocktake) return;
+        try {
+            replaceStocktake(await api.cancelStocktake(openStocktake.id));
+            setCancelModalOpen(false);
+            setCountQueue([]);
+        } catch (err: any) {
+            setError(`Failed to cancel the stocktake: ${err.message}`);
+            setCancelModalOpen(false);
+        }
+    };
+
+    const handleCompleteConfirm = async () => {
+        if (!openStocktake) return;
+        setIsSaving(true);
+        try {
+            replaceStocktake(await completeStocktake(openStocktake.id, toPost.map(line => line.count.itemId)));
+            setSelectedId(openStocktake.id);
+            setCompleteModalOpen(false);
+            setCountQueue([]);
+        } catch (err: any) {
+            setError(`Failed to complete the stocktake: ${err.message}`);
+            setCompleteModalOpen(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const toggleExcluded = (itemId: string) => setExcludedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(itemId)) next.delete(itemId); else next.add(itemId);
+        return next;
+    });
+
+    const handleExport = () => {
+        if (!viewed) return;
+        downloadCSV(convertToCSV(report.map(toVarianceExportRow)), `olilab_stocktake_${viewed.startedAt.slice(0, 10)}.csv`);
+    };
+
+    const userName = (userId: string) => state.userDirectory.find(u => u.id === userId)?.fullName || 'Unknown User';
+    const shownLines = onlyVariances ? report.filter(line => line.variance !== 0) : report;
+
+    if (isLoading) {
+        return <div className="p-8 flex justify-center text-slate-400"><IconLoader /></div>;
+    }
+
+    return (
+        <div className="p-4 md:p-8 space-y-6">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">Stocktake</h1>
+                    <p className="text-sm text-slate-400 mt-1">Count what is on the shelves and post the differences as stock corrections.</p>
+                </div>
+                {viewed && (
+                    <div className="flex gap-3">
+                        <button onClick={handleExport} disabled={report.length === 0} className="flex items-center justify-center px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                            <IconDownload /><span>Export CSV</span>
+                        </button>
+                        {isOpen && (
+                            <>
+                                <button onClick={() => setCancelModalOpen(true)} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 transition-colors">Cancel Stocktake</button>
+                                <button onClick={() => setCompleteModalOpen(true)} disabled={report.length === 0} className="px-4 py-2 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed">Complete</button>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-lg">{error}</div>}
+
+            {!openStocktake && !selectedId && (
+                <form onSubmit={handleStart} className="bg-slate-800 p-6 rounded-lg border border-slate-700 flex flex-col sm:flex-row gap-3 sm:items-end">
+                    <div className="flex-grow">
+                        <label htmlFor="stocktakeName" className="block mb-2 text-sm font-medium text-slate-300">New stocktake</label>
+                        <input id="stocktakeName" type="text" value={newName} onChange={(e) => setNewName(e.target.value)} required className={inputClassName} />
+                    </div>
+                    <button type="submit" className="px-4 py-2.5 bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-emerald-700 transition-colors">Start Stocktake</button>
+                </form>
+            )}
+
+            {viewed && (
+                <>
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-slate-400">
+                        <h2 className="text-xl font-semibold text-white">{viewed.name}</h2>
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusClasses[viewed.status]}`}>{viewed.status.toLowerCase()}</span>
+                        <span>Started by {userName(viewed.startedBy)} on {new Date(viewed.startedAt).toLocaleDateString()}</span>
+                        {selectedId && selectedId !== openStocktake?.id && (
+                            <button onClick={() => setSelectedId(null)} className="text-emerald-400 hover:text-emerald-300">Back to {openStocktake ? 'the open stocktake' : 'start a new one'}</button>
+                        )}
+                    </div>
+
+                    {isOpen && (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-3">
+                                <div className="flex justify-between items-center">
+                                    <h3 className="font-semibold text-white">Scan labels</h3>
+                                    <button onClick={() => setIsScanning(v => !v)} className="px-3 py-1 text-sm bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">
+                                        {isScanning ? 'Stop Camera' : 'Start Camera'}
+                                    </button>
+                                </div>
+                                {isScanning && (
+                                    <div className="w-full h-80 bg-slate-900 border-2 border-dashed border-slate-600 rounded-lg overflow-hidden">
+                                        <QRScanner key={scanKey} onScanSuccess={handleScan} onScanFailure={handleScanFailure} />
+                                    </div>
+                                )}
+                                {scanMessage && <p className="text-sm text-slate-300">{scanMessage}</p>}
+                                <div className="flex gap-2">
+                                    <select value={manualItemId} onChange={(e) => setManualItemId(e.target.value)} aria-label="Item to count" className={inputClassName}>
+                                        <option value="">Or pick an item…</option>
+                                        {activeItems.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                                    </select>
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            const item = activeItems.find(i => i.id === manualItemId);
+                                            if (item) queueTargets([{ item, locationId: null }]);
+                                            setManualItemId('');
+                                        }}
+                                        disabled={!manualItemId}
+                                        className="px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        Add
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-3">
+                                <h3 className="font-semibold text-white">To count</h3>
+                                {countQueue.length === 0 && <p className="text-sm text-slate-400">Scan an item or location label to count it.</p>}
+                                {countQueue.map(target => {
+                                    const { item, locationId } = target;
+                                    const key = targetKey(target);
+                                    const previous = getLocationCount(viewed, item.id, locationId);
+                                    const place = locationId ? formatLocationPath(locationId, state.locations) : 'Without a location';
+                                    return (
+                                        <form key={key} onSubmit={(e) => { e.preventDefault(); handleRecordCount(target); }} className="flex items-center gap-2 bg-slate-700/50 border border-slate-600 rounded-lg p-2.5">
+                                            <div className="flex-grow min-w-0">
+                                                <p className="text-white truncate">{item.name}</p>
+                                                <p className="text-xs text-slate-400 truncate">
+                                                    {place}
+                                                    {previous && ` · counted ${formatQuantity(previous.countedQuantity, item)} here before`}
+                                                </p>
+                                                {!locationId && (item.locations ?? []).length > 0 && (
+                                                    <p className="text-xs text-amber-400">Also kept at recorded locations. Count only what is not there, and scan those locations for the rest.</p>
+                                                )}
+                                            </div>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={countInputs[key] ?? ''}
+                                                onChange={(e) => setCountInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                                                aria-label={`Counted ${item.name} at ${place}`}
+                                                placeholder={item.unit ?? 'pcs'}
+                                                className="w-24 bg-slate-700 border border-slate-600 rounded-lg p-1.5"
+                                                required
+                                            />
+                                            <button type="submit" className="px-3 py-1.5 text-sm bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Save</button>
+                                            <button type="button" onClick={() => setCountQueue(prev => prev.filter(q => targetKey(q) !== key))} className="px-2 text-slate-400 hover:text-white" title="Skip">×</button>
+                                        </form>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700"><p className="text-sm text-slate-400">Counted</p><p className="text-2xl font-bold text-white">{summary.counted}{isOpen && <span className="text-sm font-normal text-slate-400"> of {activeItems.length}</span>}</p></div>
+                        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700"><p className="text-sm text-slate-400">With variance</p><p className="text-2xl font-bold text-white">{summary.withVariance}</p></div>
+                        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700"><p className="text-sm text-slate-400">Surplus</p><p className="text-2xl font-bold text-green-400">{formatQuantityChange(summary.surplus)}</p></div>
+                        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700"><p className="text-sm text-slate-400">Shortage</p><p className="text-2xl font-bold text-red-400">{formatQuantityChange(-summary.shortage)}</p></div>
+                    </div>
+
+                    <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden">
+                        <div className="flex justify-between items-center p-4">
+                            <h3 className="font-semibold text-white">Variance Report</h3>
+                            <label className="flex items-center gap-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={onlyVariances} onChange={(e) => setOnlyVariances(e.target.checked)} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />
+                                Only show variances
+                            </label>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left text-slate-300">
+                                <thead className="text-xs text-slate-400 uppercase bg-slate-700/50">
+                                    <tr>
+                                        <th scope="col" className="px-6 py-3">Item</th>
+                                        <th scope="col" className="px-6 py-3">Expected on Shelf</th>
+                                        <th scope="col" className="px-6 py-3">On Loan</th>
+                                        <th scope="col" className="px-6 py-3">Counted</th>
+                                        <th scope="col" className="px-6 py-3">Variance</th>
+                                        <th scope="col" className="px-6 py-3 text-center">{isOpen ? 'Post' : 'Posted'}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {shownLines.map(({ item, count, variance }) => (
+                                        <tr key={count.itemId} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors">
+                                            <td className="px-6 py-4 font-medium text-white">
+                                                {item?.name ?? 'Unknown Item'}
+                                                <span className="block text-xs font-normal text-slate-400">{userName(count.countedBy)} · {new Date(count.countedAt).toLocaleString()}</span>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap">{formatQuantity(count.expectedQuantity, item)}</td>
+                                            <td className="px-6 py-4">{count.onLoanQuantity}</td>
+                                            <td className="px-6 py-4">
+                                                {count.countedQuantity}
+                                                {isOpen && item && (
+                                                    <button onClick={() => queueRecount(item)} className="ml-2 text-xs text-emerald-400 hover:text-emerald-300">Recount</button>
+                                                )}
+                                                {count.locationCounts.length > 1 && (
+                                                    <span className="block text-xs text-slate-400">
+                                                        {count.locationCounts.map(l => `${l.countedQuantity} ${l.locationId ? formatLocationPath(l.locationId, state.locations) : 'without a location'}`).join(' + ')}
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className={`px-6 py-4 font-mono ${variance < 0 ? 'text-red-400' : variance > 0 ? 'text-green-400' : 'text-slate-500'}`}>
+                                                {variance === 0 ? '0' : formatQuantityChange(variance)}
+                                            </td>
+                                            <td className="px-6 py-4 text-center">
+                                                {variance === 0 ? (
+                                                    <span className="text-slate-500">—</span>
+                                                ) : !canPostVariance(item) ? (
+                                                    <span className="text-xs text-slate-400" title="Register or retire units to change a serialized item's stock">Via units</span>
+                                                ) : isOpen ? (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!excludedIds.has(count.itemId)}
+                                                        onChange={() => toggleExcluded(count.itemId)}
+                                                        aria-label={`Post the variance for ${item?.name}`}
+                                                        className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500"
+                                                    />
+                                                ) : viewed.postedItemIds?.includes(count.itemId) ? (
+                                                    <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-900 text-green-300">Posted</span>
+                                                ) : (
+                                                    <span className="text-xs text-slate-400">Not posted</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {shownLines.length === 0 && (
+                                        <tr>
+                                            <td colSpan={6} className="text-center py-8 text-slate-400">{report.length === 0 ? 'Nothing has been counted yet.' : 'Every count matches.'}</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                        {isOpen && uncounted.length > 0 && (
+                            <details className="p-4 text-sm text-slate-400 border-t border-slate-700">
+                                <summary className="cursor-pointer">{uncounted.length} {uncounted.length === 1 ? 'item has' : 'items have'} not been counted</summary>
+                                <p className="mt-2">{uncounted.map(item => item.name).join(', ')}</p>
+                            </details>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {stocktakes.some(s => s.id !== viewed?.id) && (
+                <div className="bg-slate-800 border border-slate-700 rounded-lg p-4">
+                    <h3 className="font-semibold text-white mb-3">Past Stocktakes</h3>
+                    <ul className="divide-y divide-slate-700">
+                        {stocktakes.filter(s => s.id !== viewed?.id).map(s => (
+                            <li key={s.id} className="flex items-center justify-between py-2 text-sm">
+                                <button onClick={() => setSelectedId(s.id)} className="text-left text-emerald-400 hover:text-emerald-300">{s.name}</button>
+                                <span className="flex items-center gap-3 text-slate-400">
+                                    {s.counts.length} counted · {new Date(s.completedAt ?? s.startedAt).toLocaleDateString()}
+                                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusClasses[s.status]}`}>{s.status.toLowerCase()}</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <Modal isOpen={isCompleteModalOpen} onClose={() => setCompleteModalOpen(false)} title="Complete Stocktake">
+                <div className="space-y-4">
+                    <p className="text-slate-300">
+                        {toPost.length === 0
+                            ? 'No variances are selected, so stock will not change.'
+                            : `${toPost.length} ${toPost.length === 1 ? 'variance' : 'variances'} will be posted as stock corrections.`}
+                    </p>
+                    {uncounted.length > 0 && (
+                        <p className="text-sm text-yellow-400">{uncounted.length} {uncounted.length === 1 ? 'item was' : 'items were'} not counted and will be left as they are.</p>
+                    )}
+                    <p className="text-xs text-slate-500">The stocktake closes and can no longer be counted.</p>
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button type="button" onClick={() => setCompleteModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Back</button>
+                        <button type="button" onClick={handleCompleteConfirm} disabled={isSaving} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-slate-500">Complete Stocktake</button>
+                    </div>
+                </div>
+            </Modal>
+
+            <Modal isOpen={isCancelModalOpen} onClose={() => setCancelModalOpen(false)} title="Cancel Stocktake">
+                <div className="space-y-4">
+                    <p className="text-slate-300">Cancel <strong className="text-white">{openStocktake?.name}</strong>? Its counts are kept for reference but nothing is posted.</p>
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button type="button" onClick={() => setCancelModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Back</button>
+                        <button type="button" onClick={handleCancelConfirm} className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors">Cancel Stocktake</button>
+                    </div>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default StocktakePage;
@@ -2,9 +2,11 @@ import React, { useState, useMemo } from 'react';
 import { useInventory } from '../context/InventoryContext';
 import { useAuth } from '../context/AuthContext';
 import { Modal } from '../components/Modal';
-import { Suggestion, SuggestionStatus, User, SuggestionType } from '../types';
+import { PurchaseRequestStatus, Suggestion, SuggestionStatus, User, SuggestionType } from '../types';
 import { IconPlusCircle, IconChevronDown, IconChevronUp } from '../components/icons';
 import { ITEM_CATEGORIES } from '../constants';
+import { can } from '../services/permissionService';
+import { PURCHASE_REQUEST_STATUS_LABELS, validatePurchaseDetails } from '../services/purchaseService';
 
 const StatusBadge: React.FC<{ status: SuggestionStatus }> = ({ status }) => {
     const baseClasses = "px-2 py-1 text-xs font-semibold rounded-full";
@@ -29,24 +31,23 @@ const SuggestionComments: React.FC<{
             .filter(c => c.suggestionId === suggestion.id)
             .map(c => ({
                 ...c,
-                user: state.users.find(u => u.id === c.userId)
+                user: state.userDirectory.find(u => u.id === c.userId)
             }))
             .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    }, [state.comments, state.users, suggestion.id]);
+    }, [state.comments, state.userDirectory, suggestion.id]);
 
     const handleCommentSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (newCommentText.trim()) {
             await addComment({
                 suggestionId: suggestion.id,
-                userId: currentUser.id,
                 text: newCommentText.trim()
             });
             setNewCommentText('');
         }
     };
 
-    const canComment = currentUser.isAdmin || currentUser.id === suggestion.userId;
+    const canComment = can(currentUser, 'suggestions.manage') || currentUser.id === suggestion.userId;
 
     return (
         <div className="mt-4 pt-4 border-t border-slate-700/50">
@@ -92,7 +93,8 @@ const Suggestions: React.FC = () => {
     const [isApproveModalOpen, setApproveModalOpen] = useState(false);
     const [isDenyModalOpen, setDenyModalOpen] = useState(false);
     const [selectedSuggestion, setSelectedSuggestion] = useState<Suggestion | null>(null);
-    const [approveForm, setApproveForm] = useState({ category: ITEM_CATEGORIES[0], quantity: 10 });
+    const [approveForm, setApproveForm] = useState({ category: ITEM_CATEGORIES[0], quantity: 10, vendor: '', estimatedUnitCost: 0 });
+    const [approveError, setApproveError] = useState('');
     const [denyReason, setDenyReason] = useState('');
     const [adminTab, setAdminTab] = useState<SuggestionType>(SuggestionType.ITEM);
     const [expandedSuggestionId, setExpandedSuggestionId] = useState<string | null>(null);
@@ -111,18 +113,25 @@ const Suggestions: React.FC = () => {
 
     const openApproveModal = (suggestion: Suggestion) => {
         setSelectedSuggestion(suggestion);
+        setApproveError('');
         setApproveModalOpen(true);
     };
 
     const handleApproveSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!selectedSuggestion) return;
+        const validationError = validatePurchaseDetails(approveForm);
+        if (validationError) {
+            setApproveError(validationError);
+            return;
+        }
         await approveItemSuggestion({
              suggestionId: selectedSuggestion.id,
-             category: approveForm.category,
-             totalQuantity: approveForm.quantity,
+             ...approveForm,
+             vendor: approveForm.vendor.trim(),
         });
         setApproveModalOpen(false);
+        setApproveForm(f => ({ ...f, vendor: '', estimatedUnitCost: 0 }));
         setSelectedSuggestion(null);
     };
 
@@ -136,7 +145,6 @@ const Suggestions: React.FC = () => {
         await denySuggestion({ 
             suggestionId: selectedSuggestion.id, 
             reason: denyReason,
-            adminId: currentUser.id 
         });
         setDenyModalOpen(false);
         setSelectedSuggestion(null);
@@ -154,13 +162,14 @@ const Suggestions: React.FC = () => {
             .sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     }, [state.suggestions, currentUser]);
     
-    type SuggestionWithUser = Suggestion & { userName: string; commentCount: number; };
+    type SuggestionWithUser = Suggestion & { userName: string; commentCount: number; purchaseStatus?: PurchaseRequestStatus; };
 
     const { itemSuggestions, featureSuggestions } = useMemo(() => {
         const suggestionsWithDetails: SuggestionWithUser[] = state.suggestions.map(suggestion => {
-            const user = state.users.find(u => u.id === suggestion.userId);
+            const user = state.userDirectory.find(u => u.id === suggestion.userId);
             const commentCount = state.comments.filter(c => c.suggestionId === suggestion.id).length;
-            return { ...suggestion, userName: user?.fullName || 'Unknown User', commentCount };
+            const purchaseStatus = state.purchaseRequests.find(p => p.suggestionId === suggestion.id)?.status;
+            return { ...suggestion, userName: user?.fullName || 'Unknown User', commentCount, purchaseStatus };
         }).sort((a, b) => {
             // Pending first, then by date
             if (a.status === SuggestionStatus.PENDING && b.status !== SuggestionStatus.PENDING) return -1;
@@ -172,7 +181,7 @@ const Suggestions: React.FC = () => {
             itemSuggestions: suggestionsWithDetails.filter(s => s.type === SuggestionType.ITEM),
             featureSuggestions: suggestionsWithDetails.filter(s => s.type === SuggestionType.FEATURE),
         };
-    }, [state.suggestions, state.users, state.comments]);
+    }, [state.suggestions, state.userDirectory, state.comments, state.purchaseRequests]);
 
     if (!currentUser) return null;
 
@@ -189,6 +198,9 @@ const Suggestions: React.FC = () => {
                              {suggestion.type === SuggestionType.ITEM && suggestion.category &&
                                 <p className="text-sm text-slate-400">Category: {suggestion.category}</p>
                             }
+                            {suggestion.purchaseStatus &&
+                                <p className="text-sm text-slate-400">Purchase: {PURCHASE_REQUEST_STATUS_LABELS[suggestion.purchaseStatus]}</p>
+                            }
                             <p className="text-sm text-slate-300 mt-2">Description: <span className="font-normal text-slate-400 whitespace-pre-wrap">{suggestion.description}</span></p>
                             <p className="text-xs text-slate-500 mt-2">Suggested by {suggestion.userName} on {new Date(suggestion.timestamp).toLocaleDateString()}</p>
                         </div>
@@ -226,7 +238,7 @@ const Suggestions: React.FC = () => {
                 </button>
             </div>
 
-            {currentUser.isAdmin && (
+            {can(currentUser, 'suggestions.manage') && (
                 <>
                     <div className="border-b border-slate-700 mb-6">
                         <nav className="-mb-px flex space-x-6" aria-label="Tabs">
@@ -246,7 +258,7 @@ const Suggestions: React.FC = () => {
                 </>
             )}
 
-            {!currentUser.isAdmin && (
+            {!can(currentUser, 'suggestions.manage') && (
                  <div className="space-y-4">
                     {mySuggestions.map(suggestion => (
                         <div key={suggestion.id} className="bg-slate-800 p-4 rounded-lg border border-slate-700 transition-all">
@@ -314,7 +326,7 @@ const Suggestions: React.FC = () => {
 
             <Modal isOpen={isApproveModalOpen} onClose={() => setApproveModalOpen(false)} title={`Approve Item: ${selectedSuggestion?.title}`}>
                 <form onSubmit={handleApproveSubmit} className="space-y-4">
-                    <p>This will add the item to the inventory. Please assign a category and initial quantity.</p>
+                    <p>This raises a purchase request. The item is added to the inventory when the delivery is received on the Purchasing page.</p>
                      <div>
                         <label htmlFor="category" className="block mb-2 text-sm font-medium text-slate-300">Category</label>
                         <select id="category" value={approveForm.category} onChange={(e) => setApproveForm(f => ({...f, category: e.target.value}))} required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5">
@@ -322,12 +334,23 @@ const Suggestions: React.FC = () => {
                         </select>
                     </div>
                     <div>
-                        <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Total Quantity</label>
-                        <input type="number" id="quantity" value={approveForm.quantity} onChange={(e) => setApproveForm(f => ({...f, quantity: parseInt(e.target.value, 10)}))} min="1" className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                        <label htmlFor="vendor" className="block mb-2 text-sm font-medium text-slate-300">Vendor</label>
+                        <input type="text" id="vendor" value={approveForm.vendor} onChange={(e) => setApproveForm(f => ({...f, vendor: e.target.value}))} required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="quantity" className="block mb-2 text-sm font-medium text-slate-300">Quantity</label>
+                            <input type="number" id="quantity" value={approveForm.quantity} onChange={(e) => setApproveForm(f => ({...f, quantity: parseInt(e.target.value, 10)}))} min="1" className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                        </div>
+                        <div>
+                            <label htmlFor="estimatedUnitCost" className="block mb-2 text-sm font-medium text-slate-300">Est. Unit Cost</label>
+                            <input type="number" id="estimatedUnitCost" value={approveForm.estimatedUnitCost} onChange={(e) => setApproveForm(f => ({...f, estimatedUnitCost: parseFloat(e.target.value) || 0}))} min="0" step="0.01" className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" required />
+                        </div>
                     </div>
+                    {approveError && <p className="text-sm text-red-400">{approveError}</p>}
                     <div className="flex justify-end gap-3 pt-4">
                         <button type="button" onClick={() => setApproveModalOpen(false)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
-                        <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Approve & Add Item</button>
+                        <button type="submit" className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">Approve & Request Purchase</button>
                     </div>
                 </form>
             </Modal>
@@ -1,20 +1,31 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useInventory } from '../context/InventoryContext';
-import { IconUsers, IconTrash, IconPencil } from '../components/icons';
+import { IconUsers, IconArchive, IconPencil } from '../components/icons';
 import { Modal } from '../components/Modal';
-import { User, LogAction, LogStatus, UserStatus } from '../types';
+import { User, UserRole, LogAction, LogStatus, UserStatus } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { GRADE_LEVELS } from '../constants';
+import { IncidentStatusBadge } from '../components/IncidentStatusBadge';
+import { formatCost, getOutstandingCost, getUnresolvedIncidents } from '../services/incidentService';
+import { getAccessToken } from '../services/sessionService';
+import { can, USER_ROLES } from '../services/permissionService';
+import { isArchived } from '../services/archiveService';
 
 const UserCard: React.FC<{
     user: User;
     currentUser: User;
     onEdit: (user: User) => void;
-    onDelete: (user: User) => void;
+    onArchive: (user: User) => void;
+    onRestore: (user: User) => void;
     onApprove?: (userId: string) => void;
     onDeny?: (userId: string) => void;
-}> = ({ user, currentUser, onEdit, onDelete, onApprove, onDeny }) => {
+    unresolvedIncidentCount: number;
+    onViewIncidents: (user: User) => void;
+    onForceReset: (user: User) => void;
+}> = ({ user, currentUser, onEdit, onArchive, onRestore, onApprove, onDeny, unresolvedIncidentCount, onViewIncidents, onForceReset }) => {
     const isPending = user.status === UserStatus.PENDING;
+    const archived = isArchived(user);
+    const canManage = can(currentUser, 'users.manage');
 
     return (
         <div className={`group bg-slate-800 p-5 rounded-lg border border-slate-700 shadow-md flex flex-col space-y-3 transition-all hover:shadow-emerald-500/20  relative ${user.isAdmin ? 'hover:border-emerald-500' : 'hover:border-slate-500'}`}>
@@ -32,20 +43,40 @@ const UserCard: React.FC<{
                 <p className="truncate"><span className="font-semibold text-slate-300">Email:</span> {user.email}</p>
                 {user.lrn && <p><span className="font-semibold text-slate-300">LRN:</span> {user.lrn}</p>}
                 {user.gradeLevel && user.section && <p><span className="font-semibold text-slate-300">Section:</span> {user.gradeLevel} - {user.section}</p>}
+                {user.role === 'Teacher' && <p><span className="font-semibold text-slate-300">Teaches:</span> {user.teachingSections?.length ? user.teachingSections.join(', ') : 'No sections assigned'}</p>}
+                {user.archivedAt && <p><span className="font-semibold text-slate-300">Archived:</span> {new Date(user.archivedAt).toLocaleDateString()}</p>}
             </div>
 
-            {!isPending && (
+            {archived && canManage && (
+                <div className="flex justify-end pt-2">
+                    <button onClick={() => onRestore(user)} className="px-4 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded-md text-sm font-semibold">Restore</button>
+                </div>
+            )}
+
+            {!isPending && !archived && (
+                <div className="flex items-center justify-between pl-1 text-xs">
+                    {unresolvedIncidentCount > 0 ? (
+                        <span className="font-semibold text-red-400">{unresolvedIncidentCount} unresolved {unresolvedIncidentCount === 1 ? 'incident' : 'incidents'}</span>
+                    ) : <span />}
+                    {canManage && <div className="flex items-center gap-3">
+                        <button onClick={() => onForceReset(user)} disabled={user.id === currentUser?.id} className="font-medium text-slate-400 hover:text-white transition-colors disabled:text-slate-600 disabled:cursor-not-allowed">Force Reset</button>
+                        <button onClick={() => onViewIncidents(user)} className="font-medium text-slate-400 hover:text-white transition-colors">Incident History</button>
+                    </div>}
+                </div>
+            )}
+
+            {!isPending && !archived && canManage && (
                 <div className="absolute top-2 right-2 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
                     <button onClick={() => onEdit(user)} className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-full transition-colors" aria-label={`Edit user ${user.fullName}`}>
                         <IconPencil />
                     </button>
-                    <button onClick={() => onDelete(user)} className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-full transition-colors disabled:text-slate-600 disabled:cursor-not-allowed" aria-label={`Delete user ${user.fullName}`} disabled={user.id === currentUser?.id}>
-                        <IconTrash />
+                    <button onClick={() => onArchive(user)} className="p-2 text-slate-400 hover:text-amber-400 hover:bg-slate-700 rounded-full transition-colors disabled:text-slate-600 disabled:cursor-not-allowed" aria-label={`Archive user ${user.fullName}`} disabled={user.id === currentUser?.id}>
+                        <IconArchive />
                     </button>
                 </div>
             )}
             
-            {isPending && onApprove && onDeny && (
+            {isPending && !archived && canManage && onApprove && onDeny && (
                  <div className="flex justify-end gap-2 pt-2">
                     <button onClick={() => onDeny(user.id)} className="px-4 py-1.5 bg-red-600 hover:bg-red-700 rounded-md text-sm font-semibold">Deny</button>
                     <button onClick={() => onApprove(user.id)} className="px-4 py-1.5 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold">Approve</button>
@@ -57,22 +88,39 @@ const UserCard: React.FC<{
 
 
 const Users: React.FC = () => {
-  const { state, editUser, deleteUser, approveUser, denyUser } = useInventory();
+  const { state, editUser, archiveUser, restoreUser, approveUser, denyUser } = useInventory();
   const { currentUser } = useAuth();
   const [isEditUserModalOpen, setEditUserModalOpen] = useState(false);
-  const [isDeleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [isArchiveModalOpen, setArchiveModalOpen] = useState(false);
   const [userToEdit, setUserToEdit] = useState<User | null>(null);
-  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToArchive, setUserToArchive] = useState<User | null>(null);
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'pending' | 'active'>('pending');
+  const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'archived'>('pending');
   const [roleFilter, setRoleFilter] = useState('all');
   const [gradeFilter, setGradeFilter] = useState('all');
+  const [userForIncidents, setUserForIncidents] = useState<User | null>(null);
+  const [userToReset, setUserToReset] = useState<User | null>(null);
+  const [isSendingReset, setIsSendingReset] = useState(false);
+
+  const incidentHistory = useMemo(() => {
+    if (!userForIncidents) return [];
+    return state.incidents
+        .filter(incident => incident.userId === userForIncidents.id)
+        .map(incident => ({
+            ...incident,
+            itemName: state.items.find(i => i.id === incident.itemId)?.name || 'Unknown Item',
+        }))
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [userForIncidents, state.incidents, state.items]);
   
-  const { pendingUsers, activeUsers } = useMemo(() => {
-      const pending = state.users.filter(u => u.status === UserStatus.PENDING);
-      const active = state.users.filter(u => u.status === UserStatus.APPROVED);
-      return { pendingUsers: pending, activeUsers: active };
+  const { pendingUsers, activeUsers, archivedUsers } = useMemo(() => {
+      const current = state.users.filter(u => !isArchived(u));
+      return {
+          pendingUsers: current.filter(u => u.status === UserStatus.PENDING),
+          activeUsers: current.filter(u => u.status === UserStatus.APPROVED),
+          archivedUsers: state.users.filter(isArchived),
+      };
   }, [state.users]);
 
   // Default to 'active' tab if no users are pending
@@ -90,6 +138,25 @@ const Users: React.FC = () => {
     setEditUserModalOpen(true);
   };
 
+  // Grade, section and LRN only apply to students; teaching sections only to Teachers.
+  const handleEditRoleChange = (role: UserRole) => {
+    setUserToEdit(u => u ? {
+        ...u,
+        role,
+        isAdmin: role === 'Admin',
+        ...(role !== 'Member' && { gradeLevel: null, section: null, lrn: '' }),
+        teachingSections: role === 'Teacher' ? (u.teachingSections ?? []) : [],
+    } : null);
+  };
+
+  const toggleTeachingSection = (section: string) => {
+    setUserToEdit(u => {
+        if (!u) return null;
+        const sections = u.teachingSections ?? [];
+        return { ...u, teachingSections: sections.includes(section) ? sections.filter(s => s !== section) : [...sections, section] };
+    });
+  };
+
   const closeEditModal = () => {
     setUserToEdit(null);
     setError('');
@@ -109,41 +176,74 @@ const Users: React.FC = () => {
     }
   };
 
-  const openDeleteModal = (user: User) => {
-    setUserToDelete(user);
-    setDeleteModalOpen(true);
+  const openArchiveModal = (user: User) => {
+    setUserToArchive(user);
+    setArchiveModalOpen(true);
   };
 
-  const closeDeleteModal = () => {
-    setUserToDelete(null);
-    setDeleteModalOpen(false);
+  const closeArchiveModal = () => {
+    setUserToArchive(null);
+    setArchiveModalOpen(false);
   };
 
-  const handleDeleteUser = async () => {
-    if (userToDelete) {
+  const handleArchiveUser = async () => {
+    if (userToArchive) {
         try {
-            await deleteUser(userToDelete.id);
-            closeDeleteModal();
+            await archiveUser(userToArchive.id);
+            closeArchiveModal();
         } catch (error: any) {
             alert(error.message); // Basic error feedback
         }
     }
   };
 
+  const handleRestoreUser = async (user: User) => {
+    try {
+        await restoreUser(user.id);
+    } catch (error: any) {
+        alert(error.message);
+    }
+  };
+
+  const handleForceReset = async () => {
+    if (!userToReset) return;
+    setIsSendingReset(true);
+    try {
+        const response = await fetch('/api/auth/force-reset', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${getAccessToken()}`,
+            },
+            body: JSON.stringify({ userId: userToReset.id }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.message || 'Failed to reset the password.');
+        }
+        setUserToReset(null);
+        alert(result.message);
+    } catch (error: any) {
+        alert(error.message);
+    } finally {
+        setIsSendingReset(false);
+    }
+  };
+
   const userHasOutstandingLoans = useMemo(() => {
-    if (!userToDelete) return false;
+    if (!userToArchive) return false;
     return state.logs.some(
-        log => log.userId === userToDelete.id && log.action === LogAction.BORROW && log.status === LogStatus.APPROVED
+        log => log.userId === userToArchive.id && log.action === LogAction.BORROW && log.status === LogStatus.APPROVED
     );
-  }, [userToDelete, state.logs]);
+  }, [userToArchive, state.logs]);
   
   const isLastAdmin = useMemo(() => {
-      if (!userToDelete || !userToDelete.isAdmin) return false;
-      return state.users.filter(u => u.isAdmin && u.status === UserStatus.APPROVED).length <= 1;
-  }, [userToDelete, state.users]);
+      if (!userToArchive || !userToArchive.isAdmin) return false;
+      return activeUsers.filter(u => u.isAdmin).length <= 1;
+  }, [userToArchive, activeUsers]);
   
   const filteredUsers = useMemo(() => {
-    let usersToList = activeTab === 'pending' ? pendingUsers : activeUsers;
+    let usersToList = activeTab === 'pending' ? pendingUsers : activeTab === 'archived' ? archivedUsers : activeUsers;
 
     // Apply role filter
     if (roleFilter !== 'all') {
@@ -165,7 +265,7 @@ const Users: React.FC = () => {
         user.username.toLowerCase().includes(lowercasedFilter) ||
         (user.lrn && user.lrn.includes(lowercasedFilter))
     );
-  }, [activeTab, pendingUsers, activeUsers, searchTerm, roleFilter, gradeFilter]);
+  }, [activeTab, pendingUsers, activeUsers, archivedUsers, searchTerm, roleFilter, gradeFilter]);
 
 
   if (!currentUser) return null;
@@ -184,8 +284,7 @@ const Users: React.FC = () => {
             />
              <select value={roleFilter} onChange={(e) => setRoleFilter(e.target.value)} className="bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none">
                 <option value="all">All Roles</option>
-                <option value="Admin">Admin</option>
-                <option value="Member">Member</option>
+                {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
             </select>
             <select value={gradeFilter} onChange={(e) => setGradeFilter(e.target.value)} className="bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none">
                 <option value="all">All Grades</option>
@@ -203,6 +302,9 @@ const Users: React.FC = () => {
             <button onClick={() => setActiveTab('active')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'active' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
                 Active Users ({activeUsers.length})
             </button>
+            <button onClick={() => setActiveTab('archived')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'archived' ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}>
+                Archived ({archivedUsers.length})
+            </button>
         </nav>
       </div>
 
@@ -213,16 +315,20 @@ const Users: React.FC = () => {
             user={user}
             currentUser={currentUser}
             onEdit={openEditModal}
-            onDelete={openDeleteModal}
+            onArchive={openArchiveModal}
+            onRestore={handleRestoreUser}
             onApprove={approveUser}
             onDeny={denyUser}
+            unresolvedIncidentCount={getUnresolvedIncidents(user.id, state.incidents).length}
+            onViewIncidents={setUserForIncidents}
+            onForceReset={setUserToReset}
           />
         ))}
       </div>
        {filteredUsers.length === 0 && (
           <div className="col-span-full text-center py-10 px-6 bg-slate-800 rounded-lg border border-slate-700">
              <p className="text-slate-400">
-                {activeTab === 'pending' ? 'No users are currently pending approval.' : 'No active users match your search or filters.'}
+                {activeTab === 'pending' ? 'No users are currently pending approval.' : activeTab === 'archived' ? 'No archived users match your search or filters.' : 'No active users match your search or filters.'}
              </p>
           </div>
        )}
@@ -235,12 +341,28 @@ const Users: React.FC = () => {
               <input type="text" value={userToEdit.username} onChange={(e) => setUserToEdit(u => u ? { ...u, username: e.target.value } : null)} placeholder="Username" required className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
               <input type="email" value={userToEdit.email} readOnly disabled className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2.5 text-slate-400 cursor-not-allowed" />
               
-              <div className="flex items-center">
-                <input id="editIsAdmin" type="checkbox" checked={userToEdit.isAdmin} onChange={e => setUserToEdit(u => u ? {...u, isAdmin: e.target.checked, role: e.target.checked ? 'Admin' : 'Member', gradeLevel: null, section: null, lrn: ''} : null)} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500"/>
-                <label htmlFor="editIsAdmin" className="ml-2 text-sm font-medium text-slate-300">Grant Admin Privileges</label>
+              <div>
+                <label htmlFor="editRole" className="block mb-2 text-sm font-medium text-slate-300">Role</label>
+                <select id="editRole" value={userToEdit.role} onChange={e => handleEditRoleChange(e.target.value as UserRole)} disabled={userToEdit.id === currentUser.id} className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5 disabled:text-slate-400 disabled:cursor-not-allowed">
+                    {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
               </div>
 
-            {!userToEdit.isAdmin && (
+            {userToEdit.role === 'Teacher' && (
+                <fieldset>
+                    <legend className="mb-2 text-sm font-medium text-slate-300">Teaching Sections</legend>
+                    <div className="grid grid-cols-2 gap-2">
+                        {Object.entries(GRADE_LEVELS).flatMap(([level, sections]) => sections.map(section => (
+                            <label key={section} className="flex items-center gap-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={userToEdit.teachingSections?.includes(section) ?? false} onChange={() => toggleTeachingSection(section)} className="w-4 h-4 text-emerald-600 bg-slate-700 border-slate-600 rounded focus:ring-emerald-500" />
+                                {level} - {section}
+                            </label>
+                        )))}
+                    </div>
+                </fieldset>
+            )}
+
+            {userToEdit.role === 'Member' && (
                 <>
                     <input type="text" value={userToEdit.lrn ?? ''} onChange={(e) => setUserToEdit(u => u ? { ...u, lrn: e.target.value } : null)} placeholder="LRN (12 digits)" className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2.5" />
                     <div className="flex flex-col sm:flex-row gap-4">
@@ -264,31 +386,70 @@ const Users: React.FC = () => {
         )}
       </Modal>
 
-      {/* Delete User Confirmation Modal */}
-      <Modal isOpen={isDeleteModalOpen} onClose={closeDeleteModal} title="Confirm Deletion">
-        {userToDelete && (
+      {/* Incident History Modal */}
+      <Modal isOpen={!!userForIncidents} onClose={() => setUserForIncidents(null)} title={`Incidents: ${userForIncidents?.fullName}`}>
+        <div className="space-y-3">
+            {incidentHistory.length > 0 && (
+                <p className="text-sm text-slate-300">Outstanding replacement cost: <strong className="text-white">{formatCost(getOutstandingCost(incidentHistory))}</strong></p>
+            )}
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+                {incidentHistory.map(incident => (
+                    <div key={incident.id} className="bg-slate-700/50 border border-slate-600 rounded-lg p-3 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="font-semibold text-white">{incident.itemName}</p>
+                            <IncidentStatusBadge status={incident.status} />
+                        </div>
+                        <p className="text-slate-300 mt-1">{incident.description}</p>
+                        <p className="text-xs text-slate-400 mt-1">Cost {formatCost(incident.replacementCost)} · Reported {new Date(incident.timestamp).toLocaleDateString()}</p>
+                        {incident.resolutionNotes && <p className="text-xs text-slate-400 mt-1">Resolution: {incident.resolutionNotes}</p>}
+                    </div>
+                ))}
+                {incidentHistory.length === 0 && <p className="text-sm text-slate-400">No incidents recorded for this user.</p>}
+            </div>
+        </div>
+      </Modal>
+
+      {/* Force Password Reset Modal */}
+      <Modal isOpen={!!userToReset} onClose={() => setUserToReset(null)} title="Force Password Reset">
+        {userToReset && (
+            <div>
+                <p className="text-slate-300">Reset the password for <strong className="text-white">{userToReset.fullName}</strong>?</p>
+                <p className="text-sm text-slate-400 mt-2">Their current password will stop working immediately. A link to choose a new password will be emailed to <strong className="text-slate-300">{userToReset.email}</strong>.</p>
+                <div className="flex justify-end gap-3 pt-6">
+                    <button type="button" onClick={() => setUserToReset(null)} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                    <button type="button" onClick={handleForceReset} disabled={isSendingReset} className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:bg-red-800 disabled:cursor-not-allowed disabled:text-slate-400">
+                        {isSendingReset ? 'Sending...' : 'Reset Password'}
+                    </button>
+                </div>
+            </div>
+        )}
+      </Modal>
+
+      {/* Archive User Confirmation Modal */}
+      <Modal isOpen={isArchiveModalOpen} onClose={closeArchiveModal} title="Archive User">
+        {userToArchive && (
             <div>
-                <p className="text-slate-300">Are you sure you want to delete the user profile for <strong className="text-white">{userToDelete.fullName}</strong>?</p>
+                <p className="text-slate-300">Are you sure you want to archive the account of <strong className="text-white">{userToArchive.fullName}</strong>?</p>
                 {userHasOutstandingLoans && (
                     <div className="mt-4 p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-lg">
-                        <strong>Warning:</strong> This user has outstanding borrowed items. They cannot be deleted until all items are returned.
+                        <strong>Warning:</strong> This user has outstanding borrowed items. They cannot be archived until all items are returned.
                     </div>
                 )}
                  {isLastAdmin && (
                     <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-lg">
-                        <strong>Warning:</strong> This is the last admin account. It cannot be deleted to prevent locking out administrators from the system.
+                        <strong>Warning:</strong> This is the last admin account. It cannot be archived to prevent locking out administrators from the system.
                     </div>
                 )}
-                <p className="text-xs text-slate-500 mt-2">This action is irreversible and only deletes their profile data. It does not remove their login credentials from the authentication system.</p>
+                <p className="text-xs text-slate-500 mt-2">They will be signed out and can no longer log in. Their borrow history, incidents and comments are kept, and the account can be restored from the Archived tab.</p>
                 <div className="flex justify-end gap-3 pt-6">
-                    <button type="button" onClick={closeDeleteModal} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
+                    <button type="button" onClick={closeArchiveModal} className="py-2 px-4 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors">Cancel</button>
                     <button 
                         type="button" 
-                        onClick={handleDeleteUser} 
+                        onClick={handleArchiveUser} 
                         disabled={userHasOutstandingLoans || isLastAdmin}
-                        className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:bg-red-800 disabled:cursor-not-allowed disabled:text-slate-400"
+                        className="py-2 px-4 bg-amber-600 hover:bg-amber-700 rounded-lg transition-colors disabled:bg-amber-800 disabled:cursor-not-allowed disabled:text-slate-400"
                     >
-                        Confirm Delete
+                        Archive User
                     </button>
                 </div>
             </div>
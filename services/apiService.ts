@@ -1,4 +1,5 @@
-import { State, Item, User, LogEntry, Notification, Suggestion, Comment, LogAction, SuggestionStatus, SuggestionType, UserStatus, LogStatus } from '../types';
+import { State, AuthTokens, BorrowingPolicy, Item, ItemLocation, StorageLocation, Stocktake, PurchaseRequest, CategoryBudget, User, NewUserRegistration, NotificationPreferences, LogEntry, Suggestion, Comment, Reservation, StockAdjustment, StockAdjustmentType, ReturnedQuantity, AssetUnit, Incident, IncidentStatus, ItemCondition, AuditQuery, AuditPage, LogAction, SuggestionStatus, SuggestionType, UserStatus, LogStatus } from '../types';
+import { loadSession, saveSession, clearSession } from './sessionService';
 
 // The base URL of your Java backend
 // Dynamically set the backend URL based on the hostname.
@@ -8,15 +9,78 @@ const BASE_URL = typeof window !== 'undefined'
     : 'http://localhost:8080/api';
 
 // --- Helper for API Calls ---
-const apiFetch = async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+// The request never reached the server, as opposed to the server rejecting it.
+// Callers can keep the action and try again once the connection is back.
+export class NetworkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+// Auth endpoints handle their own failures; a 401 from them must not trigger another refresh.
+const isAuthEndpoint = (endpoint: string) => endpoint.startsWith('/auth/');
+
+// Concurrent requests that hit an expired token share a single refresh.
+let refreshInFlight: Promise<AuthTokens> | null = null;
+
+const refreshTokens = (refreshToken: string): Promise<AuthTokens> => {
+    if (!refreshInFlight) {
+        refreshInFlight = apiFetch<AuthTokens>('/auth/refresh', {
+            method: 'POST',
+            body: JSON.stringify({ refreshToken }),
+        })
+            .then(tokens => {
+                saveSession(tokens);
+                return tokens;
+            })
+            .finally(() => {
+                refreshInFlight = null;
+            });
+    }
+    return refreshInFlight;
+};
+
+const sendRequest = async (endpoint: string, options: RequestInit, accessToken: string | null): Promise<Response> => {
     try {
-        const response = await fetch(`${BASE_URL}${endpoint}`, {
+        return await fetch(`${BASE_URL}${endpoint}`, {
+            ...options,
             headers: {
-                'Content-Type': 'application/json',
+                // Let the browser set the multipart boundary for file uploads
+                ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+                ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
                 ...options.headers,
             },
-            ...options,
         });
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        // Provide a more helpful error message for the most common issue.
+        throw new NetworkError(`Could not connect to the backend server at ${BASE_URL}. Is your Java backend server running?`);
+    }
+};
+
+// Sends the request with the current access token. If it has expired or was revoked,
+// refreshes once and retries; if that fails too, the session is over.
+const authorizedFetch = async (endpoint: string, options: RequestInit = {}): Promise<Response> => {
+    const session = loadSession();
+    const response = await sendRequest(endpoint, options, session?.accessToken ?? null);
+    if (response.status !== 401 || !session || isAuthEndpoint(endpoint)) {
+        return response;
+    }
+    try {
+        const tokens = await refreshTokens(session.refreshToken);
+        return await sendRequest(endpoint, options, tokens.accessToken);
+    } catch (refreshError) {
+        // Being offline does not end the session; the refresh is retried with the next request.
+        if (refreshError instanceof NetworkError) throw refreshError;
+        clearSession();
+        throw new Error('Your session has expired. Please log in again.');
+    }
+};
+
+const apiFetch = async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+    try {
+        const response = await authorizedFetch(endpoint, options);
 
         if (!response.ok) {
             let errorMessage: string;
@@ -34,30 +98,90 @@ const apiFetch = async <T>(endpoint: string, options: RequestInit = {}): Promise
         return responseText ? JSON.parse(responseText) : ({} as T);
 
     } catch (error) {
-        // Provide a more helpful error message for the most common issue.
-        if (error instanceof TypeError && error.message === 'Failed to fetch') {
-            const helpfulError = new Error(`Could not connect to the backend server at ${BASE_URL}. Is your Java backend server running?`);
-            console.error(`API call to ${endpoint} failed:`, helpfulError);
-            throw helpfulError;
-        }
         console.error(`API call to ${endpoint} failed:`, error);
         throw error;
     }
 };
 
+// The actions that can be replayed from the offline outbox send a key generated once per action.
+// The server remembers the response for each key and answers a repeated key with it instead of
+// applying the change again, so resending after a lost response cannot record it twice.
+const idempotencyHeaders = (idempotencyKey?: string): HeadersInit | undefined =>
+    idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined;
 
+// Every mutating endpoint below appends an AuditEntry on the server, recording the actor from
+// the access token and the fields it changed. The log can only be read, through getAuditLog.
 const api = {
-    login: async (payload: { identifier: string; password: string }): Promise<User> => {
-        return apiFetch<User>('/auth/login', {
+    // The server checks the password against its stored hash and returns signed tokens.
+    // Access tokens are short-lived; the refresh token keeps the session alive until it expires or is revoked.
+    // On success the server itself calls /api/email/security-event, so the sign-in alert cannot be skipped.
+    login: async (payload: { identifier: string; password: string }): Promise<{ user: User; tokens: AuthTokens }> => {
+        return apiFetch<{ user: User; tokens: AuthTokens }>('/auth/login', {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        });
+    },
+
+    refreshSession: async (refreshToken: string): Promise<AuthTokens> => {
+        return refreshTokens(refreshToken);
+    },
+
+    // Resolves the user behind the current access token. This is the only trusted source of identity and role.
+    getCurrentUser: async (): Promise<User> => {
+        return apiFetch<User>('/auth/me');
+    },
+
+    // Every other session is revoked; the caller gets fresh tokens for this one.
+    // The server sends the password-changed email through /api/email/security-event.
+    changePassword: async (payload: { currentPassword: string; newPassword: string }): Promise<AuthTokens> => {
+        return apiFetch<AuthTokens>('/auth/change-password', {
             method: 'POST',
             body: JSON.stringify(payload),
         });
     },
+
+    // The token comes from an emailed link. The server rejects it once used or expired,
+    // and sends the password-changed email as for changePassword.
+    resetPassword: async (payload: { token: string; newPassword: string }): Promise<void> => {
+        return apiFetch<void>('/auth/password-reset/confirm', {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        });
+    },
+
+    logout: async (refreshToken: string): Promise<void> => {
+        return apiFetch<void>('/auth/logout', {
+            method: 'POST',
+            body: JSON.stringify({ refreshToken }),
+        });
+    },
     
-    getInitialData: async (): Promise<State> => {
-        return apiFetch<State>('/data');
+    // The server scopes the response to the caller's role (see State). seq is the last change
+    // the snapshot includes, so the change stream can resume right after it.
+    getInitialData: async (): Promise<{ state: State; seq: number | null }> => {
+        const { seq, ...state } = await apiFetch<State & { seq?: number }>('/data');
+        return { state, seq: seq ?? null };
     },
 
+    // A server-sent event stream of ChangeEvents, scoped like getInitialData. Each change
+    // carries its seq as the event id. Passing the last seen id resumes the stream; when the
+    // server no longer has the events since then it sends a `resync` event instead.
+    // The caller reads and closes the stream; see realtimeService.
+    openChangeStream: async (lastEventId: string | null, signal: AbortSignal): Promise<Response> => {
+        const response = await authorizedFetch('/events', {
+            signal,
+            headers: {
+                Accept: 'text/event-stream',
+                ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+            },
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(`Could not open the change stream (HTTP ${response.status}).`);
+        }
+        return response;
+    },
+
+    // The server records totalQuantity as the item's opening CORRECTION adjustment.
     addItem: async (itemData: Omit<Item, 'id' | 'availableQuantity'>): Promise<Item> => {
         return apiFetch<Item>('/items', {
             method: 'POST',
@@ -65,6 +189,8 @@ const api = {
         });
     },
 
+    // The quantities are ignored; stock only changes through adjustStock. So is the chemical's
+    // safety data sheet, which only changes through uploadSafetyDataSheet.
     editItem: async (itemData: Item): Promise<Item> => {
         return apiFetch<Item>(`/items/${itemData.id}`, {
             method: 'PUT',
@@ -72,14 +198,123 @@ const api = {
         });
     },
 
-    deleteItem: async (itemId: string): Promise<{id: string}> => {
-        return apiFetch<{id: string}>(`/items/${itemId}`, {
-            method: 'DELETE',
+    // Replaces the item's safety data sheet. The server accepts PDFs only.
+    uploadSafetyDataSheet: async (itemId: string, file: File): Promise<Item> => {
+        const body = new FormData();
+        body.append('file', file);
+        return apiFetch<Item>(`/items/${itemId}/sds`, {
+            method: 'POST',
+            body,
+        });
+    },
+
+    // Adds an entry to the item's stock ledger and returns the item with its recomputed totals.
+    // The server rejects a change whose sign does not match its type (see stockService), one
+    // that would leave less stock than is out on loan, and any adjustment to a serialized item.
+    // Every action that lowers an item's total (this, issuing a consumable, writing off damaged or lost
+    // units on return, retiring a unit and posting stocktake corrections) also trims its placements
+    // with the rule in locationService's fitLocationsToTotal, and returns the item with them.
+    adjustStock: async (payload: { itemId: string; type: StockAdjustmentType; quantityChange: number; reason: string }): Promise<{ newAdjustment: StockAdjustment; updatedItem: Item }> => {
+        return apiFetch<{ newAdjustment: StockAdjustment; updatedItem: Item }>(`/items/${payload.itemId}/adjustments`, {
+            method: 'POST',
+            body: JSON.stringify({ type: payload.type, quantityChange: payload.quantityChange, reason: payload.reason }),
+        });
+    },
+
+    // Adding a unit to a serialized item also increases its total and available quantity.
+    addAssetUnit: async (unitData: Omit<AssetUnit, 'id' | 'status'>): Promise<{ newUnit: AssetUnit; updatedItem: Item }> => {
+        return apiFetch<{ newUnit: AssetUnit; updatedItem: Item }>(`/items/${unitData.itemId}/units`, {
+            method: 'POST',
+            body: JSON.stringify(unitData),
+        });
+    },
+
+    updateAssetUnit: async (unit: AssetUnit): Promise<{ updatedUnit: AssetUnit; updatedItem: Item }> => {
+        return apiFetch<{ updatedUnit: AssetUnit; updatedItem: Item }>(`/items/${unit.itemId}/units/${unit.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(unit),
+        });
+    },
+
+    // Newest first
+    getStocktakes: async (): Promise<Stocktake[]> => {
+        return apiFetch<Stocktake[]>('/stocktakes');
+    },
+
+    // Only one stocktake can be open at a time.
+    startStocktake: async (name: string): Promise<Stocktake> => {
+        return apiFetch<Stocktake>('/stocktakes', {
+            method: 'POST',
+            body: JSON.stringify({ name }),
+        });
+    },
+
+    // Records what was found of the item at one location, or with a null locationId, what was
+    // counted without one. Counting the same place again replaces its figure; the item's counted
+    // quantity is the sum over all places. The server fills in the expected and on-loan quantities
+    // as they stand now.
+    recordStocktakeCount: async (stocktakeId: string, itemId: string, locationId: string | null, countedQuantity: number): Promise<Stocktake> => {
+        return apiFetch<Stocktake>(`/stocktakes/${stocktakeId}/counts/${itemId}`, {
+            method: 'PUT',
+            body: JSON.stringify({ locationId, countedQuantity }),
+        });
+    },
+
+    cancelStocktake: async (stocktakeId: string): Promise<Stocktake> => {
+        return apiFetch<Stocktake>(`/stocktakes/${stocktakeId}/cancel`, { method: 'POST' });
+    },
+
+    // Posts the variance of each listed item as a CORRECTION adjustment carrying the stocktake's
+    // id, and closes the stocktake. Serialized items are refused, as in adjustStock.
+    completeStocktake: async (stocktakeId: string, postItemIds: string[]): Promise<{ stocktake: Stocktake; newAdjustments: StockAdjustment[]; updatedItems: Item[] }> => {
+        return apiFetch<{ stocktake: Stocktake; newAdjustments: StockAdjustment[]; updatedItems: Item[] }>(`/stocktakes/${stocktakeId}/complete`, {
+            method: 'POST',
+            body: JSON.stringify({ postItemIds }),
+        });
+    },
+
+    // Replaces where the item's stock is kept. The server rejects a split that adds up to more
+    // than the item's total; placements only shrink on their own when stock goes down (see adjustStock).
+    setItemLocations: async (itemId: string, locations: ItemLocation[]): Promise<Item> => {
+        return apiFetch<Item>(`/items/${itemId}/locations`, {
+            method: 'PUT',
+            body: JSON.stringify({ locations }),
         });
     },
 
-    createUser: async (userData: Omit<User, 'id' | 'status'>): Promise<{ newUser: User; newNotification: Notification }> => {
-        return apiFetch<{ newUser: User; newNotification: Notification }>('/users', {
+    // A location's parent must be one level up: rooms have none, cabinets sit in rooms and so on.
+    addLocation: async (locationData: Omit<StorageLocation, 'id'>): Promise<StorageLocation> => {
+        return apiFetch<StorageLocation>('/locations', {
+            method: 'POST',
+            body: JSON.stringify(locationData),
+        });
+    },
+
+    editLocation: async (location: StorageLocation): Promise<StorageLocation> => {
+        return apiFetch<StorageLocation>(`/locations/${location.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(location),
+        });
+    },
+
+    // Locations carry no history, so they are deleted outright. The server refuses while the
+    // location still holds sub-locations or stock.
+    deleteLocation: async (locationId: string): Promise<void> => {
+        await apiFetch<void>(`/locations/${locationId}`, { method: 'DELETE' });
+    },
+
+    // Items and users are archived rather than deleted so their history stays intact.
+    // The server refuses to archive an item or user with outstanding loans.
+    archiveItem: async (itemId: string): Promise<Item> => {
+        return apiFetch<Item>(`/items/${itemId}/archive`, { method: 'POST' });
+    },
+
+    restoreItem: async (itemId: string): Promise<Item> => {
+        return apiFetch<Item>(`/items/${itemId}/restore`, { method: 'POST' });
+    },
+
+    createUser: async (userData: NewUserRegistration): Promise<{ newUser: User }> => {
+        return apiFetch<{ newUser: User }>('/users', {
             method: 'POST',
             body: JSON.stringify(userData),
         });
@@ -92,11 +327,22 @@ const api = {
         });
     },
 
-    deleteUser: async (userId: string): Promise<{id: string}> => {
-        return apiFetch<{id: string}>(`/users/${userId}`, {
-            method: 'DELETE',
+    // Users may only change their own preferences
+    updateNotificationPreferences: async (userId: string, preferences: NotificationPreferences): Promise<User> => {
+        return apiFetch<User>(`/users/${userId}/notification-preferences`, {
+            method: 'PUT',
+            body: JSON.stringify(preferences),
         });
     },
+
+    // Also revokes the user's sessions. The last admin cannot be archived.
+    archiveUser: async (userId: string): Promise<User> => {
+        return apiFetch<User>(`/users/${userId}/archive`, { method: 'POST' });
+    },
+
+    restoreUser: async (userId: string): Promise<User> => {
+        return apiFetch<User>(`/users/${userId}/restore`, { method: 'POST' });
+    },
     
     approveUser: async (userId: string): Promise<User> => {
         return apiFetch<User>(`/users/${userId}/approve`, { method: 'POST' });
@@ -106,16 +352,34 @@ const api = {
         return apiFetch<User>(`/users/${userId}/deny`, { method: 'POST' });
     },
 
-    requestBorrowItem: async (payload: { userId: string; itemId: string; quantity: number }): Promise<{ newLog: LogEntry; newNotification: Notification }> => {
-        return apiFetch<{ newLog: LogEntry; newNotification: Notification }>('/logs/borrow', {
+    // userId is the borrower. Only callers with loans.lend may name someone other than themselves.
+    // Refused while the borrowing policy blocks borrowers with unresolved incidents and the borrower has one.
+    requestBorrowItem: async (payload: { userId: string; itemId: string; quantity: number }, idempotencyKey?: string): Promise<{ newLog: LogEntry }> => {
+        return apiFetch<{ newLog: LogEntry }>('/logs/borrow', {
             method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
             body: JSON.stringify(payload),
         });
     },
     
-    approveBorrowRequest: async (logId: string): Promise<{ updatedLog: LogEntry, updatedItem: Item }> => {
-       return apiFetch<{ updatedLog: LogEntry, updatedItem: Item }>(`/logs/${logId}/approve`, {
+    // Files several borrow lines at once; every resulting log shares the same requestId.
+    // userId and the borrowing policy are checked as for requestBorrowItem.
+    requestBorrowBatch: async (payload: { userId: string; lines: { itemId: string; quantity: number }[] }, idempotencyKey?: string): Promise<{ newLogs: LogEntry[] }> => {
+        return apiFetch<{ newLogs: LogEntry[] }>('/logs/borrow-batch', {
+            method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
+            body: JSON.stringify(payload),
+        });
+    },
+
+    // Serialized items must name the units being handed out in assetUnitIds. A consumable is
+    // issued instead: the log becomes ISSUED, with no due date, and an ISSUANCE adjustment
+    // takes the quantity out of stock for good. The borrowing policy is checked again, as the
+    // borrower may have had an incident reported since they asked.
+    approveBorrowRequest: async (payload: { logId: string; dueDate?: string; assetUnitIds?: string[] }): Promise<{ updatedLog: LogEntry, updatedItem: Item, updatedUnits?: AssetUnit[], newAdjustment?: StockAdjustment }> => {
+       return apiFetch<{ updatedLog: LogEntry, updatedItem: Item, updatedUnits?: AssetUnit[], newAdjustment?: StockAdjustment }>(`/logs/${payload.logId}/approve`, {
            method: 'POST',
+           body: JSON.stringify({ dueDate: payload.dueDate, assetUnitIds: payload.assetUnitIds }),
        });
     },
 
@@ -126,25 +390,120 @@ const api = {
         });
     },
     
-    returnItem: async (payload: { borrowLog: LogEntry; adminNotes: string }): Promise<{ returnLog: LogEntry; updatedBorrowLog: LogEntry; updatedItem: Item }> => {
-        return apiFetch<{ returnLog: LogEntry; updatedBorrowLog: LogEntry; updatedItem: Item }>('/logs/return', {
+    // Approves every pending line of a multi-item request. Due dates are keyed by log id;
+    // consumable lines have none and are issued. The borrowing policy is checked as for approveBorrowRequest.
+    approveBorrowBatch: async (payload: { requestId: string; dueDates: Record<string, string> }): Promise<{ updatedLogs: LogEntry[]; updatedItems: Item[]; newAdjustments?: StockAdjustment[] }> => {
+        return apiFetch<{ updatedLogs: LogEntry[]; updatedItems: Item[]; newAdjustments?: StockAdjustment[] }>(`/logs/requests/${payload.requestId}/approve`, {
+            method: 'POST',
+            body: JSON.stringify({ dueDates: payload.dueDates }),
+        });
+    },
+
+    denyBorrowBatch: async (payload: { requestId: string; reason: string }): Promise<LogEntry[]> => {
+        return apiFetch<LogEntry[]>(`/logs/requests/${payload.requestId}/deny`, {
+            method: 'POST',
+            body: JSON.stringify({ reason: payload.reason }),
+        });
+    },
+
+    // Returns part or all of a loan. Damaged and lost units are written off through stock adjustments.
+    // The admin who checked the items in is taken from the access token, as for every actor below.
+    returnItem: async (payload: { borrowLogId: string; conditions: ReturnedQuantity[]; unitConditions?: { assetUnitId: string; condition: ItemCondition }[]; adminNotes: string }, idempotencyKey?: string): Promise<{ returnLog: LogEntry; updatedBorrowLog: LogEntry; updatedItem: Item; newAdjustments: StockAdjustment[]; updatedUnits?: AssetUnit[] }> => {
+        return apiFetch<{ returnLog: LogEntry; updatedBorrowLog: LogEntry; updatedItem: Item; newAdjustments: StockAdjustment[]; updatedUnits?: AssetUnit[] }>('/logs/return', {
             method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
             body: JSON.stringify(payload)
         });
     },
-    
-    requestItemReturn: async (logId: string): Promise<{updatedLog: LogEntry, newNotification: Notification}> => {
-        return apiFetch<{updatedLog: LogEntry, newNotification: Notification}>(`/logs/${logId}/request-return`, {
-            method: 'POST'
+
+    returnItems: async (payload: { lines: { borrowLogId: string; conditions: ReturnedQuantity[]; unitConditions?: { assetUnitId: string; condition: ItemCondition }[] }[]; adminNotes: string }, idempotencyKey?: string): Promise<{ returnLogs: LogEntry[]; updatedBorrowLogs: LogEntry[]; updatedItems: Item[]; newAdjustments: StockAdjustment[]; updatedUnits?: AssetUnit[] }> => {
+        return apiFetch<{ returnLogs: LogEntry[]; updatedBorrowLogs: LogEntry[]; updatedItems: Item[]; newAdjustments: StockAdjustment[]; updatedUnits?: AssetUnit[] }>('/logs/return-batch', {
+            method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
+            body: JSON.stringify(payload)
+        });
+    },
+
+    requestItemReturn: async (logId: string, idempotencyKey?: string): Promise<{updatedLog: LogEntry}> => {
+        return apiFetch<{updatedLog: LogEntry}>(`/logs/${logId}/request-return`, {
+            method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
+        });
+    },
+
+    // Booked for userId, which must be the caller unless they have loans.lend.
+    createReservation: async (payload: { userId: string; itemId: string; quantity: number; startTime: string; endTime: string; purpose?: string }): Promise<{ newReservation: Reservation }> => {
+        return apiFetch<{ newReservation: Reservation }>('/reservations', {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        });
+    },
+
+    cancelReservation: async (reservationId: string): Promise<Reservation> => {
+        return apiFetch<Reservation>(`/reservations/${reservationId}/cancel`, {
+            method: 'POST',
         });
     },
 
+    // Converts a reservation into a normal, already-approved borrow log at pickup time.
+    // For serialized items the server hands out available units and names them on the log.
+    fulfillReservation: async (payload: { reservationId: string; dueDate: string }): Promise<{ updatedReservation: Reservation; newLog: LogEntry; updatedItem: Item; updatedUnits?: AssetUnit[] }> => {
+        return apiFetch<{ updatedReservation: Reservation; newLog: LogEntry; updatedItem: Item; updatedUnits?: AssetUnit[] }>(`/reservations/${payload.reservationId}/fulfill`, {
+            method: 'POST',
+            body: JSON.stringify({ dueDate: payload.dueDate }),
+        });
+    },
+
+    // reportedBy is set by the server to the caller.
+    reportIncident: async (incidentData: Omit<Incident, 'id' | 'status' | 'timestamp' | 'resolvedAt' | 'resolutionNotes' | 'reportedBy'>): Promise<Incident> => {
+        return apiFetch<Incident>('/incidents', {
+            method: 'POST',
+            body: JSON.stringify(incidentData),
+        });
+    },
+
+    resolveIncident: async (payload: { incidentId: string; status: IncidentStatus.PAID | IncidentStatus.WAIVED; resolutionNotes: string }): Promise<Incident> => {
+        return apiFetch<Incident>(`/incidents/${payload.incidentId}/resolve`, {
+            method: 'POST',
+            body: JSON.stringify({ status: payload.status, resolutionNotes: payload.resolutionNotes }),
+        });
+    },
+
+    // Notifications are created by the server and delivered through the change stream, so the
+    // actions that trigger them no longer return them. These endpoints only touch the caller's own.
     markNotificationsAsRead: async (notificationIds: string[]): Promise<string[]> => {
-        // In a real app, this would be a POST request to an endpoint.
-        console.log("Simulating marking notifications as read on backend:", notificationIds);
-        return Promise.resolve(notificationIds);
+        return apiFetch<string[]>('/notifications/read', {
+            method: 'POST',
+            body: JSON.stringify({ notificationIds }),
+        });
+    },
+
+    markNotificationsAsUnread: async (notificationIds: string[]): Promise<string[]> => {
+        return apiFetch<string[]>('/notifications/unread', {
+            method: 'POST',
+            body: JSON.stringify({ notificationIds }),
+        });
+    },
+
+    markAllNotificationsAsRead: async (): Promise<string[]> => {
+        return apiFetch<string[]>('/notifications/read-all', { method: 'POST' });
+    },
+
+    // Filtering and paging happen on the server; the log is too large to send whole.
+    getAuditLog: async (query: AuditQuery): Promise<AuditPage> => {
+        const params = new URLSearchParams();
+        Object.entries(query).forEach(([key, value]) => {
+            if (value === undefined || value === '') return;
+            if (Array.isArray(value)) {
+                value.forEach(v => params.append(key, v));
+            } else {
+                params.set(key, String(value));
+            }
+        });
+        return apiFetch<AuditPage>(`/audit?${params.toString()}`);
     },
 
+    // Each imported item's totalQuantity becomes its opening adjustment, as in addItem.
     importItems: async (itemsToImport: Omit<Item, 'id' | 'availableQuantity'>[]): Promise<Item[]> => {
         return apiFetch<Item[]>('/items/import', {
             method: 'POST',
@@ -158,8 +517,10 @@ const api = {
             body: JSON.stringify(suggestionData)
         });
     },
-    approveItemSuggestion: async (payload: { suggestionId: string; category: string; totalQuantity: number }): Promise<{ updatedSuggestion: Suggestion; newItem: Item }> => {
-        return apiFetch<{ updatedSuggestion: Suggestion; newItem: Item }>(`/suggestions/${payload.suggestionId}/approve-item`, {
+    // Approving an item suggestion raises a purchase request; the item itself is created when
+    // the first delivery is received against it.
+    approveItemSuggestion: async (payload: { suggestionId: string; category: string; quantity: number; vendor: string; estimatedUnitCost: number }): Promise<{ updatedSuggestion: Suggestion; newPurchaseRequest: PurchaseRequest }> => {
+        return apiFetch<{ updatedSuggestion: Suggestion; newPurchaseRequest: PurchaseRequest }>(`/suggestions/${payload.suggestionId}/approve-item`, {
             method: 'POST',
             body: JSON.stringify(payload)
         });
@@ -169,18 +530,66 @@ const api = {
             method: 'POST'
         });
     },
-    denySuggestion: async (payload: { suggestionId: string; reason: string; adminId: string }): Promise<{ updatedSuggestion: Suggestion; newComment: Comment }> => {
+    // The reason is posted as a comment by the denying admin.
+    denySuggestion: async (payload: { suggestionId: string; reason: string }): Promise<{ updatedSuggestion: Suggestion; newComment: Comment }> => {
         return apiFetch<{ updatedSuggestion: Suggestion; newComment: Comment }>(`/suggestions/${payload.suggestionId}/deny`, {
             method: 'POST',
-            body: JSON.stringify(payload)
+            body: JSON.stringify({ reason: payload.reason })
         });
     },
-    addComment: async (payload: { suggestionId: string; userId: string; text: string }): Promise<Comment> => {
+    // The author is the caller.
+    addComment: async (payload: { suggestionId: string; text: string }, idempotencyKey?: string): Promise<Comment> => {
         return apiFetch<Comment>('/comments', {
             method: 'POST',
+            headers: idempotencyHeaders(idempotencyKey),
             body: JSON.stringify(payload)
         });
     },
+
+    // Status, receipts and itemId are ignored. Lowering the quantity to what has already been
+    // received marks the request RECEIVED; it cannot go below that.
+    editPurchaseRequest: async (purchaseRequest: PurchaseRequest): Promise<PurchaseRequest> => {
+        return apiFetch<PurchaseRequest>(`/purchase-requests/${purchaseRequest.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(purchaseRequest),
+        });
+    },
+    orderPurchaseRequest: async (purchaseRequestId: string, orderReference: string): Promise<PurchaseRequest> => {
+        return apiFetch<PurchaseRequest>(`/purchase-requests/${purchaseRequestId}/order`, {
+            method: 'POST',
+            body: JSON.stringify({ orderReference }),
+        });
+    },
+    // Posts the delivery as a PURCHASE adjustment carrying the request's id. The first receipt
+    // creates the item in the request's category; item is the new or updated record.
+    receivePurchaseRequest: async (purchaseRequestId: string, quantity: number): Promise<{ purchaseRequest: PurchaseRequest; newAdjustment: StockAdjustment; item: Item }> => {
+        return apiFetch<{ purchaseRequest: PurchaseRequest; newAdjustment: StockAdjustment; item: Item }>(`/purchase-requests/${purchaseRequestId}/receive`, {
+            method: 'POST',
+            body: JSON.stringify({ quantity }),
+        });
+    },
+    // Refused once anything has been received against the request.
+    cancelPurchaseRequest: async (purchaseRequestId: string): Promise<PurchaseRequest> => {
+        return apiFetch<PurchaseRequest>(`/purchase-requests/${purchaseRequestId}/cancel`, { method: 'POST' });
+    },
+    // Creates the category's budget or replaces its amount.
+    setCategoryBudget: async (budget: Omit<CategoryBudget, 'id'>): Promise<CategoryBudget> => {
+        return apiFetch<CategoryBudget>(`/budgets/${encodeURIComponent(budget.category)}`, {
+            method: 'PUT',
+            body: JSON.stringify({ amount: budget.amount }),
+        });
+    },
+
+    getBorrowingPolicy: async (): Promise<BorrowingPolicy> => {
+        return apiFetch<BorrowingPolicy>('/settings/borrowing-policy');
+    },
+    // Admins only. Takes effect for every borrow request and approval from then on.
+    updateBorrowingPolicy: async (policy: BorrowingPolicy): Promise<BorrowingPolicy> => {
+        return apiFetch<BorrowingPolicy>('/settings/borrowing-policy', {
+            method: 'PUT',
+            body: JSON.stringify(policy),
+        });
+    },
 };
 
 export default api;
\ No newline at end of file
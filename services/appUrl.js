@@ -0,0 +1,27 @@
+/**
+ * The public address of OliLab, used for every link in an email. It comes from APP_URL
+ * and never from the request's Host or X-Forwarded-* headers, which the sender controls.
+ * Plain CommonJS so next.config.js can refuse to start the server without it. Server-only.
+ */
+
+/**
+ * @param {string | undefined} value
+ * @returns {string}
+ */
+const parseAppUrl = (value) => {
+    let url;
+    try {
+        url = new URL(value || '');
+    } catch {
+        throw new Error('APP_URL must be set to the public address of the app, e.g. https://olilab.example.edu');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error('APP_URL must be an http:// or https:// address.');
+    }
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+};
+
+/** @returns {string} */
+const getAppUrl = () => parseAppUrl(process.env.APP_URL);
+
+module.exports = { parseAppUrl, getAppUrl };
@@ -0,0 +1,17 @@
+/**
+ * Archived items and users stay in State so the logs, reports and incidents that mention
+ * them keep resolving their names. Anything that offers a choice or counts what is in use
+ * should leave them out.
+ */
+
+interface Archivable {
+    archivedAt?: string;
+}
+
+export const isArchived = (record: Archivable): boolean => !!record.archivedAt;
+
+export const withoutArchived = <T extends Archivable>(records: T[]): T[] =>
+    records.filter(record => !isArchived(record));
+
+export const onlyArchived = <T extends Archivable>(records: T[]): T[] =>
+    records.filter(isArchived);
@@ -0,0 +1,90 @@
+import { AuditAction, AuditChange, AuditEntry, AuditTargetType } from '../types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'item.create': 'Item added',
+    'item.update': 'Item edited',
+    'item.archive': 'Item archived',
+    'item.restore': 'Item restored',
+    'item.import': 'Items imported',
+    'item.sds_upload': 'Safety data sheet uploaded',
+    'item.relocate': 'Item locations changed',
+    'location.create': 'Location added',
+    'location.update': 'Location edited',
+    'location.delete': 'Location deleted',
+    'stocktake.start': 'Stocktake started',
+    'stocktake.count': 'Stocktake count recorded',
+    'stocktake.cancel': 'Stocktake cancelled',
+    'stocktake.complete': 'Stocktake completed',
+    'stock.adjust': 'Stock adjusted',
+    'asset_unit.create': 'Unit registered',
+    'asset_unit.update': 'Unit edited',
+    'user.create': 'Account created',
+    'user.update': 'User edited',
+    'user.archive': 'User archived',
+    'user.restore': 'User restored',
+    'user.approve': 'Account approved',
+    'user.deny': 'Account denied',
+    'user.preferences_update': 'Notification preferences changed',
+    'user.password_change': 'Password changed',
+    'user.password_reset': 'Password reset',
+    'loan.request': 'Borrow requested',
+    'loan.approve': 'Borrow request approved',
+    'loan.deny': 'Borrow request denied',
+    'loan.return': 'Return recorded',
+    'loan.return_request': 'Return requested',
+    'reservation.create': 'Reservation made',
+    'reservation.cancel': 'Reservation cancelled',
+    'reservation.fulfill': 'Reservation picked up',
+    'incident.report': 'Incident reported',
+    'incident.resolve': 'Incident resolved',
+    'suggestion.create': 'Suggestion submitted',
+    'suggestion.approve': 'Suggestion approved',
+    'suggestion.deny': 'Suggestion denied',
+    'purchase.update': 'Purchase request edited',
+    'purchase.order': 'Purchase ordered',
+    'purchase.receive': 'Purchase received',
+    'purchase.cancel': 'Purchase request cancelled',
+    'budget.update': 'Budget changed',
+    'settings.update': 'Settings changed',
+    'comment.create': 'Comment added',
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+    item: 'Item',
+    asset_unit: 'Unit',
+    location: 'Location',
+    stocktake: 'Stocktake',
+    user: 'User',
+    log: 'Borrow log',
+    reservation: 'Reservation',
+    incident: 'Incident',
+    suggestion: 'Suggestion',
+    purchase_request: 'Purchase request',
+    budget: 'Budget',
+    settings: 'Settings',
+    comment: 'Comment',
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export const formatAuditValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+export const describeAuditChange = ({ field, before, after }: AuditChange): string =>
+    `${field}: ${formatAuditValue(before)} → ${formatAuditValue(after)}`;
+
+// One flat row per entry, for CSV export
+export const toAuditExportRow = (entry: AuditEntry) => ({
+    timestamp: entry.timestamp,
+    actor: entry.actorName,
+    actorId: entry.actorId,
+    action: AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+    targetType: AUDIT_TARGET_LABELS[entry.targetType] ?? entry.targetType,
+    target: entry.targetLabel,
+    targetId: entry.targetId,
+    changes: entry.changes.map(describeAuditChange).join('; '),
+    reason: entry.reason ?? '',
+});
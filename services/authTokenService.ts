@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { User } from '../types';
+import { can, Permission } from './permissionService';
+
+/**
+ * Server-side verification of the access tokens issued by the backend on login.
+ * Tokens are HS256-signed JWTs; the signing secret is shared with the backend
+ * through AUTH_TOKEN_SECRET and never reaches the browser.
+ */
+
+export interface TokenClaims {
+    sub: string; // User id
+    role: User['role'];
+    isAdmin: boolean;
+    teachingSections?: string[];
+    exp: number; // Seconds since the epoch
+}
+
+export type AuthenticatedRequest = NextApiRequest & { auth: TokenClaims };
+
+const base64UrlDecode = (value: string): Buffer =>
+    Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+const getSecret = (): string => {
+    const secret = process.env.AUTH_TOKEN_SECRET;
+    if (!secret || secret.trim() === '') {
+        throw new Error('AUTH_TOKEN_SECRET is not configured.');
+    }
+    return secret;
+};
+
+/**
+ * Returns the token's claims, or null if it is malformed, tampered with or expired.
+ * A missing AUTH_TOKEN_SECRET is a server misconfiguration, not a bad token, so it is thrown.
+ */
+export const verifyAccessToken = (token: string): TokenClaims | null => {
+    const secret = getSecret();
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const [header, payload, signature] = parts;
+
+    try {
+        const { alg } = JSON.parse(base64UrlDecode(header).toString('utf8'));
+        if (alg !== 'HS256') return null;
+
+        const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+        const actual = base64UrlDecode(signature);
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        const claims = JSON.parse(base64UrlDecode(payload).toString('utf8')) as TokenClaims;
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+            return null;
+        }
+        return claims;
+    } catch {
+        return null;
+    }
+};
+
+const getBearerToken = (req: NextApiRequest): string | null => {
+    const header = req.headers.authorization;
+    return header && header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+/**
+ * Wraps an API route so it only runs for a valid session, and optionally only for
+ * users whose role grants the given permission.
+ * The role comes from the signed token, never from the request body.
+ */
+export const withAuth = (
+    handler: (req: AuthenticatedRequest, res: NextApiResponse) => unknown | Promise<unknown>,
+    options: { permission?: Permission } = {}
+): NextApiHandler => {
+    return async (req, res) => {
+        const token = getBearerToken(req);
+        const claims = token ? verifyAccessToken(token) : null;
+        if (!claims) {
+            return res.status(401).json({ message: 'Your session has expired. Please log in again.' });
+        }
+        if (options.permission && !can(claims, options.permission)) {
+            return res.status(403).json({ message: 'You do not have permission to perform this action.' });
+        }
+        return handler(Object.assign(req, { auth: claims }), res);
+    };
+};
+
+const matchesSecret = (secret: string | undefined, provided: string | null): boolean => {
+    const expected = Buffer.from(secret ?? '');
+    const actual = Buffer.from(provided ?? '');
+    return !!secret && actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Wraps an API route meant for a scheduler rather than a user. The scheduler sends
+ * CRON_SECRET as a Bearer token; without that secret configured the route is disabled.
+ */
+export const withCronSecret = (handler: NextApiHandler): NextApiHandler => {
+    return async (req, res) => {
+        if (!matchesSecret(process.env.CRON_SECRET, getBearerToken(req))) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        return handler(req, res);
+    };
+};
+
+/**
+ * Wraps an API route that only the backend calls. It sends BACKEND_SERVICE_KEY in the
+ * X-Service-Key header, the same key serviceClient uses in the other direction.
+ */
+export const withServiceKey = (handler: NextApiHandler): NextApiHandler => {
+    return async (req, res) => {
+        const key = req.headers['x-service-key'];
+        if (!matchesSecret(process.env.BACKEND_SERVICE_KEY, typeof key === 'string' ? key : null)) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        return handler(req, res);
+    };
+};
@@ -0,0 +1,64 @@
+import { GhsPictogram, Item, User } from '../types';
+import { EXPIRY_WARNING_DAYS } from '../constants';
+
+export const GHS_PICTOGRAMS: Record<GhsPictogram, { code: string; label: string }> = {
+    explosive: { code: 'GHS01', label: 'Explosive' },
+    flammable: { code: 'GHS02', label: 'Flammable' },
+    oxidizing: { code: 'GHS03', label: 'Oxidizing' },
+    compressed_gas: { code: 'GHS04', label: 'Compressed gas' },
+    corrosive: { code: 'GHS05', label: 'Corrosive' },
+    toxic: { code: 'GHS06', label: 'Acute toxicity' },
+    harmful: { code: 'GHS07', label: 'Harmful / irritant' },
+    health_hazard: { code: 'GHS08', label: 'Health hazard' },
+    environmental: { code: 'GHS09', label: 'Environmental hazard' },
+};
+
+export const GHS_PICTOGRAM_KEYS = Object.keys(GHS_PICTOGRAMS) as GhsPictogram[];
+
+// Where a chemical is kept in the stockroom; incompatible classes must not share a cabinet
+export const STORAGE_CLASSES = [
+    'General',
+    'Flammable liquids',
+    'Flammable solids',
+    'Oxidizers',
+    'Acids',
+    'Bases',
+    'Toxics',
+    'Compressed gases',
+    'Refrigerated',
+];
+
+export const isChemical = (item: Pick<Item, 'chemical'> | undefined): boolean => !!item?.chemical;
+
+export const isHazardous = (item: Pick<Item, 'chemical'> | undefined): boolean => (item?.chemical?.hazards.length ?? 0) > 0;
+
+// Requests for hazardous chemicals on behalf of Grade 11 students carry a safety warning
+export const needsHazardWarning = (item: Pick<Item, 'chemical'> | undefined, borrower: Pick<User, 'gradeLevel'> | null | undefined): boolean =>
+    isHazardous(item) && borrower?.gradeLevel === 'Grade 11';
+
+// "64-17-5" is ethanol. The last digit is a checksum of the others, weighted by position from the right.
+export const isValidCasNumber = (casNumber: string): boolean => {
+    const match = /^(\d{2,7})-(\d{2})-(\d)$/.exec(casNumber.trim());
+    if (!match) return false;
+    const digits = (match[1] + match[2]).split('').reverse();
+    const sum = digits.reduce((total, digit, index) => total + Number(digit) * (index + 1), 0);
+    return sum % 10 === Number(match[3]);
+};
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'ok';
+
+// Whole days from today to the expiry date; negative once it has passed
+export const getDaysUntilExpiry = (expiryDate: string, now: Date = new Date()): number => {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const [year, month, day] = expiryDate.split('-').map(Number);
+    return Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+// Items without an expiry date never expire
+export const getExpiryStatus = (item: Pick<Item, 'chemical'>, now: Date = new Date()): ExpiryStatus => {
+    const expiryDate = item.chemical?.expiryDate;
+    if (!expiryDate) return 'ok';
+    const days = getDaysUntilExpiry(expiryDate, now);
+    if (days < 0) return 'expired';
+    return days <= EXPIRY_WARNING_DAYS ? 'expiring' : 'ok';
+};
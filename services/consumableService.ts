@@ -0,0 +1,50 @@
+import { Item, LogAction, LogEntry, LogStatus, UnitOfMeasure } from '../types';
+
+/**
+ * Consumables are issued rather than lent: an approved request becomes an ISSUED log and
+ * the stock it took is gone for good. Everything that treats an item differently depending
+ * on its kind should go through these helpers.
+ */
+
+export const UNITS_OF_MEASURE: Record<UnitOfMeasure, string> = {
+    pcs: 'pieces',
+    pairs: 'pairs',
+    sheets: 'sheets',
+    mL: 'millilitres',
+    L: 'litres',
+    g: 'grams',
+    kg: 'kilograms',
+};
+
+export const isConsumable = (item: Pick<Item, 'kind'> | undefined): boolean => item?.kind === 'consumable';
+
+export const isIssued = (log: LogEntry): boolean =>
+    log.action === LogAction.BORROW && log.status === LogStatus.ISSUED;
+
+// "250 mL", "12 pcs". Items without a unit are counted in pieces.
+export const formatQuantity = (quantity: number, item?: Pick<Item, 'unit'>): string =>
+    `${quantity} ${item?.unit ?? 'pcs'}`;
+
+export interface SectionUsage {
+    section: string;
+    quantity: number;
+    issuances: number;
+    lastIssuedAt: string;
+}
+
+// Issued quantities of one item per section, largest first. Issues to staff or to students
+// without a section are grouped under "No section".
+export const getUsageBySection = (itemId: string, logs: LogEntry[], since?: Date): SectionUsage[] => {
+    const usage = new Map<string, SectionUsage>();
+    logs
+        .filter(log => log.itemId === itemId && isIssued(log) && (!since || new Date(log.timestamp) >= since))
+        .forEach(log => {
+            const section = log.section || 'No section';
+            const entry = usage.get(section) ?? { section, quantity: 0, issuances: 0, lastIssuedAt: log.timestamp };
+            entry.quantity += log.quantity;
+            entry.issuances += 1;
+            if (new Date(log.timestamp) > new Date(entry.lastIssuedAt)) entry.lastIssuedAt = log.timestamp;
+            usage.set(section, entry);
+        });
+    return Array.from(usage.values()).sort((a, b) => b.quantity - a.quantity);
+};
@@ -0,0 +1,70 @@
+// Browser-side CSV export and import helpers shared by the report and audit pages.
+
+export const downloadCSV = (csvContent: string, fileName: string) => {
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const convertToCSV = <T extends object>(data: T[]): string => {
+    if (data.length === 0) return "";
+    // Optional fields such as archivedAt may be missing from the first rows
+    const headers = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+    const csvRows = [headers.join(',')];
+    for (const row of data) {
+        const values = headers.map(header => {
+            const value = (row as any)[header];
+            // Spreadsheets run text starting with these as a formula, so user-entered text is
+            // prefixed with ' to keep it as text. Numbers, negative ones included, are left alone.
+            const stringValue = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value ?? '');
+            // Escape commas and quotes by enclosing in double quotes
+            if (/[",\n]/.test(stringValue)) {
+                return `"${stringValue.replace(/"/g, '""')}"`;
+            }
+            return stringValue;
+        });
+        csvRows.push(values.join(','));
+    }
+    return csvRows.join('\n');
+};
+
+// A more robust CSV parser that handles quoted fields with commas.
+export const parseCSV = (csvText: string): Record<string, string>[] => {
+    try {
+        const lines = csvText.trim().split(/\r\n|\n/);
+        if (lines.length < 2) return [];
+
+        const headers = lines.shift()!.split(',').map(h => h.trim());
+        const data: Record<string, string>[] = [];
+
+        lines.forEach(line => {
+            if (line.trim() === '') return;
+            // This regex splits by comma, but ignores commas inside double quotes.
+            const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/);
+            
+            if (values.length === headers.length) {
+                const row: Record<string, string> = {};
+                headers.forEach((header, index) => {
+                    let value = (values[index] || '').trim();
+                    // Remove surrounding quotes and un-escape double quotes
+                    if (value.startsWith('"') && value.endsWith('"')) {
+                        value = value.substring(1, value.length - 1).replace(/""/g, '"');
+                    }
+                    row[header] = value;
+                });
+                data.push(row);
+            }
+        });
+        return data;
+    } catch (error) {
+        console.error("Failed to parse CSV", error);
+        return [];
+    }
+};
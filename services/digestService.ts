@@ -0,0 +1,105 @@
+import { DigestFrequency, LogAction, LogStatus, State, UserStatus } from '../types';
+import { getOutstandingQuantity, getOverdueInfo, getOverdueLoans } from './loanService';
+import { canReceiveDigest, getDigestFrequency } from './notificationService';
+import { escapeHtml } from './emailTemplates';
+import { sendTemplatedEmail } from './emailService';
+import { isArchived } from './archiveService';
+
+/**
+ * The admin digest: one summary email of everything waiting on an admin, sent daily or
+ * weekly instead of an email per event. Server-only.
+ */
+
+// Keeps the email readable when a lot has piled up; the counts still show the full totals
+const MAX_LINES_PER_SECTION = 20;
+
+interface DigestSection {
+    count: number;
+    lines: string[];
+}
+
+export interface Digest {
+    pendingRequests: DigestSection;
+    pendingUsers: DigestSection;
+    overdueLoans: DigestSection;
+}
+
+const toSection = (lines: string[]): DigestSection => ({ count: lines.length, lines: lines.slice(0, MAX_LINES_PER_SECTION) });
+
+export const buildDigest = (state: State, now: Date = new Date()): Digest => {
+    const itemName = (itemId: string) => state.items.find(i => i.id === itemId)?.name || 'Unknown Item';
+    const userName = (userId: string) => state.users.find(u => u.id === userId)?.fullName || 'Unknown User';
+
+    const pendingRequests = state.logs
+        .filter(log => log.action === LogAction.BORROW && log.status === LogStatus.PENDING)
+        .map(log => `${userName(log.userId)} asked for ${log.quantity}x ${itemName(log.itemId)} on ${new Date(log.timestamp).toLocaleDateString()}`);
+
+    const pendingUsers = state.users
+        .filter(user => user.status === UserStatus.PENDING && !isArchived(user))
+        .map(user => `${user.fullName} (${user.role}${user.section ? `, ${user.section}` : ''})`);
+
+    const overdueLoans = getOverdueLoans(state.logs, state.items, now)
+        .map(log => {
+            const { daysOverdue } = getOverdueInfo(log, state.items.find(i => i.id === log.itemId), now);
+            return `${userName(log.userId)}: ${getOutstandingQuantity(log)}x ${itemName(log.itemId)}, ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`;
+        });
+
+    return {
+        pendingRequests: toSection(pendingRequests),
+        pendingUsers: toSection(pendingUsers),
+        overdueLoans: toSection(overdueLoans),
+    };
+};
+
+const toText = ({ count, lines }: DigestSection): string =>
+    count === 0 ? '- Nothing pending' : [...lines.map(line => `- ${line}`), ...(count > lines.length ? [`- and ${count - lines.length} more`] : [])].join('\n');
+
+const toHtml = ({ count, lines }: DigestSection): string => {
+    if (count === 0) return '<p style="color:#64748b;">Nothing pending.</p>';
+    const more = count > lines.length ? `<li>and ${count - lines.length} more</li>` : '';
+    return `<ul>${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}${more}</ul>`;
+};
+
+/**
+ * Emails the digest to every admin who chose this frequency. Nothing is sent when nothing is
+ * waiting, and each admin gets at most one digest per frequency per day.
+ * Returns the number of digests sent.
+ */
+export const sendAdminDigests = async (state: State, frequency: Exclude<DigestFrequency, 'off'>, appUrl: string, now: Date = new Date()): Promise<number> => {
+    const digest = buildDigest(state, now);
+    const { pendingRequests, pendingUsers, overdueLoans } = digest;
+    if (pendingRequests.count + pendingUsers.count + overdueLoans.count === 0) {
+        return 0;
+    }
+
+    const summary = [
+        pendingRequests.count > 0 ? `${pendingRequests.count} pending request${pendingRequests.count === 1 ? '' : 's'}` : '',
+        pendingUsers.count > 0 ? `${pendingUsers.count} account${pendingUsers.count === 1 ? '' : 's'} to approve` : '',
+        overdueLoans.count > 0 ? `${overdueLoans.count} overdue loan${overdueLoans.count === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join(', ');
+
+    const recipients = state.users.filter(user =>
+        user.status === UserStatus.APPROVED && !isArchived(user) && canReceiveDigest(user) && getDigestFrequency(user) === frequency
+    );
+    const day = now.toISOString().slice(0, 10);
+    let sent = 0;
+    for (const admin of recipients) {
+        const queued = await sendTemplatedEmail(admin, 'admin_digest', {
+            period: frequency === 'daily' ? 'Daily' : 'Weekly',
+            summary,
+            pendingRequestCount: String(pendingRequests.count),
+            pendingRequests: toText(pendingRequests),
+            pendingRequestsHtml: toHtml(pendingRequests),
+            pendingUserCount: String(pendingUsers.count),
+            pendingUsers: toText(pendingUsers),
+            pendingUsersHtml: toHtml(pendingUsers),
+            overdueLoanCount: String(overdueLoans.count),
+            overdueLoans: toText(overdueLoans),
+            overdueLoansHtml: toHtml(overdueLoans),
+            appUrl,
+            preferencesUrl: `${appUrl}/profile/notifications`,
+        }, `admin_digest:${frequency}:${admin.id}:${day}`);
+        if (queued) sent += 1;
+    }
+    return sent;
+};
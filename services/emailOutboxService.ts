@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailMessage, getEmailTransport } from './emailTransport';
+
+/**
+ * Every email is written to a persisted outbox before it is sent, so a mail server
+ * outage or a restart does not lose it. Failed sends are retried with a growing delay
+ * and given up on after MAX_ATTEMPTS. Server-only.
+ */
+
+const OUTBOX_FILE = process.env.EMAIL_OUTBOX_FILE || path.join(process.cwd(), '.data', 'email-outbox.json');
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface QueuedEmail {
+    id: string;
+    message: EmailMessage;
+    // Emails with the same key are only ever queued once, e.g. one approval email per account
+    dedupeKey?: string;
+    status: 'pending' | 'sent' | 'failed';
+    attempts: number;
+    queuedAt: string;
+    nextAttemptAt: string;
+    sentAt?: string;
+    lastError?: string;
+}
+
+export interface OutboxRunResult {
+    sent: number;
+    failed: number;
+    pending: number;
+}
+
+// Reads and writes of the outbox file run one at a time within this process
+let lock: Promise<unknown> = Promise.resolve();
+const withLock = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = lock.then(task, task);
+    lock = run.catch(() => undefined);
+    return run;
+};
+
+const readOutbox = async (): Promise<QueuedEmail[]> => {
+    try {
+        return JSON.parse(await fs.readFile(OUTBOX_FILE, 'utf8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+};
+
+// Written to a temporary file first so a crash mid-write cannot leave a truncated outbox
+const writeOutbox = async (entries: QueuedEmail[]): Promise<void> => {
+    await fs.mkdir(path.dirname(OUTBOX_FILE), { recursive: true });
+    const tempFile = `${OUTBOX_FILE}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entries, null, 2));
+    await fs.rename(tempFile, OUTBOX_FILE);
+};
+
+const getRetryDelay = (attempts: number): number => BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+/**
+ * Adds an email to the outbox. Returns false if one with the same dedupeKey was already queued.
+ */
+export const queueEmail = (message: EmailMessage, dedupeKey?: string): Promise<boolean> => withLock(async () => {
+    const entries = await readOutbox();
+    if (dedupeKey && entries.some(entry => entry.dedupeKey === dedupeKey)) {
+        return false;
+    }
+    const now = new Date().toISOString();
+    entries.push({
+        id: `email_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        message,
+        dedupeKey,
+        status: 'pending',
+        attempts: 0,
+        queuedAt: now,
+        nextAttemptAt: now,
+    });
+    await writeOutbox(entries);
+    return true;
+});
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Wakes up for the next retry while the server keeps running. Deployments that do not keep a
+// process alive should also call /api/email/process-outbox on a schedule.
+const scheduleRetry = (entries: QueuedEmail[]) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    const nextAttempts = entries.filter(e => e.status === 'pending').map(e => new Date(e.nextAttemptAt).getTime());
+    if (nextAttempts.length === 0) return;
+    const delay = Math.max(Math.min(...nextAttempts) - Date.now(), 0);
+    retryTimer = setTimeout(processEmailOutboxInBackground, delay);
+    retryTimer.unref?.();
+};
+
+/**
+ * Sends every pending email that is due, and drops sent emails older than the retention period.
+ */
+export const processEmailOutbox = (): Promise<OutboxRunResult> => withLock(async () => {
+    const transport = getEmailTransport();
+    const now = Date.now();
+    const entries = (await readOutbox()).filter(entry =>
+        entry.status !== 'sent' || !entry.sentAt || now - new Date(entry.sentAt).getTime() < SENT_RETENTION_MS
+    );
+    const result: OutboxRunResult = { sent: 0, failed: 0, pending: 0 };
+
+    for (const entry of entries) {
+        if (entry.status !== 'pending' || new Date(entry.nextAttemptAt).getTime() > now) continue;
+        entry.attempts += 1;
+        try {
+            await transport.send(entry.message);
+            entry.status = 'sent';
+            entry.sentAt = new Date().toISOString();
+            entry.lastError = undefined;
+            result.sent += 1;
+        } catch (error: any) {
+            entry.lastError = error.message;
+            if (entry.attempts >= MAX_ATTEMPTS) {
+                entry.status = 'failed';
+                result.failed += 1;
+                console.error(`Giving up on email "${entry.message.subject}" to ${entry.message.to}:`, error);
+            } else {
+                entry.nextAttemptAt = new Date(Date.now() + getRetryDelay(entry.attempts)).toISOString();
+            }
+        }
+    }
+
+    result.pending = entries.filter(entry => entry.status === 'pending').length;
+    await writeOutbox(entries);
+    scheduleRetry(entries);
+    return result;
+});
+
+// Starts a run without waiting for it, for callers that must not be held up by the mail server
+export const processEmailOutboxInBackground = (): void => {
+    processEmailOutbox().catch(error => console.error('Failed to process the email outbox:', error));
+};
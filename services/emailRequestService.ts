@@ -0,0 +1,34 @@
+import { getAccessToken } from './sessionService';
+
+/**
+ * Browser side of email delivery. Emails are rendered and sent by the Next server;
+ * the browser only reports what happened. A failed request is logged and never
+ * blocks the action that triggered it.
+ */
+
+export type EmailEvent = 'account_approved' | 'account_denied' | 'profile_updated';
+
+const postToEmailRoute = async (route: string, body: object, authorized: boolean) => {
+    try {
+        const response = await fetch(`/api/email/${route}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(authorized ? { 'Authorization': `Bearer ${getAccessToken()}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const result = await response.json().catch(() => ({}));
+            throw new Error(result.message || `HTTP ${response.status}`);
+        }
+    } catch (error) {
+        console.error(`Failed to request the ${route} email:`, error);
+    }
+};
+
+export const requestEmail = (event: EmailEvent, userId?: string): Promise<void> =>
+    postToEmailRoute('send', { event, userId }, true);
+
+export const requestNewRegistrationEmail = (userId: string): Promise<void> =>
+    postToEmailRoute('new-registration', { userId }, false);
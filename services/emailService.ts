@@ -1,110 +1,79 @@
 import { User } from '../types';
+import { EmailTemplateName, EmailVariables, renderEmail } from './emailTemplates';
+import { processEmailOutboxInBackground, queueEmail } from './emailOutboxService';
+import { wantsEmail } from './notificationService';
 
 /**
- * NOTE: This is a mock email service. In a real application, this would
- * integrate with an actual email provider like SendGrid, Mailgun, etc.
- * For now, it logs messages to the console to simulate email sending.
+ * The emails OliLab sends. Each one is rendered from a template and put in the outbox,
+ * which is then processed in the background so no request waits on the mail server;
+ * delivery failures stay in the outbox to be retried. Emails for events users can opt out of check their preferences first.
+ * Server-only: browser code asks for emails through /api/email.
  */
 
-const logEmail = (to: string, subject: string, body: string) => {
-    console.log(`
-    --- 📧 SIMULATING EMAIL 📧 ---
-    To: ${to}
-    Subject: ${subject}
-    
-    ${body}
-    -----------------------------
-    `);
-};
-
-export const sendLoginNotification = (user: User) => {
-    const subject = "Security Alert: Successful Login to Your OliLab Account";
-    const body = `
-    Hi ${user.fullName},
-
-    This is a confirmation that your OliLab account was just accessed.
-
-    Date & Time: ${new Date().toLocaleString()}
-
-    If this was you, you can safely ignore this email.
-    If you do not recognize this activity, please change your password immediately and contact an administrator.
+type Recipient = Pick<User, 'fullName' | 'email'>;
 
-    Thank you,
-    The OliLab Team
-    `;
-    logEmail(user.email, subject, body);
+/**
+ * Returns false if an email with the same dedupeKey has already been queued.
+ */
+export const sendTemplatedEmail = async (
+    recipient: Recipient,
+    template: EmailTemplateName,
+    variables: EmailVariables = {},
+    dedupeKey?: string
+): Promise<boolean> => {
+    const message = renderEmail(recipient.email, template, { fullName: recipient.fullName, ...variables });
+    const queued = await queueEmail(message, dedupeKey);
+    if (queued) {
+        processEmailOutboxInBackground();
+    }
+    return queued;
 };
 
-export const sendProfileUpdateNotification = (user: User, changedByAdmin: boolean = false) => {
-    const subject = "Your OliLab Account Information Was Updated";
-    const body = `
-    Hi ${user.fullName},
-
-    This email is to confirm that your account details have been successfully updated.
-    ${changedByAdmin ? "\n    An administrator made this change on your behalf." : ""}
-
-    If you did not request this change, please contact an administrator immediately.
-
-    Thank you,
-    The OliLab Team
-    `;
-    logEmail(user.email, subject, body);
+export const sendLoginNotification = async (user: User) => {
+    if (!wantsEmail(user, 'login_alert')) return false;
+    return sendTemplatedEmail(user, 'login_alert', { loginTime: new Date().toLocaleString() });
 };
 
-
-export const sendNewUserAdminNotification = (newUser: User, admins: User[]) => {
-    const subject = `New User Registration Pending Approval: ${newUser.fullName}`;
-    const body = `
-    Hello OliLab Administrators,
-
-    A new user has just signed up and is awaiting approval.
-
-    **User Details:**
-    - Full Name: ${newUser.fullName}
-    - Username: ${newUser.username}
-    - Email: ${newUser.email}
-    - Role: ${newUser.role}
-    ${newUser.lrn ? `- LRN: ${newUser.lrn}` : ''}
-    ${newUser.gradeLevel ? `- Grade: ${newUser.gradeLevel} - ${newUser.section}` : ''}
-
-    Please visit the 'Users' page in the dashboard to approve or deny this registration request.
-
-    Thank you,
-    OliLab System
-    `;
-    
-    admins.forEach(admin => {
-        logEmail(admin.email, subject, body);
+export const sendProfileUpdateNotification = async (user: User, changedByAdmin: boolean = false) => {
+    if (!wantsEmail(user, 'profile_updated')) return false;
+    return sendTemplatedEmail(user, 'profile_updated', {
+        changedBy: changedByAdmin ? 'An administrator made this change on your behalf.' : '',
     });
 };
 
-export const sendAccountApprovedNotification = (user: User) => {
-    const subject = "Your OliLab Account Has Been Approved!";
-    const body = `
-    Hi ${user.fullName},
-
-    Great news! Your registration for OliLab has been approved by an administrator.
-    You can now log in to your account and start using the system.
-
-    Welcome aboard!
-
-    Thank you,
-    The OliLab Team
-    `;
-    logEmail(user.email, subject, body);
+// Admins who rely on the digest instead are skipped
+export const sendNewUserAdminNotification = async (newUser: User, admins: User[], appUrl: string) => {
+    const details = [
+        newUser.lrn ? `LRN: ${newUser.lrn}` : '',
+        newUser.gradeLevel ? `Grade: ${newUser.gradeLevel} - ${newUser.section}` : '',
+    ].filter(Boolean).join(', ');
+    for (const admin of admins.filter(admin => wantsEmail(admin, 'new_user'))) {
+        await sendTemplatedEmail(admin, 'new_user_registration', {
+            newUserName: newUser.fullName,
+            newUserUsername: newUser.username,
+            newUserEmail: newUser.email,
+            newUserRole: newUser.role,
+            newUserDetails: details,
+            usersUrl: `${appUrl}/users`,
+        }, `new_user_registration:${newUser.id}:${admin.email}`);
+    }
 };
 
+export const sendAccountApprovedNotification = (user: User, appUrl: string) =>
+    sendTemplatedEmail(user, 'account_approved', { loginUrl: `${appUrl}/login` }, `account_approved:${user.id}`);
 
-export const sendAccountDeniedNotification = (user: User) => {
-    const subject = "Update on Your OliLab Account Registration";
-    const body = `
-    Hi ${user.fullName},
+export const sendAccountDeniedNotification = (user: User) =>
+    sendTemplatedEmail(user, 'account_denied', {}, `account_denied:${user.id}`);
 
-    Thank you for your interest in OliLab. After a review, we regret to inform you that your registration request has been denied at this time.
-    If you believe this was a mistake, please contact a laboratory administrator directly.
+export const sendPasswordResetEmail = (user: Recipient, resetUrl: string, expiresAt: Date, requestedByAdmin: boolean = false) =>
+    sendTemplatedEmail(user, 'password_reset', {
+        intro: requestedByAdmin
+            ? 'A laboratory administrator has reset your password. You will need to choose a new one before you can log in again.'
+            : 'We received a request to reset the password for your OliLab account.',
+        outro: requestedByAdmin ? '' : 'If you did not request a password reset, you can safely ignore this email. Your password will not change.',
+        expiresAt: expiresAt.toLocaleString(),
+        resetUrl,
+    });
 
-    Thank you,
-    The OliLab Team
-    `;
-    logEmail(user.email, subject, body);
-};
\ No newline at end of file
+export const sendPasswordChangedNotification = (user: Recipient) =>
+    sendTemplatedEmail(user, 'password_changed');
@@ -0,0 +1,212 @@
+import { EmailMessage } from './emailTransport';
+
+/**
+ * Email templates with {{variable}} placeholders. Each has a plain-text and an HTML body;
+ * values are HTML-escaped when they are put into the HTML body, except in {{{variable}}}
+ * placeholders, which take markup the caller has already escaped. The HTML body is wrapped
+ * in a shared layout, so templates only provide the content.
+ */
+
+export interface EmailTemplate {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export type EmailVariables = Record<string, string>;
+
+export const EMAIL_TEMPLATES = {
+    login_alert: {
+        subject: 'Security Alert: Successful Login to Your OliLab Account',
+        text: `Hi {{fullName}},
+
+This is a confirmation that your OliLab account was just accessed.
+
+Date & Time: {{loginTime}}
+
+If this was you, you can safely ignore this email.
+If you do not recognize this activity, please change your password immediately and contact an administrator.`,
+        html: `<p>Hi {{fullName}},</p>
+<p>This is a confirmation that your OliLab account was just accessed.</p>
+<p><strong>Date &amp; Time:</strong> {{loginTime}}</p>
+<p>If this was you, you can safely ignore this email. If you do not recognize this activity, please change your password immediately and contact an administrator.</p>`,
+    },
+    profile_updated: {
+        subject: 'Your OliLab Account Information Was Updated',
+        text: `Hi {{fullName}},
+
+This email is to confirm that your account details have been successfully updated. {{changedBy}}
+
+If you did not request this change, please contact an administrator immediately.`,
+        html: `<p>Hi {{fullName}},</p>
+<p>This email is to confirm that your account details have been successfully updated. {{changedBy}}</p>
+<p>If you did not request this change, please contact an administrator immediately.</p>`,
+    },
+    new_user_registration: {
+        subject: 'New User Registration Pending Approval: {{newUserName}}',
+        text: `Hello {{fullName}},
+
+A new user has just signed up and is awaiting approval.
+
+- Full Name: {{newUserName}}
+- Username: {{newUserUsername}}
+- Email: {{newUserEmail}}
+- Role: {{newUserRole}}
+{{newUserDetails}}
+
+Please visit the Users page to approve or deny this registration: {{usersUrl}}`,
+        html: `<p>Hello {{fullName}},</p>
+<p>A new user has just signed up and is awaiting approval.</p>
+<ul>
+<li><strong>Full Name:</strong> {{newUserName}}</li>
+<li><strong>Username:</strong> {{newUserUsername}}</li>
+<li><strong>Email:</strong> {{newUserEmail}}</li>
+<li><strong>Role:</strong> {{newUserRole}}</li>
+</ul>
+<p>{{newUserDetails}}</p>
+<p><a href="{{usersUrl}}">Review the registration</a></p>`,
+    },
+    account_approved: {
+        subject: 'Your OliLab Account Has Been Approved!',
+        text: `Hi {{fullName}},
+
+Great news! Your registration for OliLab has been approved by an administrator.
+You can now log in to your account and start using the system: {{loginUrl}}
+
+Welcome aboard!`,
+        html: `<p>Hi {{fullName}},</p>
+<p>Great news! Your registration for OliLab has been approved by an administrator. You can now log in to your account and start using the system.</p>
+<p><a href="{{loginUrl}}">Log in to OliLab</a></p>
+<p>Welcome aboard!</p>`,
+    },
+    account_denied: {
+        subject: 'Update on Your OliLab Account Registration',
+        text: `Hi {{fullName}},
+
+Thank you for your interest in OliLab. After a review, we regret to inform you that your registration request has been denied at this time.
+If you believe this was a mistake, please contact a laboratory administrator directly.`,
+        html: `<p>Hi {{fullName}},</p>
+<p>Thank you for your interest in OliLab. After a review, we regret to inform you that your registration request has been denied at this time.</p>
+<p>If you believe this was a mistake, please contact a laboratory administrator directly.</p>`,
+    },
+    password_reset: {
+        subject: 'Reset Your OliLab Password',
+        text: `Hi {{fullName}},
+
+{{intro}}
+
+Use the link below to choose a new password. It can only be used once and expires at {{expiresAt}}.
+
+{{resetUrl}}
+
+{{outro}}`,
+        html: `<p>Hi {{fullName}},</p>
+<p>{{intro}}</p>
+<p>Use the link below to choose a new password. It can only be used once and expires at {{expiresAt}}.</p>
+<p><a href="{{resetUrl}}">Choose a new password</a></p>
+<p>{{outro}}</p>`,
+    },
+    password_changed: {
+        subject: 'Your OliLab Password Was Changed',
+        text: `Hi {{fullName}},
+
+The password for your OliLab account was just changed. You have been signed out on your other devices.
+
+If you did not make this change, please contact an administrator immediately.`,
+        html: `<p>Hi {{fullName}},</p>
+<p>The password for your OliLab account was just changed. You have been signed out on your other devices.</p>
+<p>If you did not make this change, please contact an administrator immediately.</p>`,
+    },
+    loan_reminder: {
+        subject: '{{headline}}: {{itemName}}',
+        text: `Hi {{fullName}},
+
+{{message}}
+
+Borrowed: {{quantity}}x {{itemName}}
+Due: {{dueDate}}
+
+See your loans: {{loansUrl}}`,
+        html: `<p>Hi {{fullName}},</p>
+<p>{{message}}</p>
+<ul>
+<li><strong>Borrowed:</strong> {{quantity}}x {{itemName}}</li>
+<li><strong>Due:</strong> {{dueDate}}</li>
+</ul>
+<p><a href="{{loansUrl}}">See your loans</a></p>`,
+    },
+    loan_escalation: {
+        subject: 'Overdue {{daysOverdue}} days: {{itemName}} borrowed by {{borrowerName}}',
+        text: `Hi {{fullName}},
+
+{{borrowerName}}{{borrowerSection}} has not returned {{quantity}}x {{itemName}}, which was due on {{dueDate}} and is now {{daysOverdue}} days overdue. The borrower has already been reminded.
+
+Review the loan: {{logUrl}}`,
+        html: `<p>Hi {{fullName}},</p>
+<p><strong>{{borrowerName}}</strong>{{borrowerSection}} has not returned <strong>{{quantity}}x {{itemName}}</strong>, which was due on {{dueDate}} and is now {{daysOverdue}} days overdue. The borrower has already been reminded.</p>
+<p><a href="{{logUrl}}">Review the loan</a></p>`,
+    },
+    admin_digest: {
+        subject: 'OliLab {{period}} Summary: {{summary}}',
+        text: `Hi {{fullName}},
+
+Here is what needs your attention in OliLab.
+
+Pending borrow requests ({{pendingRequestCount}}):
+{{pendingRequests}}
+
+Accounts awaiting approval ({{pendingUserCount}}):
+{{pendingUsers}}
+
+Overdue loans ({{overdueLoanCount}}):
+{{overdueLoans}}
+
+Open OliLab: {{appUrl}}
+You can change how often you receive this summary in your notification preferences.`,
+        html: `<p>Hi {{fullName}},</p>
+<p>Here is what needs your attention in OliLab.</p>
+<h3>Pending borrow requests ({{pendingRequestCount}})</h3>
+{{{pendingRequestsHtml}}}
+<h3>Accounts awaiting approval ({{pendingUserCount}})</h3>
+{{{pendingUsersHtml}}}
+<h3>Overdue loans ({{overdueLoanCount}})</h3>
+{{{overdueLoansHtml}}}
+<p><a href="{{appUrl}}">Open OliLab</a></p>
+<p style="font-size:12px;color:#64748b;">You can change how often you receive this summary in your <a href="{{preferencesUrl}}">notification preferences</a>.</p>`,
+    },
+} satisfies Record<string, EmailTemplate>;
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+
+const TEXT_SIGNATURE = '\n\nThank you,\nThe OliLab Team';
+
+export const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Unknown placeholders are left empty rather than showing the raw {{name}} to the reader.
+const fill = (template: string, variables: EmailVariables, escape: (value: string) => string): string =>
+    template.replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_, rawName?: string, name?: string) =>
+        rawName ? variables[rawName] ?? '' : escape(variables[name!] ?? ''));
+
+const wrapInLayout = (content: string): string => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#1e293b;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+<div style="background:#059669;color:#ffffff;padding:16px 24px;font-size:20px;font-weight:bold;">OliLab</div>
+<div style="padding:24px;line-height:1.5;">
+${content}
+<p>Thank you,<br>The OliLab Team</p>
+</div>
+</div>
+</body>
+</html>`;
+
+export const renderEmail = (to: string, templateName: EmailTemplateName, variables: EmailVariables): EmailMessage => {
+    const template: EmailTemplate = EMAIL_TEMPLATES[templateName];
+    return {
+        to,
+        subject: fill(template.subject, variables, value => value),
+        text: fill(template.text, variables, value => value).trim() + TEXT_SIGNATURE,
+        html: wrapInLayout(fill(template.html, variables, escapeHtml)),
+    };
+};
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Where outgoing email actually goes. EMAIL_TRANSPORT picks the implementation:
+ * - smtp: a real mail server, configured through the SMTP_* variables
+ * - file: writes each message to EMAIL_FILE_DIR for local development (the default)
+ * - memory: keeps messages in this process so they can be inspected without sending
+ * Server-only.
+ */
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export interface EmailTransport {
+    name: string;
+    send: (message: EmailMessage) => Promise<void>;
+}
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+}
+
+export const createSmtpTransport = (config: SmtpConfig): EmailTransport => {
+    const transporter = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+    return {
+        name: 'smtp',
+        send: async (message) => {
+            await transporter.sendMail({ from: config.from, ...message });
+        },
+    };
+};
+
+// Each message becomes a pair of files that can be opened directly: the HTML part and a text
+// file with the headers and plain-text part.
+export const createFileTransport = (directory: string): EmailTransport => ({
+    name: 'file',
+    send: async (message) => {
+        await fs.mkdir(directory, { recursive: true });
+        const slug = message.to.replace(/[^a-z0-9]+/gi, '_');
+        const baseName = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}_${slug}`);
+        await fs.writeFile(`${baseName}.txt`, `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+        await fs.writeFile(`${baseName}.html`, message.html);
+    },
+});
+
+export type MemoryTransport = EmailTransport & { sent: EmailMessage[] };
+
+export const createMemoryTransport = (): MemoryTransport => {
+    const sent: EmailMessage[] = [];
+    return {
+        name: 'memory',
+        sent,
+        send: async (message) => {
+            sent.push(message);
+        },
+    };
+};
+
+const requireEnv = (name: string): string => {
+    const value = process.env[name];
+    if (!value) {
+        throw new Error(`${name} is not configured.`);
+    }
+    return value;
+};
+
+let transport: EmailTransport | null = null;
+
+export const getEmailTransport = (): EmailTransport => {
+    if (transport) return transport;
+    switch (process.env.EMAIL_TRANSPORT || 'file') {
+        case 'smtp':
+            transport = createSmtpTransport({
+                host: requireEnv('SMTP_HOST'),
+                port: Number(process.env.SMTP_PORT || 587),
+                secure: process.env.SMTP_SECURE === 'true',
+                user: process.env.SMTP_USER,
+                password: process.env.SMTP_PASSWORD,
+                from: requireEnv('EMAIL_FROM'),
+            });
+            break;
+        case 'file':
+            transport = createFileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.data', 'emails'));
+            break;
+        case 'memory':
+            transport = createMemoryTransport();
+            break;
+        default:
+            throw new Error(`Unknown EMAIL_TRANSPORT "${process.env.EMAIL_TRANSPORT}". Use smtp, file or memory.`);
+    }
+    return transport;
+};
+
+// Lets a script or test swap in its own transport, such as a memory transport it can inspect.
+export const setEmailTransport = (replacement: EmailTransport | null) => {
+    transport = replacement;
+};
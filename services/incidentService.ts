@@ -0,0 +1,14 @@
+import { Incident, IncidentStatus } from '../types';
+
+export const isUnresolvedIncident = (incident: Incident): boolean =>
+    incident.status === IncidentStatus.PENDING;
+
+export const getUnresolvedIncidents = (userId: string, incidents: Incident[]): Incident[] =>
+    incidents.filter(incident => incident.userId === userId && isUnresolvedIncident(incident));
+
+// Replacement costs still owed across the given incidents
+export const getOutstandingCost = (incidents: Incident[]): number =>
+    incidents.filter(isUnresolvedIncident).reduce((sum, incident) => sum + incident.replacementCost, 0);
+
+export const formatCost = (amount: number): string =>
+    amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
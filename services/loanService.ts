@@ -0,0 +1,61 @@
+import { Item, LogEntry, LogAction, LogStatus } from '../types';
+import { DEFAULT_LOAN_PERIOD_DAYS, FALLBACK_LOAN_PERIOD_DAYS } from '../constants';
+
+/**
+ * Shared loan and overdue calculations. Every screen that shows whether a loan
+ * is overdue should go through these helpers so they all agree.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface OverdueInfo {
+    dueDate: Date;
+    isOverdue: boolean;
+    daysOverdue: number;
+}
+
+export const getLoanPeriodDays = (category?: string): number => {
+    if (category && DEFAULT_LOAN_PERIOD_DAYS[category] != null) {
+        return DEFAULT_LOAN_PERIOD_DAYS[category];
+    }
+    return FALLBACK_LOAN_PERIOD_DAYS;
+};
+
+// Loans are due at the end of the day, so an item borrowed in the morning and
+// returned that afternoon is never flagged.
+export const calculateDueDate = (item: Item | undefined, from: Date = new Date()): string => {
+    const dueDate = new Date(from.getTime() + getLoanPeriodDays(item?.category) * MS_PER_DAY);
+    dueDate.setHours(23, 59, 59, 999);
+    return dueDate.toISOString();
+};
+
+// Treat logs without a status as approved for backward compatibility
+export const isActiveLoan = (log: LogEntry): boolean =>
+    log.action === LogAction.BORROW && (log.status === LogStatus.APPROVED || typeof log.status === 'undefined');
+
+// Units of a loan that have not been returned yet. Partial returns leave the loan open.
+export const getOutstandingQuantity = (log: LogEntry): number =>
+    Math.max(log.quantity - (log.returnedQuantity ?? 0), 0);
+
+// Legacy loans approved before due dates existed fall back to the category's loan period.
+export const getDueDate = (log: LogEntry, item?: Item): Date => {
+    if (log.dueDate) {
+        return new Date(log.dueDate);
+    }
+    return new Date(calculateDueDate(item, new Date(log.timestamp)));
+};
+
+export const getOverdueInfo = (log: LogEntry, item?: Item, now: Date = new Date()): OverdueInfo => {
+    const dueDate = getDueDate(log, item);
+    const isOverdue = isActiveLoan(log) && now.getTime() > dueDate.getTime();
+    const daysOverdue = isOverdue ? Math.ceil((now.getTime() - dueDate.getTime()) / MS_PER_DAY) : 0;
+    return { dueDate, isOverdue, daysOverdue };
+};
+
+export const getOverdueLoans = (logs: LogEntry[], items: Item[], now: Date = new Date()): LogEntry[] => {
+    return logs.filter(log => {
+        if (!isActiveLoan(log)) return false;
+        const item = items.find(i => i.id === log.itemId);
+        return getOverdueInfo(log, item, now).isOverdue;
+    });
+};
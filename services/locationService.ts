@@ -0,0 +1,119 @@
+import { Item, ItemLocation, LocationLevel, StorageLocation } from '../types';
+
+/**
+ * The storage location tree: rooms hold cabinets, cabinets hold shelves, shelves hold bins.
+ * Items record how much of their stock sits at each location; the rest is unplaced.
+ */
+
+export const LOCATION_LEVELS: LocationLevel[] = ['room', 'cabinet', 'shelf', 'bin'];
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+    room: 'Room',
+    cabinet: 'Cabinet',
+    shelf: 'Shelf',
+    bin: 'Bin',
+};
+
+// The level of the locations that can go inside this one, or null for bins
+export const getChildLevel = (level: LocationLevel): LocationLevel | null =>
+    LOCATION_LEVELS[LOCATION_LEVELS.indexOf(level) + 1] ?? null;
+
+export const getChildLocations = (parentId: string | null, locations: StorageLocation[]): StorageLocation[] =>
+    locations
+        .filter(location => location.parentId === parentId)
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+// From the room down to the location itself
+export const getLocationPath = (locationId: string, locations: StorageLocation[]): StorageLocation[] => {
+    const path: StorageLocation[] = [];
+    let current = locations.find(l => l.id === locationId);
+    while (current) {
+        path.unshift(current);
+        const parentId = current.parentId;
+        current = parentId ? locations.find(l => l.id === parentId) : undefined;
+    }
+    return path;
+};
+
+// "Chem Lab › Cabinet A › Shelf 2"
+export const formatLocationPath = (locationId: string, locations: StorageLocation[]): string =>
+    getLocationPath(locationId, locations).map(l => l.name).join(' › ') || 'Unknown location';
+
+// The location and everything inside it
+export const getDescendantIds = (locationId: string, locations: StorageLocation[]): Set<string> => {
+    const ids = new Set([locationId]);
+    let added = true;
+    while (added) {
+        added = false;
+        locations.forEach(l => {
+            if (l.parentId && ids.has(l.parentId) && !ids.has(l.id)) {
+                ids.add(l.id);
+                added = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// Every location in tree order, for pickers
+export const flattenLocationTree = (locations: StorageLocation[], parentId: string | null = null): StorageLocation[] =>
+    getChildLocations(parentId, locations).flatMap(location => [location, ...flattenLocationTree(locations, location.id)]);
+
+export const getPlacedQuantity = (item: Pick<Item, 'locations'>): number =>
+    (item.locations ?? []).reduce((sum, l) => sum + l.quantity, 0);
+
+/**
+ * The placements left once an item's total falls to totalQuantity. Unplaced stock goes first;
+ * the rest comes off the placements from the last listed back, and emptied ones are dropped.
+ * The server applies this after every decrease, so placements never add up to more than the total.
+ */
+export const fitLocationsToTotal = (locations: ItemLocation[], totalQuantity: number): ItemLocation[] => {
+    let excess = locations.reduce((sum, l) => sum + l.quantity, 0) - Math.max(totalQuantity, 0);
+    if (excess <= 0) return locations;
+    return locations
+        .slice()
+        .reverse()
+        .map(l => {
+            const taken = Math.min(l.quantity, excess);
+            excess -= taken;
+            return { ...l, quantity: l.quantity - taken };
+        })
+        .reverse()
+        .filter(l => l.quantity > 0);
+};
+
+export interface StoredItem {
+    item: Item;
+    locationId: string;
+    quantity: number;
+}
+
+// What is kept at the location or anywhere inside it, one entry per item and exact location
+export const getItemsAtLocation = (locationId: string, items: Item[], locations: StorageLocation[]): StoredItem[] => {
+    const ids = getDescendantIds(locationId, locations);
+    return items.flatMap(item => (item.locations ?? [])
+        .filter(l => ids.has(l.locationId) && l.quantity > 0)
+        .map(l => ({ item, locationId: l.locationId, quantity: l.quantity })));
+};
+
+// Returns an error message, or null if the server will accept the split
+export const validateItemLocations = (item: Item, itemLocations: ItemLocation[]): string | null => {
+    if (itemLocations.some(l => !l.locationId)) {
+        return 'Choose a location for every row.';
+    }
+    if (new Set(itemLocations.map(l => l.locationId)).size !== itemLocations.length) {
+        return 'Each location can only be listed once.';
+    }
+    if (itemLocations.some(l => !Number.isInteger(l.quantity) || l.quantity <= 0)) {
+        return 'Quantities must be whole numbers above zero.';
+    }
+    const placed = itemLocations.reduce((sum, l) => sum + l.quantity, 0);
+    if (placed > item.totalQuantity) {
+        return `Only ${item.totalQuantity} can be placed; this places ${placed}.`;
+    }
+    return null;
+};
+
+// Scanned by Scan & Find to list everything kept there
+export const toLocationQrData = (location: StorageLocation): string =>
+    JSON.stringify({ locationId: location.id, name: location.name });
@@ -0,0 +1,116 @@
+import { DigestFrequency, Notification, NotificationChannel, NotificationEvent, NotificationType, User } from '../types';
+import { can, Permission } from './permissionService';
+
+/**
+ * Groups notification types for the notification center filters, works out which
+ * page a notification should open, and resolves each user's channel preferences.
+ * Shared by the browser and the server, which applies the same defaults.
+ */
+
+export type NotificationCategory = 'requests' | 'loans' | 'accounts' | 'reservations' | 'incidents';
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+    requests: 'Borrow Requests',
+    loans: 'Loans & Returns',
+    accounts: 'Accounts',
+    reservations: 'Reservations',
+    incidents: 'Incidents',
+};
+
+const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+    new_borrow_request: 'requests',
+    borrow_request_approved: 'requests',
+    borrow_request_denied: 'requests',
+    return_request: 'loans',
+    item_returned: 'loans',
+    loan_due_soon: 'loans',
+    loan_overdue: 'loans',
+    loan_escalated: 'loans',
+    new_user: 'accounts',
+    account_approved: 'accounts',
+    account_denied: 'accounts',
+    new_reservation: 'reservations',
+    reservation_cancelled: 'reservations',
+    incident_reported: 'incidents',
+    incident_resolved: 'incidents',
+};
+
+export const getNotificationCategory = (notification: Notification): NotificationCategory =>
+    NOTIFICATION_CATEGORIES[notification.type];
+
+// Staff are sent to the page where they can act on the notification; borrowers to their own loans.
+export const getNotificationLink = (notification: Notification): string => {
+    switch (notification.type) {
+        case 'new_borrow_request':
+        case 'return_request':
+            return '/log';
+        case 'borrow_request_approved':
+        case 'borrow_request_denied':
+        case 'item_returned':
+        case 'loan_due_soon':
+        case 'loan_overdue':
+            return '/my-borrows';
+        case 'loan_escalated':
+            return '/log';
+        case 'new_user':
+            return '/users';
+        case 'account_approved':
+        case 'account_denied':
+            return '/profile';
+        case 'new_reservation':
+        case 'reservation_cancelled':
+            return '/inventory';
+        case 'incident_reported':
+            return '/incidents';
+        case 'incident_resolved':
+            return '/my-borrows';
+    }
+};
+
+interface NotificationEventInfo {
+    label: string;
+    description: string;
+    channels: NotificationChannel[]; // The channels this event can be delivered on
+    defaults: NotificationChannel[];
+    permission?: Permission; // Only users who can act on the event receive it
+}
+
+// Staff events are summarized in the admin digest, so they do not email by default.
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, NotificationEventInfo> = {
+    new_borrow_request: { label: 'New borrow requests', description: 'Someone asks to borrow an item.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'loans.approve' },
+    return_request: { label: 'Return requests', description: 'A borrower asks to return an item.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'loans.return' },
+    new_user: { label: 'New registrations', description: 'A new account is waiting for approval.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'users.manage' },
+    new_reservation: { label: 'New reservations', description: 'Someone reserves an item.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'reservations.manage' },
+    incident_reported: { label: 'Damage & loss reports', description: 'An incident is reported against a loan.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'incidents.resolve' },
+    borrow_request_approved: { label: 'Request approved', description: 'Your borrow request is approved.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.borrow' },
+    borrow_request_denied: { label: 'Request denied', description: 'Your borrow request is denied.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.borrow' },
+    item_returned: { label: 'Return confirmed', description: 'An item you borrowed is checked back in.', channels: ['inApp', 'email'], defaults: ['inApp'], permission: 'loans.borrow' },
+    loan_due_soon: { label: 'Loan due soon', description: 'An item you borrowed is due back soon or today.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.borrow' },
+    loan_overdue: { label: 'Loan overdue', description: 'An item you borrowed is past its due date.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.borrow' },
+    loan_escalated: { label: 'Long-overdue loans', description: 'A loan you oversee is still not returned well after its due date.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.view' },
+    incident_resolved: { label: 'Incident resolved', description: 'A charge against you is marked paid or waived.', channels: ['inApp', 'email'], defaults: ['inApp', 'email'], permission: 'loans.borrow' },
+    reservation_cancelled: { label: 'Reservation cancelled', description: 'A reservation you made or manage is cancelled.', channels: ['inApp', 'email'], defaults: ['inApp'] },
+    login_alert: { label: 'New sign-ins', description: 'Your account is signed in to.', channels: ['email'], defaults: ['email'] },
+    profile_updated: { label: 'Profile changes', description: 'Your account details are changed.', channels: ['email'], defaults: ['email'] },
+};
+
+export const getRelevantNotificationEvents = (user: User): NotificationEvent[] =>
+    (Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[])
+        .filter(event => {
+            const permission = NOTIFICATION_EVENTS[event].permission;
+            return !permission || can(user, permission);
+        });
+
+export const getNotificationChannels = (user: User, event: NotificationEvent): NotificationChannel[] =>
+    user.notificationPreferences?.channels[event] ?? NOTIFICATION_EVENTS[event].defaults;
+
+export const wantsEmail = (user: User, event: NotificationEvent): boolean =>
+    getNotificationChannels(user, event).includes('email');
+
+// Only user managers get the digest, and they get it daily unless they choose otherwise
+export const canReceiveDigest = (user: User): boolean => can(user, 'users.manage');
+
+export const getDigestFrequency = (user: User): DigestFrequency => {
+    if (!canReceiveDigest(user)) return 'off';
+    return user.notificationPreferences?.digest ?? 'daily';
+};
@@ -0,0 +1,212 @@
+import type api from './apiService';
+import { State, User } from '../types';
+import { getOutstandingQuantity, isActiveLoan } from './loanService';
+
+/**
+ * Lets the lab keep working through Wi-Fi drop-outs. The last state received from
+ * the server is cached for the tab, and actions that can safely wait (borrow and
+ * return requests, returns and comments) are kept in an outbox in localStorage
+ * until the server can be reached again.
+ */
+
+const STATE_CACHE_KEY = 'oliLabStateCache';
+const USER_CACHE_KEY = 'oliLabCachedUser';
+const OUTBOX_KEY = 'oliLabOutbox';
+
+// --- State cache ---
+// Kept in sessionStorage like the session itself, so it goes away with the tab.
+
+export const saveCachedState = (state: State): void => {
+    try {
+        sessionStorage.setItem(STATE_CACHE_KEY, JSON.stringify({ state, savedAt: new Date().toISOString() }));
+    } catch (error) {
+        // Usually the storage quota; the app still works online without the cache.
+        console.warn("Could not cache state in session storage", error);
+    }
+};
+
+export const loadCachedState = (): { state: State; savedAt: Date } | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const cached = sessionStorage.getItem(STATE_CACHE_KEY);
+        if (!cached) return null;
+        const { state, savedAt } = JSON.parse(cached);
+        return { state, savedAt: new Date(savedAt) };
+    } catch (error) {
+        console.error("Could not load cached state from session storage", error);
+        return null;
+    }
+};
+
+export const clearCachedState = (): void => {
+    if (typeof window !== 'undefined') {
+        sessionStorage.removeItem(STATE_CACHE_KEY);
+        sessionStorage.removeItem(USER_CACHE_KEY);
+    }
+};
+
+// The signed-in user's profile as the server last confirmed it. Only used to keep
+// showing the app after a reload while offline; the server still checks every request.
+export const saveCachedUser = (user: User): void => {
+    try {
+        sessionStorage.setItem(USER_CACHE_KEY, JSON.stringify(user));
+    } catch (error) {
+        console.warn("Could not cache user in session storage", error);
+    }
+};
+
+export const loadCachedUser = (): User | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const cached = sessionStorage.getItem(USER_CACHE_KEY);
+        return cached ? JSON.parse(cached) : null;
+    } catch (error) {
+        console.error("Could not load cached user from session storage", error);
+        return null;
+    }
+};
+
+// --- Outbox ---
+
+export type QueuedMutation =
+    | { type: 'requestBorrowItem'; payload: Parameters<typeof api.requestBorrowItem>[0] }
+    | { type: 'requestBorrowBatch'; payload: Parameters<typeof api.requestBorrowBatch>[0] }
+    | { type: 'returnItem'; payload: Parameters<typeof api.returnItem>[0] }
+    | { type: 'returnItems'; payload: Parameters<typeof api.returnItems>[0] }
+    | { type: 'requestItemReturn'; payload: { logId: string } }
+    | { type: 'addComment'; payload: Parameters<typeof api.addComment>[0] };
+
+export interface OutboxEntry {
+    id: string;
+    ownerId: string; // The user who queued it. Entries are only replayed in their session.
+    queuedAt: string;
+    description: string; // Shown in the outbox list, e.g. "Borrow 2x Beaker"
+    mutation: QueuedMutation;
+    idempotencyKey: string; // Sent with every attempt so the server applies the action at most once
+    conflict?: string; // Why it was held back; the user decides whether to retry or discard it
+    force?: boolean; // Retried by the user: skip the local conflict check and let the server decide
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const outboxListeners = new Set<OutboxListener>();
+
+const readOutbox = (): OutboxEntry[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored = localStorage.getItem(OUTBOX_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Could not load outbox from local storage", error);
+        return [];
+    }
+};
+
+const writeOutbox = (entries: OutboxEntry[]): void => {
+    try {
+        localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error("Could not save outbox to local storage", error);
+    }
+    outboxListeners.forEach(listener => listener(entries));
+};
+
+// Oldest first, which is the order they are replayed in.
+export const loadOutbox = (ownerId: string | null): OutboxEntry[] =>
+    ownerId ? readOutbox().filter(entry => entry.ownerId === ownerId) : [];
+
+// crypto.randomUUID needs a secure context, and the app is often opened over plain http on the lab network
+export const createIdempotencyKey = (): string => {
+    if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Pass the key of an attempt that already failed, as the server may have applied it.
+export const enqueueMutation = (ownerId: string, mutation: QueuedMutation, description: string, idempotencyKey = createIdempotencyKey()): OutboxEntry => {
+    const entry: OutboxEntry = {
+        id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        ownerId,
+        queuedAt: new Date().toISOString(),
+        description,
+        mutation,
+        idempotencyKey,
+    };
+    writeOutbox([...readOutbox(), entry]);
+    return entry;
+};
+
+export const updateOutboxEntry = (entryId: string, changes: Partial<Pick<OutboxEntry, 'conflict' | 'force'>>): void => {
+    writeOutbox(readOutbox().map(entry => entry.id === entryId ? { ...entry, ...changes } : entry));
+};
+
+export const removeOutboxEntry = (entryId: string): void => {
+    writeOutbox(readOutbox().filter(entry => entry.id !== entryId));
+};
+
+// Notified with every entry, whoever owns it; filter with the current user's id.
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+    outboxListeners.add(listener);
+    return () => {
+        outboxListeners.delete(listener);
+    };
+};
+
+// Only one tab at a time replays the outbox, so no entry is sent twice. Browsers without
+// the Web Locks API fall back to running one replay at a time within the tab.
+const OUTBOX_LOCK_NAME = 'oliLabOutboxReplay';
+let localReplayQueue: Promise<unknown> = Promise.resolve();
+
+export const withOutboxLock = async (task: () => Promise<void>): Promise<void> => {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        await navigator.locks.request(OUTBOX_LOCK_NAME, task);
+        return;
+    }
+    const run = localReplayQueue.then(task);
+    localReplayQueue = run.catch(() => undefined);
+    return run;
+};
+
+/**
+ * Checks a queued action against fresh server state before it is replayed.
+ * Returns why it can no longer go through as queued, or null if it still fits.
+ */
+export const findOutboxConflict = (mutation: QueuedMutation, state: State): string | null => {
+    const checkBorrowLine = (itemId: string, quantity: number): string | null => {
+        const item = state.items.find(i => i.id === itemId);
+        if (!item) return 'This item is no longer in the inventory.';
+        if (quantity > item.availableQuantity) {
+            return `Only ${item.availableQuantity} ${item.name} are available now, but ${quantity} were requested.`;
+        }
+        return null;
+    };
+
+    const checkReturnLine = (borrowLogId: string, returnedQuantity: number): string | null => {
+        const log = state.logs.find(l => l.id === borrowLogId);
+        if (!log || !isActiveLoan(log)) return 'This loan has already been closed.';
+        const outstanding = getOutstandingQuantity(log);
+        if (returnedQuantity > outstanding) {
+            return `Only ${outstanding} of this loan are still outstanding, but ${returnedQuantity} were returned.`;
+        }
+        return null;
+    };
+
+    const sumConditions = (conditions: { quantity: number }[]) => conditions.reduce((sum, c) => sum + c.quantity, 0);
+
+    switch (mutation.type) {
+        case 'requestBorrowItem':
+            return checkBorrowLine(mutation.payload.itemId, mutation.payload.quantity);
+        case 'requestBorrowBatch':
+            return mutation.payload.lines.map(line => checkBorrowLine(line.itemId, line.quantity)).find(Boolean) ?? null;
+        case 'returnItem':
+            return checkReturnLine(mutation.payload.borrowLogId, sumConditions(mutation.payload.conditions));
+        case 'returnItems':
+            return mutation.payload.lines.map(line => checkReturnLine(line.borrowLogId, sumConditions(line.conditions))).find(Boolean) ?? null;
+        case 'requestItemReturn': {
+            const log = state.logs.find(l => l.id === mutation.payload.logId);
+            if (!log || !isActiveLoan(log)) return 'This loan has already been closed.';
+            return log.returnRequested ? 'A return has already been requested for this loan.' : null;
+        }
+        case 'addComment':
+            return state.suggestions.some(s => s.id === mutation.payload.suggestionId) ? null : 'This suggestion no longer exists.';
+    }
+};
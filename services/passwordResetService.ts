@@ -0,0 +1,51 @@
+import { User } from '../types';
+import { PASSWORD_RESET_TOKEN_TTL_MINUTES } from '../constants';
+import { getAppUrl } from './appUrl';
+import { sendPasswordResetEmail } from './emailService';
+import { serviceFetch } from './serviceClient';
+
+/**
+ * Server-side half of the password reset flow. The backend stores a hash of each
+ * one-time token together with its expiry; this module asks it for a token and
+ * delivers the link by email, so the token itself never reaches the requester.
+ */
+
+type ResetTarget = { identifier: string } | { userId: string };
+
+interface IssuedResetToken {
+    user: Pick<User, 'id' | 'fullName' | 'email'>;
+    token: string;
+    expiresAt: string;
+}
+
+const requestResetToken = async (target: ResetTarget, revokeCurrentPassword: boolean): Promise<IssuedResetToken | null> => {
+    const response = await serviceFetch('/auth/password-reset/tokens', {
+        method: 'POST',
+        body: JSON.stringify({ ...target, revokeCurrentPassword, ttlMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES }),
+    });
+    // No matching account. Callers must not reveal this to the requester.
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`Could not create a password reset token (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
+
+const buildResetUrl = (token: string): string =>
+    `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+/**
+ * Emails a reset link to the matching account, if there is one.
+ * When an admin forces a reset the current password stops working immediately.
+ * The email is only queued here, so the time taken does not depend on the mail server.
+ */
+export const sendPasswordReset = async (target: ResetTarget, requestedByAdmin: boolean = false): Promise<boolean> => {
+    const issued = await requestResetToken(target, requestedByAdmin);
+    if (!issued) {
+        return false;
+    }
+    await sendPasswordResetEmail(issued.user, buildResetUrl(issued.token), new Date(issued.expiresAt), requestedByAdmin);
+    return true;
+};
@@ -0,0 +1,67 @@
+import { User, UserRole } from '../types';
+
+/**
+ * Role-based permissions. Every screen and API route that restricts an action
+ * should ask can() rather than checking roles directly, so adding a role or
+ * moving an action between roles only means editing the map below.
+ */
+
+export type Permission =
+    | 'items.manage'          // Add, edit and delete items, units and stock
+    | 'loans.borrow'          // Request to borrow items for oneself
+    | 'loans.lend'            // Record a borrow request on behalf of any user
+    | 'loans.view'            // See the borrow log
+    | 'loans.approve'         // Approve or deny borrow requests
+    | 'loans.return'          // Check returned items back in
+    | 'incidents.report'
+    | 'incidents.resolve'
+    | 'reservations.manage'   // Mark any reservation as picked up or cancel it
+    | 'users.manage'
+    | 'reports.view'
+    | 'settings.manage'
+    | 'suggestions.manage'
+    | 'purchases.manage'      // Order and receive approved item suggestions and set budgets
+    | 'audit.view'            // Read and export the audit log
+    | 'stocktake.run';        // Count stock and post the variances
+
+export const USER_ROLES: UserRole[] = ['Member', 'Teacher', 'Lab Technician', 'Viewer', 'Admin'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    'Member': ['loans.borrow'],
+    'Teacher': ['loans.borrow', 'loans.view', 'loans.approve'],
+    'Lab Technician': ['items.manage', 'loans.lend', 'loans.view', 'loans.approve', 'loans.return', 'incidents.report', 'reservations.manage'],
+    'Viewer': ['reports.view'],
+    'Admin': ['items.manage', 'loans.lend', 'loans.view', 'loans.approve', 'loans.return', 'incidents.report', 'incidents.resolve', 'reservations.manage', 'users.manage', 'reports.view', 'settings.manage', 'suggestions.manage', 'purchases.manage', 'audit.view', 'stocktake.run'],
+};
+
+// Permissions a role only holds for borrowers in its own sections
+const SECTION_SCOPED_PERMISSIONS: Partial<Record<UserRole, Permission[]>> = {
+    'Teacher': ['loans.approve'],
+};
+
+export type PermissionSubject = Pick<User, 'role' | 'isAdmin' | 'teachingSections'>;
+
+// The section of the borrower the action applies to, for section-scoped permissions
+export interface PermissionScope {
+    section?: string | null;
+}
+
+// Accounts created before roles existed only carry the isAdmin flag.
+const getRole = (user: PermissionSubject): UserRole =>
+    user.isAdmin ? 'Admin' : user.role;
+
+/**
+ * Whether the user may perform the action. Without a scope, a section-scoped
+ * permission counts as held, which is what navigation and page guards need;
+ * pass the borrower's section when deciding on a specific record.
+ */
+export const can = (user: PermissionSubject | null | undefined, permission: Permission, scope?: PermissionScope): boolean => {
+    if (!user) return false;
+    const role = getRole(user);
+    if (!ROLE_PERMISSIONS[role]?.includes(permission)) return false;
+
+    if (scope && SECTION_SCOPED_PERMISSIONS[role]?.includes(permission)) {
+        return !!scope.section && (user.teachingSections ?? []).includes(scope.section);
+    }
+    return true;
+};
@@ -0,0 +1,106 @@
+import { CategoryBudget, PurchaseRequest, PurchaseRequestStatus } from '../types';
+
+/**
+ * Purchase requests raised from approved item suggestions, and spending against each
+ * category's budget. Costs are estimates entered when the request is approved or edited.
+ */
+
+export const PURCHASE_REQUEST_STATUS_LABELS: Record<PurchaseRequestStatus, string> = {
+    [PurchaseRequestStatus.REQUESTED]: 'Requested',
+    [PurchaseRequestStatus.ORDERED]: 'Ordered',
+    [PurchaseRequestStatus.PARTIALLY_RECEIVED]: 'Partially Received',
+    [PurchaseRequestStatus.RECEIVED]: 'Received',
+    [PurchaseRequestStatus.CANCELLED]: 'Cancelled',
+};
+
+export const getReceivedQuantity = (purchaseRequest: PurchaseRequest): number =>
+    purchaseRequest.receipts.reduce((sum, receipt) => sum + receipt.quantity, 0);
+
+export const getOutstandingQuantity = (purchaseRequest: PurchaseRequest): number =>
+    Math.max(purchaseRequest.quantity - getReceivedQuantity(purchaseRequest), 0);
+
+export const getEstimatedCost = (purchaseRequest: PurchaseRequest): number =>
+    purchaseRequest.quantity * purchaseRequest.estimatedUnitCost;
+
+export const isOpenPurchaseRequest = (purchaseRequest: PurchaseRequest): boolean =>
+    purchaseRequest.status !== PurchaseRequestStatus.RECEIVED && purchaseRequest.status !== PurchaseRequestStatus.CANCELLED;
+
+// Deliveries are only accepted once the order has been placed
+export const canReceive = (purchaseRequest: PurchaseRequest): boolean =>
+    purchaseRequest.status === PurchaseRequestStatus.ORDERED || purchaseRequest.status === PurchaseRequestStatus.PARTIALLY_RECEIVED;
+
+// Returns an error message, or null if the server will accept the details
+export const validatePurchaseDetails = (details: Pick<PurchaseRequest, 'quantity' | 'vendor' | 'estimatedUnitCost'>, receivedQuantity = 0): string | null => {
+    if (!Number.isInteger(details.quantity) || details.quantity <= 0) {
+        return 'Quantity must be a whole number above zero.';
+    }
+    if (details.quantity < receivedQuantity) {
+        return `${receivedQuantity} have already been received, so the quantity cannot be lower.`;
+    }
+    if (!details.vendor.trim()) {
+        return 'Enter the vendor.';
+    }
+    if (!Number.isFinite(details.estimatedUnitCost) || details.estimatedUnitCost < 0) {
+        return 'The estimated unit cost cannot be negative.';
+    }
+    return null;
+};
+
+export const validateReceipt = (purchaseRequest: PurchaseRequest, quantity: number): string | null => {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+        return 'Quantity must be a whole number above zero.';
+    }
+    const outstanding = getOutstandingQuantity(purchaseRequest);
+    if (quantity > outstanding) {
+        return `Only ${outstanding} ${outstanding === 1 ? 'is' : 'are'} still expected on this order.`;
+    }
+    return null;
+};
+
+export interface CategorySpend {
+    category: string;
+    budget: number | null; // null when no budget has been set
+    requested: number; // Approved but not yet ordered
+    committed: number; // Ordered and still to be delivered
+    received: number; // Delivered
+    remaining: number | null; // Budget less committed and received spend
+}
+
+// One row per category, including categories that only have a budget or only have purchases
+export const getCategorySpend = (purchaseRequests: PurchaseRequest[], budgets: CategoryBudget[], categories: string[]): CategorySpend[] => {
+    const names = Array.from(new Set([...categories, ...budgets.map(b => b.category), ...purchaseRequests.map(p => p.category)]));
+    return names.map(category => {
+        const inCategory = purchaseRequests.filter(p => p.category === category && p.status !== PurchaseRequestStatus.CANCELLED);
+        const requested = inCategory
+            .filter(p => p.status === PurchaseRequestStatus.REQUESTED)
+            .reduce((sum, p) => sum + getEstimatedCost(p), 0);
+        const committed = inCategory
+            .filter(canReceive)
+            .reduce((sum, p) => sum + getOutstandingQuantity(p) * p.estimatedUnitCost, 0);
+        const received = inCategory.reduce((sum, p) => sum + getReceivedQuantity(p) * p.estimatedUnitCost, 0);
+        const budget = budgets.find(b => b.category === category)?.amount ?? null;
+        return {
+            category,
+            budget,
+            requested,
+            committed,
+            received,
+            remaining: budget === null ? null : budget - committed - received,
+        };
+    });
+};
+
+// One flat row per purchase request, for CSV export
+export const toPurchaseRequestExportRow = (purchaseRequest: PurchaseRequest) => ({
+    item: purchaseRequest.itemName,
+    category: purchaseRequest.category,
+    vendor: purchaseRequest.vendor,
+    status: PURCHASE_REQUEST_STATUS_LABELS[purchaseRequest.status],
+    quantity: purchaseRequest.quantity,
+    received: getReceivedQuantity(purchaseRequest),
+    estimatedUnitCost: purchaseRequest.estimatedUnitCost,
+    estimatedCost: getEstimatedCost(purchaseRequest),
+    orderReference: purchaseRequest.orderReference ?? '',
+    orderedAt: purchaseRequest.orderedAt ?? '',
+    createdAt: purchaseRequest.createdAt,
+});
@@ -0,0 +1,35 @@
+/**
+ * Fixed-window request limits, kept in this process's memory. That is enough for the single
+ * Next server OliLab runs on; the counts start again when it restarts. Server-only.
+ */
+
+interface Window {
+    count: number;
+    resetAt: number;
+}
+
+const windows = new Map<string, Window>();
+const SWEEP_THRESHOLD = 10000;
+
+// Keeps keys that are never seen again, e.g. mistyped identifiers, from piling up
+const sweepExpired = (now: number) => {
+    windows.forEach((window, key) => {
+        if (window.resetAt <= now) windows.delete(key);
+    });
+};
+
+/**
+ * Counts an attempt against the key and returns false once more than `limit` have been
+ * made within the window.
+ */
+export const allowAttempt = (key: string, limit: number, windowMs: number): boolean => {
+    const now = Date.now();
+    if (windows.size > SWEEP_THRESHOLD) sweepExpired(now);
+    const window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return true;
+    }
+    window.count += 1;
+    return window.count <= limit;
+};
@@ -0,0 +1,167 @@
+import { ChangeEvent, State } from '../types';
+import api from './apiService';
+
+/**
+ * Keeps a live connection to the server's change stream. The stream is read with
+ * fetch rather than EventSource so the access token can go in the Authorization
+ * header. Dropped connections are retried with backoff and resumed from the last
+ * event seen; whenever events may have been missed, onResync asks the caller to
+ * reload its data from scratch.
+ */
+
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+interface ChangeStreamHandlers {
+    onChange: (event: ChangeEvent) => void;
+    onResync: () => void;
+    onStatusChange: (status: ConnectionStatus) => void;
+}
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+// The server sends a heartbeat comment every 15 seconds; silence for longer means a dead connection.
+const HEARTBEAT_TIMEOUT_MS = 45 * 1000;
+
+interface ServerSentEvent {
+    id?: string;
+    event: string;
+    data: string;
+}
+
+// Splits a chunk of the stream into complete events, returning the incomplete remainder.
+const parseEvents = (buffer: string): { events: ServerSentEvent[]; rest: string } => {
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    const rest = blocks.pop() ?? '';
+    const events = blocks.flatMap(block => {
+        const event: ServerSentEvent = { event: 'message', data: '' };
+        const dataLines: string[] = [];
+        block.split(/\r?\n/).forEach(line => {
+            if (line === '' || line.startsWith(':')) return; // Heartbeat or comment
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+            if (field === 'id') event.id = value;
+            else if (field === 'event') event.event = value;
+            else if (field === 'data') dataLines.push(value);
+        });
+        event.data = dataLines.join('\n');
+        return event.event === 'message' && event.data === '' ? [] : [event];
+    });
+    return { events, rest };
+};
+
+// Upserts replace the record with the same id or append it; deletes remove it.
+export const applyChangeEvent = (state: State, event: ChangeEvent): State => {
+    const current = state[event.collection] as { id: string }[];
+    let next: { id: string }[];
+    if (event.type === 'delete') {
+        next = current.filter(entry => entry.id !== event.id);
+    } else if (current.some(entry => entry.id === event.record.id)) {
+        next = current.map(entry => entry.id === event.record.id ? event.record : entry);
+    } else {
+        next = [...current, event.record];
+    }
+    return { ...state, [event.collection]: next };
+};
+
+/**
+ * Connects to the change stream and keeps it connected until the returned
+ * function is called. resumeFrom is the seq of the snapshot the caller already has;
+ * without one the first connection asks for a resync.
+ */
+export const connectToChangeStream = (handlers: ChangeStreamHandlers, resumeFrom: number | null = null): (() => void) => {
+    let lastSeq: number | null = resumeFrom;
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let controller: AbortController | null = null;
+    let stopped = false;
+
+    const scheduleReconnect = () => {
+        if (stopped) return;
+        handlers.onStatusChange(navigator.onLine ? 'reconnecting' : 'offline');
+        // Jitter keeps every open tab from reconnecting at the same moment after a server restart.
+        const delay = retryDelay * (0.5 + Math.random() / 2);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+        retryTimer = setTimeout(connect, delay);
+    };
+
+    const handleEvent = ({ id, event, data }: ServerSentEvent) => {
+        if (event === 'resync') {
+            lastSeq = id ? Number(id) : null;
+            handlers.onResync();
+            return;
+        }
+        if (event !== 'change') return;
+
+        const change = JSON.parse(data) as ChangeEvent;
+        if (lastSeq !== null && change.seq !== lastSeq + 1) {
+            // Events were lost in between; the snapshot will include them.
+            lastSeq = change.seq;
+            handlers.onResync();
+            return;
+        }
+        lastSeq = change.seq;
+        handlers.onChange(change);
+    };
+
+    async function connect() {
+        retryTimer = null;
+        controller = new AbortController();
+        const { signal } = controller;
+        let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+        const resetHeartbeat = () => {
+            if (heartbeatTimer) clearTimeout(heartbeatTimer);
+            heartbeatTimer = setTimeout(() => controller?.abort(), HEARTBEAT_TIMEOUT_MS);
+        };
+
+        try {
+            const response = await api.openChangeStream(lastSeq !== null ? String(lastSeq) : null, signal);
+            handlers.onStatusChange('live');
+            retryDelay = INITIAL_RETRY_DELAY_MS;
+            // Without a position to resume from, changes made before the stream opened were not seen.
+            if (lastSeq === null) handlers.onResync();
+
+            const reader = response.body!.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            resetHeartbeat();
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                resetHeartbeat();
+                buffer += decoder.decode(value, { stream: true });
+                const { events, rest } = parseEvents(buffer);
+                buffer = rest;
+                events.forEach(handleEvent);
+            }
+        } catch (error) {
+            if (!stopped && !signal.aborted) {
+                console.error('Change stream disconnected:', error);
+            }
+        } finally {
+            if (heartbeatTimer) clearTimeout(heartbeatTimer);
+        }
+        scheduleReconnect();
+    }
+
+    // Reconnect straight away when the network comes back instead of waiting out the backoff.
+    const handleOnline = () => {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryDelay = INITIAL_RETRY_DELAY_MS;
+            connect();
+        }
+    };
+    window.addEventListener('online', handleOnline);
+
+    handlers.onStatusChange('connecting');
+    connect();
+
+    return () => {
+        stopped = true;
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer) clearTimeout(retryTimer);
+        controller?.abort();
+        handlers.onStatusChange('offline');
+    };
+};
@@ -0,0 +1,173 @@
+import { LogEntry, NotificationType, State, User, UserStatus } from '../types';
+import { DEFAULT_ESCALATION_AFTER_DAYS, DEFAULT_REMINDER_OFFSETS_DAYS } from '../constants';
+import { getDueDate, getOutstandingQuantity, isActiveLoan } from './loanService';
+import { can } from './permissionService';
+import { getNotificationChannels } from './notificationService';
+import { createNotification } from './serviceClient';
+import { sendTemplatedEmail } from './emailService';
+import { EmailTemplateName, EmailVariables } from './emailTemplates';
+import { isArchived } from './archiveService';
+
+/**
+ * The scheduled loan reminder job. Borrowers are reminded at each configured offset from
+ * the due date, and loans that stay out long enough are escalated to the admins and the
+ * borrower's section adviser. Every reminder has a dedupe key, so the job can run as often
+ * as the scheduler likes without repeating itself. Server-only.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ReminderConfig {
+    offsetsDays: number[];
+    escalationAfterDays: number;
+}
+
+export interface ReminderRunResult {
+    reminders: number;
+    escalations: number;
+}
+
+const parseOffsets = (value: string | undefined): number[] | null => {
+    if (!value) return null;
+    const offsets = value.split(',').map(part => Number(part.trim()));
+    if (offsets.some(offset => !Number.isInteger(offset))) {
+        throw new Error(`REMINDER_OFFSETS_DAYS must be a comma-separated list of whole days, got "${value}".`);
+    }
+    return offsets;
+};
+
+export const getReminderConfig = (): ReminderConfig => {
+    const escalationAfterDays = Number(process.env.ESCALATION_AFTER_DAYS || DEFAULT_ESCALATION_AFTER_DAYS);
+    if (!Number.isInteger(escalationAfterDays) || escalationAfterDays < 1) {
+        throw new Error(`ESCALATION_AFTER_DAYS must be a whole number of days, got "${process.env.ESCALATION_AFTER_DAYS}".`);
+    }
+    return {
+        offsetsDays: parseOffsets(process.env.REMINDER_OFFSETS_DAYS) ?? DEFAULT_REMINDER_OFFSETS_DAYS,
+        escalationAfterDays,
+    };
+};
+
+const startOfDay = (date: Date): number => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Counted in calendar days so a reminder for "the day before" goes out that whole day,
+// whatever time the job runs. Negative before the due date.
+const getDaysPastDue = (dueDate: Date, now: Date): number =>
+    Math.round((startOfDay(now) - startOfDay(dueDate)) / MS_PER_DAY);
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeReminder = (daysPastDue: number, itemName: string): { type: 'loan_due_soon' | 'loan_overdue'; headline: string; message: string } => {
+    if (daysPastDue < 0) {
+        const dueIn = -daysPastDue;
+        return {
+            type: 'loan_due_soon',
+            headline: 'Due soon',
+            message: `Your ${itemName} is due back ${dueIn === 1 ? 'tomorrow' : `in ${plural(dueIn, 'day')}`}.`,
+        };
+    }
+    if (daysPastDue === 0) {
+        return { type: 'loan_due_soon', headline: 'Due today', message: `Your ${itemName} is due back today.` };
+    }
+    return {
+        type: 'loan_overdue',
+        headline: 'Overdue',
+        message: `Your ${itemName} is ${plural(daysPastDue, 'day')} overdue. Please return it to the laboratory as soon as possible.`,
+    };
+};
+
+const NOTIFICATION_EMAIL_TEMPLATES = {
+    loan_due_soon: 'loan_reminder',
+    loan_overdue: 'loan_reminder',
+    loan_escalated: 'loan_escalation',
+} satisfies Partial<Record<NotificationType, EmailTemplateName>>;
+
+interface Delivery {
+    recipient: User;
+    type: keyof typeof NOTIFICATION_EMAIL_TEMPLATES;
+    message: string;
+    log: LogEntry;
+    dedupeKey: string;
+    emailVariables: EmailVariables;
+}
+
+// Sends on each channel the recipient keeps. Returns whether anything new went out.
+const deliver = async ({ recipient, type, message, log, dedupeKey, emailVariables }: Delivery): Promise<boolean> => {
+    const channels = getNotificationChannels(recipient, type);
+    let delivered = false;
+    if (channels.includes('inApp')) {
+        const created = await createNotification({ recipientId: recipient.id, type, message, relatedLogId: log.id, dedupeKey });
+        delivered = delivered || !!created;
+    }
+    if (channels.includes('email')) {
+        const queued = await sendTemplatedEmail(recipient, NOTIFICATION_EMAIL_TEMPLATES[type], emailVariables, dedupeKey);
+        delivered = delivered || queued;
+    }
+    return delivered;
+};
+
+// The admins, plus the Teachers who advise the borrower's section
+const getEscalationRecipients = (users: User[], borrower: User): User[] =>
+    users.filter(user =>
+        user.status === UserStatus.APPROVED && !isArchived(user) &&
+        (can(user, 'users.manage') || (user.role === 'Teacher' && !!borrower.section && !!user.teachingSections?.includes(borrower.section)))
+    );
+
+export const runLoanReminders = async (
+    state: State,
+    appUrl: string,
+    config: ReminderConfig = getReminderConfig(),
+    now: Date = new Date()
+): Promise<ReminderRunResult> => {
+    const result: ReminderRunResult = { reminders: 0, escalations: 0 };
+
+    for (const log of state.logs) {
+        const quantity = getOutstandingQuantity(log);
+        if (!isActiveLoan(log) || quantity === 0) continue;
+        const borrower = state.users.find(u => u.id === log.userId);
+        if (!borrower) continue;
+
+        const item = state.items.find(i => i.id === log.itemId);
+        const itemName = item?.name || 'borrowed item';
+        const dueDate = getDueDate(log, item);
+        const daysPastDue = getDaysPastDue(dueDate, now);
+        const baseVariables = { itemName, quantity: String(quantity), dueDate: dueDate.toLocaleDateString() };
+
+        // Only the latest offset reached is sent, so a job that missed a few days catches up
+        // with one reminder rather than several.
+        const reachedOffsets = config.offsetsDays.filter(offset => daysPastDue >= offset);
+        if (reachedOffsets.length > 0) {
+            const offset = Math.max(...reachedOffsets);
+            const { type, headline, message } = describeReminder(daysPastDue, itemName);
+            const sent = await deliver({
+                recipient: borrower,
+                type,
+                message,
+                log,
+                dedupeKey: `loan_reminder:${log.id}:${offset}`,
+                emailVariables: { ...baseVariables, headline, message, loansUrl: `${appUrl}/my-borrows` },
+            });
+            if (sent) result.reminders += 1;
+        }
+
+        if (daysPastDue >= config.escalationAfterDays) {
+            for (const recipient of getEscalationRecipients(state.users, borrower)) {
+                const sent = await deliver({
+                    recipient,
+                    type: 'loan_escalated',
+                    message: `${borrower.fullName} is ${plural(daysPastDue, 'day')} late returning ${quantity}x ${itemName}.`,
+                    log,
+                    dedupeKey: `loan_escalated:${log.id}:${recipient.id}`,
+                    emailVariables: {
+                        ...baseVariables,
+                        borrowerName: borrower.fullName,
+                        borrowerSection: borrower.section ? ` (${borrower.gradeLevel} - ${borrower.section})` : '',
+                        daysOverdue: String(daysPastDue),
+                        logUrl: `${appUrl}/log`,
+                    },
+                });
+                if (sent) result.escalations += 1;
+            }
+        }
+    }
+    return result;
+};
@@ -0,0 +1,100 @@
+import { Item, LogEntry, Reservation, ReservationStatus } from '../types';
+import { getOutstandingQuantity, isActiveLoan } from './loanService';
+
+/**
+ * Conflict checks for future reservations. A reservation fits when, at every
+ * moment of its window, the units still out on loan plus those already reserved
+ * plus the new request do not exceed the item's total stock. The server applies
+ * the same check with every loan in view.
+ */
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number): boolean =>
+    startA < endB && startB < endA;
+
+export const getOverlappingReservations = (
+    itemId: string,
+    startTime: string,
+    endTime: string,
+    reservations: Reservation[],
+    excludeReservationId?: string
+): Reservation[] => {
+    const start = new Date(startTime).getTime();
+    const end = new Date(endTime).getTime();
+    return reservations.filter(r =>
+        r.itemId === itemId &&
+        r.status === ReservationStatus.RESERVED &&
+        r.id !== excludeReservationId &&
+        overlaps(start, end, new Date(r.startTime).getTime(), new Date(r.endTime).getTime())
+    );
+};
+
+// Units of the item on loan now that are due back by the given moment. Only loans the
+// caller can see count, so other borrowers' loans are assumed to stay out; overdue loans
+// are late already and are not expected back.
+const getReturnedBy = (itemId: string, moment: number, logs: LogEntry[], now: number): number =>
+    logs
+        .filter(log => log.itemId === itemId && isActiveLoan(log) && log.dueDate)
+        .filter(log => {
+            const due = new Date(log.dueDate!).getTime();
+            return now < due && due <= moment;
+        })
+        .reduce((sum, log) => sum + getOutstandingQuantity(log), 0);
+
+// The most units that are out on loan or reserved at any single moment within the window.
+// Loans only come back over time and reservations only add up when one starts, so it is
+// enough to check the window start and every overlapping reservation's start time.
+export const getPeakUnavailableQuantity = (
+    item: Item,
+    startTime: string,
+    endTime: string,
+    reservations: Reservation[],
+    logs: LogEntry[],
+    excludeReservationId?: string
+): number => {
+    const overlapping = getOverlappingReservations(item.id, startTime, endTime, reservations, excludeReservationId);
+    const windowStart = new Date(startTime).getTime();
+    const checkpoints = [windowStart, ...overlapping.map(r => Math.max(windowStart, new Date(r.startTime).getTime()))];
+    const now = Date.now();
+    const onLoanNow = item.totalQuantity - item.availableQuantity;
+
+    return checkpoints.reduce((peak, moment) => {
+        const reservedAtMoment = overlapping
+            .filter(r => new Date(r.startTime).getTime() <= moment && moment < new Date(r.endTime).getTime())
+            .reduce((sum, r) => sum + r.quantity, 0);
+        const onLoanAtMoment = Math.max(onLoanNow - getReturnedBy(item.id, moment, logs, now), 0);
+        return Math.max(peak, reservedAtMoment + onLoanAtMoment);
+    }, 0);
+};
+
+/**
+ * Returns a human-readable reason the reservation cannot be made, or null if it fits.
+ */
+export const findReservationConflict = (
+    payload: { item: Item; quantity: number; startTime: string; endTime: string; excludeReservationId?: string },
+    reservations: Reservation[],
+    logs: LogEntry[]
+): string | null => {
+    const { item, quantity, startTime, endTime, excludeReservationId } = payload;
+    const start = new Date(startTime).getTime();
+    const end = new Date(endTime).getTime();
+
+    if (isNaN(start) || isNaN(end)) {
+        return 'Please provide a valid start and end time.';
+    }
+    if (end <= start) {
+        return 'The end time must be after the start time.';
+    }
+    if (start < Date.now()) {
+        return 'Reservations must start in the future.';
+    }
+    if (quantity > item.totalQuantity) {
+        return `There are only ${item.totalQuantity} ${item.name} in stock.`;
+    }
+
+    const unavailable = getPeakUnavailableQuantity(item, startTime, endTime, reservations, logs, excludeReservationId);
+    const remaining = item.totalQuantity - unavailable;
+    if (quantity > remaining) {
+        return `${unavailable} ${item.name} are on loan or reserved during this time. Only ${Math.max(remaining, 0)} can still be reserved.`;
+    }
+    return null;
+};
@@ -0,0 +1,68 @@
+import { Notification, State, User } from '../types';
+
+/**
+ * Server-to-server calls from the Next server to the backend, authenticated with a
+ * key only the two of them know. Never import this from browser code.
+ */
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:8080/api';
+
+export const serviceFetch = (path: string, init: RequestInit = {}): Promise<Response> => {
+    const serviceKey = process.env.BACKEND_SERVICE_KEY;
+    if (!serviceKey) {
+        throw new Error('BACKEND_SERVICE_KEY is not configured.');
+    }
+    return fetch(`${BACKEND_URL}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'X-Service-Key': serviceKey, ...init.headers },
+    });
+};
+
+// Unlike the browser's /data, a service call receives every record, unscoped by role
+export const fetchState = async (): Promise<State> => {
+    const response = await serviceFetch('/data');
+    if (!response.ok) {
+        throw new Error(`Could not load inventory data (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
+
+// Returns null when the user does not exist
+export const fetchUser = async (userId: string): Promise<User | null> => {
+    const response = await serviceFetch(`/users/${encodeURIComponent(userId)}`);
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`Could not load user ${userId} (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
+
+export const fetchUsersByRole = async (role: User['role']): Promise<User[]> => {
+    const response = await serviceFetch(`/users?role=${encodeURIComponent(role)}`);
+    if (!response.ok) {
+        throw new Error(`Could not load users with role ${role} (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
+
+/**
+ * Creates an in-app notification. The backend keeps each dedupeKey once, so a job that runs
+ * again does not notify twice; returns null when the key was already used.
+ */
+export const createNotification = async (
+    notification: Pick<Notification, 'recipientId' | 'type' | 'message' | 'relatedLogId'> & { dedupeKey: string }
+): Promise<Notification | null> => {
+    const response = await serviceFetch('/notifications', {
+        method: 'POST',
+        body: JSON.stringify(notification),
+    });
+    if (response.status === 409) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`Could not create a notification (HTTP ${response.status}).`);
+    }
+    return response.json();
+};
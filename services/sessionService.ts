@@ -0,0 +1,67 @@
+import { AuthTokens } from '../types';
+
+/**
+ * Browser-side storage for the signed session tokens. Only the tokens are kept
+ * here; who the user is and what they may do always comes from the server.
+ */
+
+const SESSION_STORAGE_KEY = 'oliLabSession';
+// Sessions used to be stored as a plain user object, which could be edited to gain admin rights
+const LEGACY_SESSION_STORAGE_KEY = 'oliLabSessionUser';
+
+type SessionListener = (tokens: AuthTokens | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+export const loadSession = (): AuthTokens | null => {
+    if (typeof window === 'undefined') {
+        return null;
+    }
+    try {
+        sessionStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+        const serializedSession = sessionStorage.getItem(SESSION_STORAGE_KEY);
+        return serializedSession ? JSON.parse(serializedSession) : null;
+    } catch (error) {
+        console.error("Could not load session from session storage", error);
+        return null;
+    }
+};
+
+export const saveSession = (tokens: AuthTokens): void => {
+    try {
+        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens));
+    } catch (error) {
+        console.error("Could not save session to session storage", error);
+    }
+    listeners.forEach(listener => listener(tokens));
+};
+
+export const clearSession = (): void => {
+    if (typeof window !== 'undefined') {
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    listeners.forEach(listener => listener(null));
+};
+
+// Notified whenever the user logs in, the tokens are refreshed, or the session ends.
+export const subscribeToSession = (listener: SessionListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const getAccessToken = (): string | null => loadSession()?.accessToken ?? null;
+
+// Reads the user id from the access token without verifying it. Only good for keeping one
+// user's locally stored data apart from another's; never for deciding what they may do.
+export const getSessionUserId = (): string | null => {
+    const token = getAccessToken();
+    if (!token) return null;
+    try {
+        const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        return JSON.parse(atob(payload)).sub ?? null;
+    } catch {
+        return null;
+    }
+};
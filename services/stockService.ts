@@ -0,0 +1,85 @@
+import { Item, StockAdjustment, StockAdjustmentType } from '../types';
+
+/**
+ * The stock ledger. An item's total is the sum of its adjustments, so the history of any
+ * count can be replayed from them. The server applies the same rules; these are for forms
+ * and charts.
+ */
+
+type Direction = 'in' | 'out' | 'either';
+
+// manual: whether staff can record it directly, rather than it following from another action
+export const STOCK_ADJUSTMENT_TYPES: Record<StockAdjustmentType, { label: string; direction: Direction; manual: boolean }> = {
+    [StockAdjustmentType.PURCHASE]: { label: 'Purchase', direction: 'in', manual: true },
+    [StockAdjustmentType.DONATION]: { label: 'Donation', direction: 'in', manual: true },
+    [StockAdjustmentType.FOUND]: { label: 'Found', direction: 'in', manual: true },
+    [StockAdjustmentType.BREAKAGE]: { label: 'Breakage', direction: 'out', manual: true },
+    [StockAdjustmentType.LOSS]: { label: 'Loss', direction: 'out', manual: true },
+    [StockAdjustmentType.CORRECTION]: { label: 'Correction', direction: 'either', manual: true },
+    [StockAdjustmentType.ISSUANCE]: { label: 'Issued', direction: 'out', manual: false },
+};
+
+export const MANUAL_ADJUSTMENT_TYPES = (Object.keys(STOCK_ADJUSTMENT_TYPES) as StockAdjustmentType[])
+    .filter(type => STOCK_ADJUSTMENT_TYPES[type].manual);
+
+export const getAdjustmentDirection = (type: StockAdjustmentType): Direction =>
+    STOCK_ADJUSTMENT_TYPES[type].direction;
+
+export const formatQuantityChange = (quantityChange: number): string =>
+    quantityChange > 0 ? `+${quantityChange}` : String(quantityChange);
+
+// Returns an error message, or null if the server will accept the adjustment
+export const validateStockAdjustment = (item: Item, type: StockAdjustmentType, quantityChange: number, reason: string): string | null => {
+    if (item.isSerialized) {
+        return 'Serialized items change stock by registering or retiring units.';
+    }
+    if (!STOCK_ADJUSTMENT_TYPES[type].manual) {
+        return `${STOCK_ADJUSTMENT_TYPES[type].label} adjustments are recorded automatically.`;
+    }
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+        return 'Enter a whole, non-zero quantity.';
+    }
+    const direction = getAdjustmentDirection(type);
+    if (direction === 'in' && quantityChange < 0) {
+        return `A ${STOCK_ADJUSTMENT_TYPES[type].label.toLowerCase()} can only add stock.`;
+    }
+    if (direction === 'out' && quantityChange > 0) {
+        return `A ${STOCK_ADJUSTMENT_TYPES[type].label.toLowerCase()} can only remove stock.`;
+    }
+    const onLoan = item.totalQuantity - item.availableQuantity;
+    if (item.totalQuantity + quantityChange < onLoan) {
+        return `Stock cannot go below the ${onLoan} currently out on loan.`;
+    }
+    if (!reason.trim()) {
+        return 'Give a reason for the adjustment.';
+    }
+    return null;
+};
+
+export const needsReorder = (item: Item): boolean =>
+    item.reorderThreshold != null && item.availableQuantity <= item.reorderThreshold;
+
+// Items without a reorder threshold count as low when under a fifth of their stock is available
+export const isLowStock = (item: Item): boolean =>
+    item.reorderThreshold != null
+        ? needsReorder(item)
+        : item.totalQuantity > 0 && item.availableQuantity / item.totalQuantity < 0.2;
+
+export const getItemAdjustments = (itemId: string, adjustments: StockAdjustment[]): StockAdjustment[] =>
+    adjustments
+        .filter(adjustment => adjustment.itemId === itemId)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+export interface StockHistoryPoint {
+    timestamp: string;
+    total: number;
+}
+
+// The running total after each adjustment, oldest first, ending at the current total
+export const getStockHistory = (itemId: string, adjustments: StockAdjustment[]): StockHistoryPoint[] => {
+    let total = 0;
+    return getItemAdjustments(itemId, adjustments).map(adjustment => {
+        total += adjustment.quantityChange;
+        return { timestamp: adjustment.timestamp, total };
+    });
+};
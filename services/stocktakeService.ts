@@ -0,0 +1,67 @@
+import { Item, LocationCount, Stocktake, StocktakeCount } from '../types';
+
+/**
+ * Stocktake variance reports. An item's variance is what was found on the shelves less its
+ * availableQuantity at the time of the count; stock out on loan is expected to be missing.
+ */
+
+export const getVariance = (count: StocktakeCount): number => count.countedQuantity - count.expectedQuantity;
+
+// Serialized items change stock through their units, so their variances are only reported
+export const canPostVariance = (item: Item | undefined): boolean => !!item && !item.isSerialized;
+
+export interface VarianceLine {
+    item: Item | undefined;
+    count: StocktakeCount;
+    variance: number;
+}
+
+// Largest discrepancies first, then by name
+export const getVarianceReport = (stocktake: Stocktake, items: Item[]): VarianceLine[] =>
+    stocktake.counts
+        .map(count => ({ item: items.find(i => i.id === count.itemId), count, variance: getVariance(count) }))
+        .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance) || (a.item?.name ?? '').localeCompare(b.item?.name ?? ''));
+
+// What was counted of the item at that place so far, if anything
+export const getLocationCount = (stocktake: Stocktake, itemId: string, locationId: string | null): LocationCount | undefined =>
+    stocktake.counts.find(c => c.itemId === itemId)?.locationCounts.find(l => l.locationId === locationId);
+
+export const getUncountedItems = (stocktake: Stocktake, items: Item[]): Item[] =>
+    items.filter(item => !stocktake.counts.some(count => count.itemId === item.id));
+
+export interface VarianceSummary {
+    counted: number;
+    withVariance: number;
+    surplus: number; // Total units found beyond what was expected
+    shortage: number; // Total units expected but not found, as a positive number
+}
+
+export const summarizeVariances = (lines: VarianceLine[]): VarianceSummary => ({
+    counted: lines.length,
+    withVariance: lines.filter(line => line.variance !== 0).length,
+    surplus: lines.reduce((sum, line) => sum + Math.max(line.variance, 0), 0),
+    shortage: lines.reduce((sum, line) => sum - Math.min(line.variance, 0), 0),
+});
+
+// Reads an item or location QR label, as printed from the inventory and locations pages
+export const parseScannedLabel = (text: string): { itemId: string } | { locationId: string } | null => {
+    try {
+        const data = JSON.parse(text);
+        if (typeof data.locationId === 'string') return { locationId: data.locationId };
+        if (typeof data.id === 'string') return { itemId: data.id };
+    } catch (e) {
+        // Not one of our labels
+    }
+    return null;
+};
+
+// One flat row per counted item, for CSV export
+export const toVarianceExportRow = ({ item, count, variance }: VarianceLine) => ({
+    item: item?.name ?? count.itemId,
+    category: item?.category ?? '',
+    expectedOnShelf: count.expectedQuantity,
+    onLoan: count.onLoanQuantity,
+    counted: count.countedQuantity,
+    variance,
+    countedAt: count.countedAt,
+});
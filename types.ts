@@ -1,11 +1,84 @@
 
 
+// Returnable items are lent and come back; consumables are issued and used up
+export type ItemKind = 'returnable' | 'consumable';
+
+export type UnitOfMeasure = 'pcs' | 'pairs' | 'sheets' | 'mL' | 'L' | 'g' | 'kg';
+
+// The nine GHS hazard pictograms, GHS01 to GHS09
+export type GhsPictogram =
+  | 'explosive'
+  | 'flammable'
+  | 'oxidizing'
+  | 'compressed_gas'
+  | 'corrosive'
+  | 'toxic'
+  | 'harmful'
+  | 'health_hazard'
+  | 'environmental';
+
+export interface SafetyDataSheet {
+  fileName: string;
+  url: string; // Served by the backend
+  uploadedAt: string;
+}
+
+// Set on items that are chemicals
+export interface ChemicalDetails {
+  casNumber?: string;
+  hazards: GhsPictogram[];
+  storageClass?: string;
+  lotNumber?: string;
+  expiryDate?: string; // yyyy-mm-dd
+  safetyDataSheet?: SafetyDataSheet; // Only set by uploading a file, never through editItem
+}
+
+// How much of an item is kept at one storage location
+export interface ItemLocation {
+  locationId: string;
+  quantity: number;
+}
+
 export interface Item {
   id: string;
   name: string;
-  totalQuantity: number;
-  availableQuantity: number;
+  totalQuantity: number; // The sum of the item's stock adjustments; for serialized items, its units in service
+  availableQuantity: number; // totalQuantity less what is out on loan
   category: string;
+  isSerialized?: boolean; // Tracked per unit; quantities are derived from its asset units
+  archivedAt?: string; // Set when archived. Archived items can no longer be borrowed or reserved
+  kind?: ItemKind; // Unset means returnable
+  unit?: UnitOfMeasure; // What quantities are counted in. Unset means pieces
+  reorderThreshold?: number; // Flag the item for reordering once availableQuantity falls to this
+  chemical?: ChemicalDetails;
+  locations?: ItemLocation[]; // Where the stock is kept. Need not place all of it, never more than totalQuantity; trimmed when stock goes down (see fitLocationsToTotal)
+}
+
+export type LocationLevel = 'room' | 'cabinet' | 'shelf' | 'bin';
+
+// A place things are kept. Rooms are the top of the tree; every other level sits inside
+// a location of the level above it.
+export interface StorageLocation {
+  id: string;
+  name: string;
+  level: LocationLevel;
+  parentId: string | null; // null for rooms
+}
+
+export enum AssetUnitStatus {
+  AVAILABLE = 'AVAILABLE',
+  ON_LOAN = 'ON_LOAN',
+  MAINTENANCE = 'MAINTENANCE',
+  RETIRED = 'RETIRED',
+}
+
+// A single, individually tracked piece of equipment belonging to a serialized item
+export interface AssetUnit {
+  id: string;
+  itemId: string;
+  serialNumber: string;
+  status: AssetUnitStatus;
+  notes?: string;
 }
 
 export enum UserStatus {
@@ -14,18 +87,37 @@ export enum UserStatus {
   DENIED = 'DENIED',
 }
 
+// What each role may do is defined in services/permissionService.ts
+export type UserRole = 'Member' | 'Teacher' | 'Lab Technician' | 'Viewer' | 'Admin';
+
 export interface User {
   id:string;
   username: string;
   fullName: string;
   email: string;
-  password?: string; // For local authentication
   lrn: string; // Learners Reference Number - can be empty for admins
   gradeLevel: 'Grade 11' | 'Grade 12' | null;
   section: string | null;
-  role: 'Member' | 'Admin';
-  isAdmin: boolean;
+  role: UserRole;
+  isAdmin: boolean; // Always equal to role === 'Admin'
   status: UserStatus;
+  teachingSections?: string[]; // Sections a Teacher may approve loans for
+  notificationPreferences?: NotificationPreferences; // Unset means the defaults for the role
+  archivedAt?: string; // Set when archived. Archived users can no longer sign in
+}
+
+// The password only ever travels from the sign-up form to the server, never back.
+export type NewUserRegistration = Omit<User, 'id' | 'status'> & { password: string };
+
+// The public part of a user record: enough to show who borrowed or commented on something
+export type UserSummary = Pick<User, 'id' | 'fullName' | 'role' | 'isAdmin' | 'archivedAt'>;
+
+// Issued by the backend on login and refresh. The access token is sent as a
+// Bearer token; the refresh token is only ever sent to /auth/refresh.
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string; // When the access token stops being accepted
 }
 
 export enum LogAction {
@@ -38,9 +130,22 @@ export enum LogStatus {
   APPROVED = 'APPROVED', // This means the item is on loan
   DENIED = 'DENIED',
   RETURNED = 'RETURNED',
+  ISSUED = 'ISSUED', // A consumable that was handed out; it is used up, not returned
 }
 
 
+export enum ItemCondition {
+  GOOD = 'GOOD',
+  DAMAGED = 'DAMAGED',
+  LOST = 'LOST',
+}
+
+// How many of the returned units came back in a given condition
+export interface ReturnedQuantity {
+  condition: ItemCondition;
+  quantity: number;
+}
+
 export interface LogEntry {
   id: string;
   userId: string;
@@ -52,12 +157,162 @@ export interface LogEntry {
   adminNotes?: string; // For denial reasons or return notes
   relatedLogId?: string; // To link a RETURN action to a BORROW action
   returnRequested?: boolean;
+  dueDate?: string; // Set when a borrow request is approved
+  requestId?: string; // Groups the lines of a multi-item borrow request
+  returnedQuantity?: number; // On a BORROW log: units returned so far, for partial returns
+  conditions?: ReturnedQuantity[]; // On a RETURN log: condition breakdown of the returned units
+  assetUnitIds?: string[]; // For serialized items: the specific units handed out or returned
+  section?: string | null; // On an ISSUED log: the borrower's section when it was issued, for usage reports
+}
+
+export enum StockAdjustmentType {
+  PURCHASE = 'PURCHASE',
+  DONATION = 'DONATION',
+  FOUND = 'FOUND',
+  BREAKAGE = 'BREAKAGE',
+  LOSS = 'LOSS',
+  CORRECTION = 'CORRECTION', // A recount; the only type that may go either way
+  ISSUANCE = 'ISSUANCE', // Recorded by the server when a consumable request is approved
+}
+
+// An entry in an item's stock ledger. The item's totalQuantity is the sum of its entries,
+// so stock only ever changes by adding one; an item's opening stock is its first entry.
+export interface StockAdjustment {
+  id: string;
+  itemId: string;
+  type: StockAdjustmentType;
+  quantityChange: number; // Negative when stock is removed
+  reason: string;
+  relatedLogId?: string; // The RETURN log that reported the damage or loss, or the ISSUED log
+  stocktakeId?: string; // The stocktake whose variance this CORRECTION posted
+  purchaseRequestId?: string; // The purchase request this PURCHASE was received against
+  createdBy: string; // Admin user id
+  timestamp: string;
+}
+
+export enum StocktakeStatus {
+  OPEN = 'OPEN',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+// What was found of an item at one place. locationId is null for stock counted without scanning
+// a location, e.g. an item picked from the list or kept somewhere that is not recorded.
+export interface LocationCount {
+  locationId: string | null;
+  countedQuantity: number;
+}
+
+// One item's count. The expected and on-loan quantities are taken by the server when the
+// count is recorded, so loans made later in the session do not show up as variances.
+export interface StocktakeCount {
+  itemId: string;
+  countedQuantity: number; // Found on the shelves: the sum of locationCounts
+  locationCounts: LocationCount[]; // One per place; counting a place again replaces its figure
+  expectedQuantity: number; // availableQuantity when counted
+  onLoanQuantity: number; // Out on loan when counted, so not expected on the shelves
+  countedBy: string;
+  countedAt: string;
+}
+
+// A physical count of the stockroom. Nothing changes stock until it is completed, when the
+// approved variances are posted as CORRECTION adjustments.
+export interface Stocktake {
+  id: string;
+  name: string;
+  status: StocktakeStatus;
+  startedBy: string;
+  startedAt: string;
+  completedAt?: string; // Also set when cancelled
+  counts: StocktakeCount[]; // One per item
+  postedItemIds?: string[]; // Items whose variance was posted on completion
+}
+
+export enum IncidentStatus {
+  PENDING = 'PENDING',
+  PAID = 'PAID',
+  WAIVED = 'WAIVED',
 }
 
+// Damage or loss a borrower is liable for, raised against the loan it happened on
+export interface Incident {
+  id: string;
+  logId: string; // The BORROW log the damage or loss happened on
+  userId: string; // The liable borrower
+  itemId: string;
+  description: string;
+  photoUrls: string[];
+  replacementCost: number;
+  status: IncidentStatus;
+  reportedBy: string; // Admin user id, set by the server from the access token
+  timestamp: string;
+  resolvedAt?: string;
+  resolutionNotes?: string;
+}
+
+// Lab-wide borrowing rules. They are stored and enforced by the server; browsers only read them to warn early.
+export interface BorrowingPolicy {
+  blockBorrowingWithUnresolvedIncidents: boolean;
+}
+
+export enum ReservationStatus {
+  RESERVED = 'RESERVED',
+  FULFILLED = 'FULFILLED', // Picked up; the reservation has become a borrow log
+  CANCELLED = 'CANCELLED',
+}
+
+export interface Reservation {
+  id: string;
+  userId: string;
+  itemId: string;
+  quantity: number;
+  startTime: string;
+  endTime: string;
+  purpose?: string;
+  status: ReservationStatus;
+  timestamp: string;
+  borrowLogId?: string; // Set once the reservation is picked up
+}
+
+export type NotificationType =
+  | 'new_user'
+  | 'return_request'
+  | 'new_borrow_request'
+  | 'borrow_request_denied'
+  | 'borrow_request_approved'
+  | 'item_returned'
+  | 'loan_due_soon'
+  | 'loan_overdue'
+  | 'loan_escalated'
+  | 'account_approved'
+  | 'account_denied'
+  | 'new_reservation'
+  | 'reservation_cancelled'
+  | 'incident_reported'
+  | 'incident_resolved';
+
+export type NotificationChannel = 'inApp' | 'email';
+
+// Events a user can choose channels for. Account approval and denial are always emailed,
+// as they happen before the user can sign in to set any preferences.
+export type NotificationEvent = Exclude<NotificationType, 'account_approved' | 'account_denied'> | 'login_alert' | 'profile_updated';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+// Events missing from channels use the defaults in services/notificationService.ts.
+// The server only creates in-app notifications for users who keep the inApp channel.
+export interface NotificationPreferences {
+  channels: Partial<Record<NotificationEvent, NotificationChannel[]>>;
+  digest: DigestFrequency;
+}
+
+// Each notification belongs to a single user. Events that concern several people, such as a
+// new borrow request, create one notification per recipient so each can be read separately.
 export interface Notification {
   id: string;
+  recipientId: string;
   message: string;
-  type: 'new_user' | 'return_request' | 'new_borrow_request' | 'borrow_request_denied' | 'borrow_request_approved' | 'account_approved' | 'account_denied';
+  type: NotificationType;
   read: boolean;
   timestamp: string;
   relatedLogId?: string;
@@ -85,6 +340,49 @@ export interface Suggestion {
   timestamp: string;
 }
 
+export enum PurchaseRequestStatus {
+  REQUESTED = 'REQUESTED', // Approved from a suggestion but not yet ordered
+  ORDERED = 'ORDERED',
+  PARTIALLY_RECEIVED = 'PARTIALLY_RECEIVED',
+  RECEIVED = 'RECEIVED',
+  CANCELLED = 'CANCELLED', // Only before anything has been received
+}
+
+// One delivery against a purchase request, posted to stock as a PURCHASE adjustment
+export interface PurchaseReceipt {
+  quantity: number;
+  adjustmentId: string;
+  receivedBy: string; // Admin user id
+  receivedAt: string;
+}
+
+// Created when an item suggestion is approved. The item only enters the inventory when the
+// first delivery is received; later deliveries add to its stock.
+export interface PurchaseRequest {
+  id: string;
+  suggestionId: string;
+  itemName: string;
+  category: string;
+  quantity: number;
+  vendor: string;
+  estimatedUnitCost: number;
+  status: PurchaseRequestStatus;
+  itemId?: string; // Set by the server on the first receipt
+  orderReference?: string; // The vendor's order or quotation number
+  orderedAt?: string;
+  receipts: PurchaseReceipt[];
+  createdBy: string;
+  createdAt: string;
+  cancelledAt?: string;
+}
+
+// The amount set aside for purchases in an item category; one per category
+export interface CategoryBudget {
+  id: string;
+  category: string;
+  amount: number;
+}
+
 export interface Comment {
   id: string;
   userId: string;
@@ -114,12 +412,123 @@ export interface InventoryReport {
 }
 
 
+export type AuditAction =
+  | 'item.create'
+  | 'item.update'
+  | 'item.archive'
+  | 'item.restore'
+  | 'item.import'
+  | 'item.sds_upload'
+  | 'item.relocate'
+  | 'location.create'
+  | 'location.update'
+  | 'location.delete'
+  | 'stocktake.start'
+  | 'stocktake.count'
+  | 'stocktake.cancel'
+  | 'stocktake.complete'
+  | 'stock.adjust'
+  | 'asset_unit.create'
+  | 'asset_unit.update'
+  | 'user.create'
+  | 'user.update'
+  | 'user.archive'
+  | 'user.restore'
+  | 'user.approve'
+  | 'user.deny'
+  | 'user.preferences_update'
+  | 'user.password_change'
+  | 'user.password_reset'
+  | 'loan.request'
+  | 'loan.approve'
+  | 'loan.deny'
+  | 'loan.return'
+  | 'loan.return_request'
+  | 'reservation.create'
+  | 'reservation.cancel'
+  | 'reservation.fulfill'
+  | 'incident.report'
+  | 'incident.resolve'
+  | 'suggestion.create'
+  | 'suggestion.approve'
+  | 'suggestion.deny'
+  | 'purchase.update'
+  | 'purchase.order'
+  | 'purchase.receive'
+  | 'purchase.cancel'
+  | 'budget.update'
+  | 'settings.update'
+  | 'comment.create';
+
+export type AuditTargetType = 'item' | 'asset_unit' | 'location' | 'stocktake' | 'user' | 'log' | 'reservation' | 'incident' | 'suggestion' | 'purchase_request' | 'budget' | 'settings' | 'comment';
+
+// A single field as it was before and after the change. Values are recorded as the server
+// stored them; creations have no before and deletions no after.
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Written by the server for every mutating request, with the actor taken from the access
+// token. Entries are append-only: there is no endpoint to edit or delete them.
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  actorName: string; // As it was when the action happened, so renamed or deleted users still read correctly
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel: string; // The item name, user's full name, etc. at the time of the action
+  changes: AuditChange[];
+  reason?: string; // Denial and stock adjustment reasons
+}
+
+export interface AuditQuery {
+  search?: string; // Matches actor name, target label and reason
+  actions?: AuditAction[];
+  actorId?: string;
+  targetType?: AuditTargetType;
+  from?: string; // Inclusive ISO timestamps
+  to?: string;
+  page?: number; // Zero-based
+  pageSize?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]; // Newest first
+  total: number;
+}
+
 // FIX: Moved State interface here to be shared across modules and avoid circular dependencies.
+// Scoped to the signed-in user's role by the server. Members and Viewers receive only
+// their own logs, reservations and incidents and an empty users list; Teachers also
+// receive the records of students in their teaching sections. Lab Technicians receive every
+// log, reservation and incident and the full users list, since they lend to anyone.
+// Everyone gets userDirectory and only the notifications addressed to them. Archived items and users are included, so the
+// history that mentions them still shows their names; see services/archiveService.ts.
+// Purchase requests and budgets are only sent to users who can manage purchasing.
 export interface State {
   items: Item[];
   users: User[];
+  userDirectory: UserSummary[];
   logs: LogEntry[];
   notifications: Notification[];
   suggestions: Suggestion[];
   comments: Comment[];
-}
\ No newline at end of file
+  reservations: Reservation[];
+  stockAdjustments: StockAdjustment[];
+  assetUnits: AssetUnit[];
+  incidents: Incident[];
+  locations: StorageLocation[];
+  purchaseRequests: PurchaseRequest[];
+  budgets: CategoryBudget[];
+}
+// Pushed by the server whenever a record the signed-in user can see is created, changed
+// or removed. seq increases by one per event for that user, so a gap means events were missed.
+export type ChangeEvent = {
+  [K in keyof State]:
+    | { seq: number; collection: K; type: 'upsert'; record: State[K][number] }
+    | { seq: number; collection: K; type: 'delete'; id: string };
+}[keyof State];